@@ -4,11 +4,22 @@ import { MOTIVATIONAL_QUOTES } from './constants';
 import Dashboard from './components/Dashboard';
 import Planner from './components/Planner';
 import Analytics from './components/Analytics';
-import { Plus, LayoutDashboard, BookOpen, BarChart3, Settings, LogOut, Menu, X, Calendar, BarChart2, Sun, Moon, User, CheckCircle, Clock, Target } from 'lucide-react';
+import Syllabus from './components/Syllabus';
+import MockTests from './components/MockTests';
+import MistakeLog from './components/MistakeLog';
+import Trophies from './components/Trophies';
+import AchievementToast from './components/AchievementToast';
+import ObserverDashboard from './components/ObserverDashboard';
+import StudyGroups from './components/StudyGroups';
+import Reports from './components/Reports';
+import SettingsView from './components/Settings';
+import SyncIndicator from './components/SyncIndicator';
+import { useData } from './components/DataContext';
+import { Plus, LayoutDashboard, BookOpen, BarChart3, Settings, LogOut, Menu, X, Calendar, BarChart2, FileText, AlertTriangle, Trophy, Flame, Eye, Users, ClipboardList, Sun, Moon, User, CheckCircle, Clock, Target } from 'lucide-react';
 
 const App: React.FC = () => {
-  const [user, setUser] = useState<any>(null);
-  const [view, setView] = useState<'dashboard' | 'planner' | 'analytics'>('dashboard');
+  const { user, ready: dataReady, goals, progress, streak } = useData();
+  const [view, setView] = useState<'dashboard' | 'planner' | 'syllabus' | 'tests' | 'mistakes' | 'analytics' | 'reports' | 'trophies' | 'groups' | 'observing' | 'settings'>('dashboard');
   const [darkMode, setDarkMode] = useState(() => {
     // Check localStorage for saved theme preference
     if (typeof window !== 'undefined') {
@@ -23,19 +34,15 @@ const App: React.FC = () => {
   const [isLogin, setIsLogin] = useState(true);
   const [error, setError] = useState('');
 
+  const [pendingWrites, setPendingWrites] = useState(0);
+
   // Mobile Sidebar State
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
-  // Header Stats State
-  const [headerStats, setHeaderStats] = useState({ total: 0, completed: 0 });
+  // Header Stats follow the live goal list, so they update when goals change on any device
+  const headerStats = { total: goals.length, completed: goals.filter(g => g.completed).length };
 
-  // Authentication Listener via API abstraction
-  useEffect(() => {
-    const unsubscribe = api.onAuthStateChanged((currentUser) => {
-      setUser(currentUser);
-    });
-    return () => unsubscribe();
-  }, []);
+  useEffect(() => api.onSyncStatusChange(status => setPendingWrites(status.pending)), []);
 
   // Theme Toggle with Persistence
   useEffect(() => {
@@ -48,30 +55,6 @@ const App: React.FC = () => {
     }
   }, [darkMode]);
 
-  // Update Stats Function
-  const updateHeaderStats = async (providedStats?: { total: number, completed: number }) => {
-    if (providedStats) {
-      setHeaderStats(providedStats);
-      return;
-    }
-    if (!user) return;
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      const goals = await api.getGoals(user.uid, today);
-      setHeaderStats({
-        total: goals.length,
-        completed: goals.filter(g => g.completed).length
-      });
-    } catch (e) {
-      console.error("Failed to update stats", e);
-    }
-  };
-
-  // Initial Fetch on User Load
-  useEffect(() => {
-    if (user) updateHeaderStats();
-  }, [user]);
-
   const dayOfYear = Math.floor((new Date().getTime() - new Date(new Date().getFullYear(), 0, 0).getTime()) / 1000 / 60 / 60 / 24);
   const todaysQuote = MOTIVATIONAL_QUOTES[dayOfYear % MOTIVATIONAL_QUOTES.length];
 
@@ -92,8 +75,9 @@ const App: React.FC = () => {
 
 
   const handleLogout = async () => {
+    // Queued writes are kept per account and resume when it signs in here again
+    if (pendingWrites > 0 && !confirm(`${pendingWrites} change(s) haven't synced yet. They will sync the next time you sign in to this account on this device. Log out?`)) return;
     await api.signOut();
-    setUser(null);
   };
 
   // Date Formatting: "Good evening Satyam ,3rd Feb Tuesday"
@@ -191,7 +175,7 @@ const App: React.FC = () => {
 
       {/* Sidebar */}
       {/* Mobile Menu Button - Visible ONLY on Mobile */}
-      <div className="md:hidden fixed top-0 left-0 right-0 z-30 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-4 flex items-center justify-between shadow-sm">
+      <div className="md:hidden print:hidden fixed top-0 left-0 right-0 z-30 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-4 flex items-center justify-between shadow-sm">
         <div className="flex items-center gap-3">
           <div className="p-1.5 bg-gradient-to-br from-brand-500 to-brand-700 rounded-lg shadow-sm">
             <BookOpen className="w-5 h-5 text-white" />
@@ -205,7 +189,7 @@ const App: React.FC = () => {
 
       {/* Sidebar - Fixed on desktop, Overlay on mobile */}
       <aside className={`
-          fixed md:sticky top-0 left-0 z-40 h-screen w-64 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700
+          print:hidden fixed md:sticky top-0 left-0 z-40 h-screen w-64 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700
           transform transition-transform duration-300 ease-in-out md:translate-x-0
           ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'}
           md:top-0
@@ -234,12 +218,60 @@ const App: React.FC = () => {
           >
             <Calendar className="w-5 h-5" /> Planner & Exams
           </button>
+          <button
+            onClick={() => { setView('syllabus'); setIsSidebarOpen(false); }}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${view === 'syllabus' ? 'bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            <BookOpen className="w-5 h-5" /> Syllabus
+          </button>
+          <button
+            onClick={() => { setView('tests'); setIsSidebarOpen(false); }}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${view === 'tests' ? 'bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            <FileText className="w-5 h-5" /> Mock Tests
+          </button>
+          <button
+            onClick={() => { setView('mistakes'); setIsSidebarOpen(false); }}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${view === 'mistakes' ? 'bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            <AlertTriangle className="w-5 h-5" /> Mistake Log
+          </button>
           <button
             onClick={() => { setView('analytics'); setIsSidebarOpen(false); }}
             className={`flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${view === 'analytics' ? 'bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
           >
             <BarChart2 className="w-5 h-5" /> History
           </button>
+          <button
+            onClick={() => { setView('reports'); setIsSidebarOpen(false); }}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${view === 'reports' ? 'bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            <ClipboardList className="w-5 h-5" /> Reports
+          </button>
+          <button
+            onClick={() => { setView('trophies'); setIsSidebarOpen(false); }}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${view === 'trophies' ? 'bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            <Trophy className="w-5 h-5" /> Trophies
+          </button>
+          <button
+            onClick={() => { setView('groups'); setIsSidebarOpen(false); }}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${view === 'groups' ? 'bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            <Users className="w-5 h-5" /> Study Groups
+          </button>
+          <button
+            onClick={() => { setView('observing'); setIsSidebarOpen(false); }}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${view === 'observing' ? 'bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            <Eye className="w-5 h-5" /> Students I Follow
+          </button>
+          <button
+            onClick={() => { setView('settings'); setIsSidebarOpen(false); }}
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${view === 'settings' ? 'bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+          >
+            <Settings className="w-5 h-5" /> Settings
+          </button>
         </nav>
 
         <div className="absolute bottom-0 left-0 right-0 p-6 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
@@ -257,9 +289,9 @@ const App: React.FC = () => {
       </aside>
 
       {/* Main Content */}
-      <main className="flex-1 p-4 md:p-8 overflow-y-auto h-screen pt-20 md:pt-8 w-full">
+      <main className="flex-1 p-4 md:p-8 overflow-y-auto h-screen pt-20 md:pt-8 w-full print:h-auto print:overflow-visible print:p-0">
         {/* Header - No longer Sticky */}
-        <header className="bg-gray-50/95 dark:bg-gray-900/95 pb-6 border-b border-gray-200 dark:border-gray-800 mb-6">
+        <header className="print:hidden bg-gray-50/95 dark:bg-gray-900/95 pb-6 border-b border-gray-200 dark:border-gray-800 mb-6">
           <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
             <div>
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white capitalize">
@@ -268,6 +300,26 @@ const App: React.FC = () => {
               <div className="mt-1 text-sm italic text-gray-600 dark:text-gray-300">"{todaysQuote}"</div>
             </div>
             <div className="flex items-center gap-3">
+              <SyncIndicator />
+              {streak && streak.current > 0 && (
+                <span
+                  className={`px-3 py-1 rounded-full text-xs font-bold uppercase flex items-center gap-2 border ${streak.qualifiedToday
+                    ? 'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-200 border-orange-200 dark:border-orange-800'
+                    : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-600'}`}
+                  title={`${streak.qualifiedToday ? 'Today counts' : 'Study today to keep it going'} · Longest ${streak.longest} · ${streak.freezesAvailable} freeze${streak.freezesAvailable === 1 ? '' : 's'}`}
+                >
+                  <Flame className="w-4 h-4" /> {streak.current} day{streak.current === 1 ? '' : 's'}
+                </span>
+              )}
+              {progress && (
+                <button
+                  onClick={() => setView('trophies')}
+                  className="px-3 py-1 bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-200 rounded-full text-xs font-bold uppercase flex items-center gap-2 border border-amber-200 dark:border-amber-800"
+                  title={`${progress.xp} XP`}
+                >
+                  <Trophy className="w-4 h-4" /> Level {progress.level}
+                </button>
+              )}
               {/* Badge Logic */}
               {headerStats.total > 0 && headerStats.completed === headerStats.total ? (
                 <span className="px-3 py-1 bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200 rounded-full text-xs font-bold uppercase flex items-center gap-2 border border-green-200 dark:border-green-800">
@@ -286,9 +338,23 @@ const App: React.FC = () => {
           </div>
         </header>
 
-        {view === 'dashboard' && <Dashboard onGoalsChange={updateHeaderStats} />}
-        {view === 'planner' && <Planner onGoalsChange={updateHeaderStats} />}
-        {view === 'analytics' && <Analytics />}
+        {!dataReady ? (
+          <div className="p-8 text-center dark:text-gray-300">Preparing your data...</div>
+        ) : (
+          <>
+            {view === 'dashboard' && <Dashboard />}
+            {view === 'planner' && <Planner onOpenSyllabus={() => setView('syllabus')} />}
+            {view === 'syllabus' && <Syllabus />}
+            {view === 'tests' && <MockTests />}
+            {view === 'mistakes' && <MistakeLog />}
+            {view === 'analytics' && <Analytics />}
+            {view === 'reports' && <Reports />}
+            {view === 'trophies' && <Trophies />}
+            {view === 'groups' && <StudyGroups />}
+            {view === 'observing' && <ObserverDashboard />}
+            {view === 'settings' && <SettingsView />}
+          </>
+        )}
 
         <footer className="mt-12 py-6 border-t border-gray-200 dark:border-gray-800 text-center">
           <p className="text-sm text-gray-500 dark:text-gray-400">
@@ -296,6 +362,8 @@ const App: React.FC = () => {
           </p>
         </footer>
       </main>
+
+      <AchievementToast />
     </div>
   );
 };
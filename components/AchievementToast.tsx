@@ -0,0 +1,56 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useData } from './DataContext';
+import { ACHIEVEMENTS, AchievementDef } from '../services/achievements';
+import { ACHIEVEMENT_ICONS } from './Trophies';
+import { X } from 'lucide-react';
+
+const TOAST_MS = 6000;
+
+// Pops up when an achievement unlocks while the app is open
+const AchievementToast: React.FC = () => {
+  const { user, achievements } = useData();
+  const [queue, setQueue] = useState<AchievementDef[]>([]);
+  // Ids already known; null until the first snapshot so existing trophies don't toast on load
+  const seen = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    seen.current = null;
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || achievements.length === 0) return;
+    if (seen.current === null) {
+      seen.current = new Set(achievements.map(a => a.id));
+      return;
+    }
+    const fresh = ACHIEVEMENTS.filter(def => achievements.some(a => a.id === def.id) && !seen.current!.has(def.id));
+    fresh.forEach(def => seen.current!.add(def.id));
+    if (fresh.length > 0) setQueue(q => [...q, ...fresh]);
+  }, [user, achievements]);
+
+  useEffect(() => {
+    if (queue.length === 0) return;
+    const t = setTimeout(() => setQueue(q => q.slice(1)), TOAST_MS);
+    return () => clearTimeout(t);
+  }, [queue]);
+
+  if (queue.length === 0) return null;
+  const current = queue[0];
+  const Icon = ACHIEVEMENT_ICONS[current.icon];
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 flex items-center gap-4 p-4 pr-3 rounded-2xl shadow-2xl bg-gradient-to-r from-amber-500 to-orange-500 text-white animate-in slide-in-from-bottom">
+      <div className="p-2 bg-white/20 rounded-xl">
+        <Icon className="w-6 h-6" />
+      </div>
+      <div>
+        <div className="text-[10px] font-black uppercase tracking-widest opacity-80">Achievement unlocked · +{current.xp} XP</div>
+        <div className="font-bold">{current.title}</div>
+        <div className="text-xs opacity-90">{current.description}</div>
+      </div>
+      <button onClick={() => setQueue(queue.slice(1))} className="self-start p-1 opacity-70 hover:opacity-100"><X className="w-4 h-4" /></button>
+    </div>
+  );
+};
+
+export default AchievementToast;
@@ -1,7 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { api } from '../services/api';
-import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, PieChart, Pie, Cell, Legend, BarChart, Bar, Line } from 'recharts';
-import { Zap, Target, TrendingUp, Calendar, Clock, Award, BookOpen, Brain, Star, Flame } from 'lucide-react';
+import { ConfidenceEntry, DailySummary } from '../types.ts';
+import { OVERALL_SUBJECT, dailyScores, subjectScores } from '../services/confidence';
+import { BoardProjection, projectBoardPercentage, testPercent } from '../services/mockTests';
+import { useData } from './DataContext';
+import { addDays, formatDate, studyToday, weekdayOf } from '../services/dates';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, PieChart, Pie, Cell, Legend, BarChart, Bar, Line, LineChart } from 'recharts';
+import { Zap, Target, TrendingUp, Calendar, Clock, Award, BookOpen, Brain, Star, Flame, Snowflake } from 'lucide-react';
 
 interface DailyLogEntry {
     date: string;
@@ -13,88 +18,93 @@ interface DailyLogEntry {
     totalMins: number;
 }
 
+// Focus History row for one day's rollup
+const toDailyLogEntry = (summary: DailySummary): DailyLogEntry => {
+    const subjects = Object.keys(summary.minutesBySubject).map(subj => ({
+        name: subj,
+        topics: summary.topicsBySubject[subj] || [],
+        duration: Math.round(summary.minutesBySubject[subj])
+    }));
+    return { date: summary.date, subjects, totalMins: subjects.reduce((sum, s) => sum + s.duration, 0) };
+};
+
+const SUBJECT_CONFIDENCE_DAYS = 30;
+const STREAK_HISTORY_SIZE = 5;
+
 const Analytics: React.FC = () => {
     const [weeklyData, setWeeklyData] = useState<{ date: string, hours: number, confidence: number | null, fullDate: string }[]>([]);
     const [subjectData, setSubjectData] = useState<{ name: string, value: number }[]>([]);
     const [dailyLog, setDailyLog] = useState<DailyLogEntry[]>([]);
+    // Date cursor for the next Focus History page; null once everything is loaded
+    const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+    const [isLoadingHistory, setIsLoadingHistory] = useState(false);
     const [isDark, setIsDark] = useState(false);
+    const [subjectConfidenceData, setSubjectConfidenceData] = useState<Record<string, string | number>[]>([]);
+    const [confidenceSubjects, setConfidenceSubjects] = useState<string[]>([]);
+    const [mockTrendData, setMockTrendData] = useState<Record<string, string | number>[]>([]);
+    const [mockSubjects, setMockSubjects] = useState<string[]>([]);
+    const [projection, setProjection] = useState<BoardProjection | null>(null);
     const [stats, setStats] = useState({
         totalHours: 0,
         avgConfidence: 0,
-        streak: 0,
         bestDay: '',
         avgSession: 0,
         totalTopics: 0
     });
-    const [currentUser, setCurrentUser] = useState<any>(null);
+    const { user: currentUser, todaysSessions, confidence: confidenceLog, streak } = useData();
 
     useEffect(() => {
-        const unsub = api.onAuthStateChanged((u) => setCurrentUser(u));
         const observer = new MutationObserver(() => {
             setIsDark(document.documentElement.classList.contains('dark'));
         });
         observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
         setIsDark(document.documentElement.classList.contains('dark'));
 
-        return () => {
-            unsub();
-            observer.disconnect();
-        };
+        return () => observer.disconnect();
     }, []);
 
     useEffect(() => {
         const fetchData = async () => {
             if (!currentUser) return;
 
-            const sessions = await api.getSessions(currentUser.uid);
             const uid = currentUser.uid;
-            const allConf = await api.getConfidence(uid);
-            const confHistory = await api.getConfidenceHistory(uid);
+            // One rollup per study day instead of every raw session
+            const summaries = (await api.getDailySummaries(uid)).filter(d => d.sessionCount > 0);
+            // Overall score per day, derived from the live per-subject log
+            const confHistory = dailyScores(confidenceLog);
 
-            // 1. Basic Stats & Daily Log Processing
+            // 1. Basic Stats
             let totalMins = 0;
+            let sessionCount = 0;
             const subjMins: Record<string, number> = {};
             const dayMins: Record<number, number[]> = { 0: [], 1: [], 2: [], 3: [], 4: [], 5: [], 6: [] };
-            const logMap: Record<string, Record<string, { topics: Set<string>, duration: number }>> = {};
             const totalTopicsSet = new Set<string>();
 
-            sessions.forEach(s => {
-                totalMins += s.durationMinutes;
-                subjMins[s.subject] = (subjMins[s.subject] || 0) + s.durationMinutes;
-                totalTopicsSet.add(`${s.subject}-${s.topic}`);
-
-                const day = new Date(s.date).getDay();
-                dayMins[day].push(s.durationMinutes);
-
-                if (!logMap[s.date]) logMap[s.date] = {};
-                if (!logMap[s.date][s.subject]) logMap[s.date][s.subject] = { topics: new Set(), duration: 0 };
-                logMap[s.date][s.subject].topics.add(s.topic);
-                logMap[s.date][s.subject].duration += s.durationMinutes;
+            summaries.forEach(d => {
+                totalMins += d.totalMinutes;
+                sessionCount += d.sessionCount;
+                Object.entries(d.minutesBySubject).forEach(([subject, mins]) => {
+                    subjMins[subject] = (subjMins[subject] || 0) + mins;
+                });
+                d.topicKeys.forEach(key => totalTopicsSet.add(key));
+                dayMins[weekdayOf(d.date)].push(d.totalMinutes);
             });
 
-            const logArr: DailyLogEntry[] = Object.keys(logMap).sort().reverse().map(date => {
-                const subjects = Object.keys(logMap[date]).map(subj => ({
-                    name: subj,
-                    topics: Array.from(logMap[date][subj].topics),
-                    duration: Math.round(logMap[date][subj].duration)
-                }));
-                const totalMins = subjects.reduce((sum, s) => sum + s.duration, 0);
-                return { date, subjects, totalMins };
-            });
-            setDailyLog(logArr);
+            // Focus History loads a week of study days at a time
+            const firstPage = await api.getDailySummaryPage(uid);
+            setDailyLog(firstPage.summaries.map(toDailyLogEntry));
+            setHistoryCursor(firstPage.nextCursor);
 
             // 2. Trend Data with Confidence Correlation (Proper Scaling)
             const trendMap: Record<string, { mins: number, conf?: number }> = {};
             // Last 14 days
+            const today = studyToday();
             for (let i = 13; i >= 0; i--) {
-                const d = new Date();
-                d.setDate(d.getDate() - i);
-                const dStr = d.toISOString().split('T')[0];
-                trendMap[dStr] = { mins: 0 };
+                trendMap[addDays(today, -i)] = { mins: 0 };
             }
 
-            sessions.forEach(s => {
-                if (trendMap[s.date]) trendMap[s.date].mins += s.durationMinutes;
+            summaries.forEach(d => {
+                if (trendMap[d.date]) trendMap[d.date].mins += d.totalMinutes;
             });
 
             const confMap: Record<string, number> = {};
@@ -102,27 +112,13 @@ const Analytics: React.FC = () => {
 
             const trendChartData = Object.keys(trendMap).sort().map(date => ({
                 fullDate: date,
-                date: new Date(date).toLocaleDateString('en-US', { weekday: 'short' }),
+                date: formatDate(date, { weekday: 'short' }),
                 hours: parseFloat((trendMap[date].mins / 60).toFixed(2)), // Better precision
                 confidence: confMap[date] || null
             }));
             setWeeklyData(trendChartData);
 
-            // 3. Streak Calculation
-            let currentStreak = 0;
-            const today = new Date().toISOString().split('T')[0];
-            const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-            const sessionDatesSet = new Set(sessions.map(s => s.date));
-            let tempDate = sessionDatesSet.has(today) ? today : (sessionDatesSet.has(yesterday) ? yesterday : null);
-            if (tempDate) {
-                while (sessionDatesSet.has(tempDate)) {
-                    currentStreak++;
-                    const d = new Date(tempDate);
-                    d.setDate(d.getDate() - 1);
-                    tempDate = d.toISOString().split('T')[0];
-                }
-            }
-
+            // 3. Best day of the week (the streak comes from the shared streak engine)
             const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
             let bestDayIndex = 0;
             let maxTotal = 0;
@@ -141,20 +137,63 @@ const Analytics: React.FC = () => {
             }));
             setSubjectData(pieData);
 
-            const avgConf = allConf.length > 0 ? Math.round(allConf.reduce((a: number, b: number) => a + b, 0) / allConf.length) : 0;
+            const avgConf = confHistory.length > 0 ? Math.round(confHistory.reduce((a, c) => a + c.score, 0) / confHistory.length) : 0;
+
+            // 4. Per-subject confidence over the last 30 days
+            const from = addDays(today, -(SUBJECT_CONFIDENCE_DAYS - 1));
+            const subjectSet = new Set<string>();
+            const byDate: Record<string, ConfidenceEntry[]> = {};
+            confidenceLog.filter(c => c.date >= from && c.subject !== OVERALL_SUBJECT).forEach(c => {
+                (byDate[c.date] = byDate[c.date] || []).push(c);
+                subjectSet.add(c.subject);
+            });
+            setConfidenceSubjects(Array.from(subjectSet));
+            setSubjectConfidenceData(Object.keys(byDate).sort().map(date => ({
+                date: formatDate(date, { day: 'numeric', month: 'short' }),
+                ...subjectScores(byDate[date])
+            })));
+
+            // 5. Mock test scores, one point per test date and subject
+            const mockTests = await api.getMockTests(uid);
+            const mockByDate: Record<string, Record<string, number[]>> = {};
+            mockTests.forEach(t => {
+                const day = (mockByDate[t.date] = mockByDate[t.date] || {});
+                (day[t.subject] = day[t.subject] || []).push(testPercent(t));
+            });
+            setMockSubjects(Array.from(new Set(mockTests.map(t => t.subject))) as string[]);
+            setMockTrendData(Object.keys(mockByDate).sort().map(date => ({
+                date: formatDate(date, { day: 'numeric', month: 'short' }),
+                ...Object.fromEntries((Object.entries(mockByDate[date]) as [string, number[]][]).map(([subject, pcts]) => [
+                    subject,
+                    Math.round((pcts.reduce((a, p) => a + p, 0) / pcts.length) * 10) / 10
+                ]))
+            })));
+            setProjection(mockTests.length > 0 ? projectBoardPercentage(mockTests) : null);
 
             setStats({
                 totalHours: Math.round(totalMins / 60),
                 avgConfidence: avgConf,
-                streak: currentStreak,
                 bestDay: dayNames[bestDayIndex],
-                avgSession: sessions.length > 0 ? Math.round(totalMins / sessions.length) : 0,
+                avgSession: sessionCount > 0 ? Math.round(totalMins / sessionCount) : 0,
                 totalTopics: totalTopicsSet.size
             });
         };
 
         fetchData();
-    }, [currentUser]);
+        // Today's sessions and confidence are live, so new study shows up without a refresh
+    }, [currentUser, todaysSessions, confidenceLog]);
+
+    const loadMoreHistory = async () => {
+        if (!currentUser || !historyCursor) return;
+        setIsLoadingHistory(true);
+        try {
+            const page = await api.getDailySummaryPage(currentUser.uid, historyCursor);
+            setDailyLog(prev => [...prev, ...page.summaries.map(toDailyLogEntry)]);
+            setHistoryCursor(page.nextCursor);
+        } finally {
+            setIsLoadingHistory(false);
+        }
+    };
 
     const COLORS = ['#8b5cf6', '#0ea5e9', '#10b981', '#f43f5e', '#f59e0b', '#ec4899'];
 
@@ -167,8 +206,7 @@ const Analytics: React.FC = () => {
 
     const CustomTooltip = ({ active, payload, label }: any) => {
         if (active && payload && payload.length) {
-            const dateObj = new Date(payload[0].payload.fullDate);
-            const formattedDate = dateObj.toLocaleDateString('en-US', {
+            const formattedDate = formatDate(payload[0].payload.fullDate, {
                 weekday: 'long',
                 month: 'short',
                 day: 'numeric'
@@ -283,8 +321,20 @@ const Analytics: React.FC = () => {
                         <div className="mt-6 flex flex-wrap gap-4 justify-center md:justify-start">
                             <div className="bg-white/10 backdrop-blur-md px-4 py-2 rounded-xl border border-white/10 flex items-center gap-2">
                                 <Flame className="w-5 h-5 text-orange-400" />
-                                <span className="font-bold">{stats.streak} Day Streak</span>
+                                <span className="font-bold">{streak?.current || 0} Day Streak</span>
                             </div>
+                            {streak && streak.longest > 0 && (
+                                <div className="bg-white/10 backdrop-blur-md px-4 py-2 rounded-xl border border-white/10 flex items-center gap-2">
+                                    <Award className="w-5 h-5 text-yellow-400" />
+                                    <span className="font-bold">Best {streak.longest}</span>
+                                </div>
+                            )}
+                            {streak && streak.freezesAvailable > 0 && (
+                                <div className="bg-white/10 backdrop-blur-md px-4 py-2 rounded-xl border border-white/10 flex items-center gap-2" title="A freeze covers one missed day">
+                                    <Snowflake className="w-5 h-5 text-sky-300" />
+                                    <span className="font-bold">{streak.freezesAvailable} Freeze{streak.freezesAvailable === 1 ? '' : 's'}</span>
+                                </div>
+                            )}
                             <div className="bg-white/10 backdrop-blur-md px-4 py-2 rounded-xl border border-white/10 flex items-center gap-2">
                                 <Target className="w-5 h-5 text-emerald-400" />
                                 <span className="font-bold">{stats.avgConfidence}% Ready</span>
@@ -336,10 +386,7 @@ const Analytics: React.FC = () => {
                                     fontSize={11}
                                     tickLine={false}
                                     axisLine={false}
-                                    tickFormatter={(str) => {
-                                        const date = new Date(str);
-                                        return date.toLocaleDateString('en-US', { weekday: 'short' });
-                                    }}
+                                    tickFormatter={(str) => formatDate(str, { weekday: 'short' })}
                                 />
                                 <YAxis
                                     yAxisId="left"
@@ -448,6 +495,121 @@ const Analytics: React.FC = () => {
                 </div>
             </div>
 
+            {/* Per-Subject Confidence */}
+            <div className="bg-white dark:bg-gray-800 rounded-3xl p-8 shadow-sm border border-gray-100 dark:border-gray-700">
+                <h2 className="text-2xl font-black mb-2 dark:text-white">Confidence by Subject</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-8">Your check-in ratings over the last {SUBJECT_CONFIDENCE_DAYS} days</p>
+                <div className="h-72 w-full">
+                    {confidenceSubjects.length > 0 ? (
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={subjectConfidenceData}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={isDark ? '#374151' : '#f3f4f6'} opacity={0.5} />
+                                <XAxis dataKey="date" stroke="#9ca3af" fontSize={11} tickLine={false} axisLine={false} />
+                                <YAxis stroke="#9ca3af" fontSize={11} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} domain={[0, 100]} />
+                                <Tooltip
+                                    formatter={(value: number) => `${value}%`}
+                                    contentStyle={{ backgroundColor: isDark ? '#1f2937' : '#fff', border: 'none', borderRadius: '12px' }}
+                                />
+                                <Legend
+                                    iconType="circle"
+                                    formatter={(value) => <span style={{ color: isDark ? '#9ca3af' : '#4b5563', fontSize: '11px', fontWeight: 'bold', textTransform: 'uppercase', letterSpacing: '0.1em' }}>{value}</span>}
+                                />
+                                {confidenceSubjects.map((subject, index) => (
+                                    <Line
+                                        key={subject}
+                                        type="monotone"
+                                        dataKey={subject}
+                                        stroke={COLORS[index % COLORS.length]}
+                                        strokeWidth={3}
+                                        dot={{ r: 3 }}
+                                        connectNulls
+                                    />
+                                ))}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    ) : (
+                        <div className="h-full flex flex-col items-center justify-center text-gray-400">
+                            <Brain className="w-16 h-16 mb-4 opacity-10" />
+                            <span className="font-medium">Rate your subjects in the daily check-in to see trends.</span>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Streak History */}
+            {streak && streak.runs.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 rounded-3xl p-8 shadow-sm border border-gray-100 dark:border-gray-700">
+                    <h2 className="text-2xl font-black mb-2 dark:text-white">Longest Streaks</h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">Rest days and freezes keep a streak alive without adding to it</p>
+                    <div className="space-y-3">
+                        {streak.runs.slice(0, STREAK_HISTORY_SIZE).map((run, i) => (
+                            <div key={run.start} className="flex items-center gap-4">
+                                <span className="w-6 text-sm font-black text-gray-400">#{i + 1}</span>
+                                <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-gradient-to-r from-orange-400 to-red-500 rounded-full" style={{ width: `${(run.length / streak.longest) * 100}%` }} />
+                                </div>
+                                <span className="w-16 text-right text-sm font-bold dark:text-white">{run.length} days</span>
+                                <span className="w-44 text-right text-xs text-gray-500 dark:text-gray-400">
+                                    {formatDate(run.start, { day: 'numeric', month: 'short' })} – {formatDate(run.end, { day: 'numeric', month: 'short', year: 'numeric' })}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Mock Test Scores */}
+            <div className="bg-white dark:bg-gray-800 rounded-3xl p-8 shadow-sm border border-gray-100 dark:border-gray-700">
+                <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+                    <div>
+                        <h2 className="text-2xl font-black mb-2 dark:text-white">Mock Test Scores</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Percentage scored in each practice paper</p>
+                    </div>
+                    {projection && projection.overall !== null && (
+                        <div className="text-right">
+                            <div className="text-xs font-bold text-gray-400 uppercase tracking-widest">Projected Boards</div>
+                            <div className="text-3xl font-black text-brand-600 dark:text-brand-400">{projection.overall}%</div>
+                            <div className="text-[10px] text-gray-400">Best {projection.subjectsCounted.length} of {Object.keys(projection.bySubject).length} subjects</div>
+                        </div>
+                    )}
+                </div>
+                <div className="h-72 w-full">
+                    {mockSubjects.length > 0 ? (
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={mockTrendData}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={isDark ? '#374151' : '#f3f4f6'} opacity={0.5} />
+                                <XAxis dataKey="date" stroke="#9ca3af" fontSize={11} tickLine={false} axisLine={false} />
+                                <YAxis stroke="#9ca3af" fontSize={11} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} domain={[0, 100]} />
+                                <Tooltip
+                                    formatter={(value: number) => `${value}%`}
+                                    contentStyle={{ backgroundColor: isDark ? '#1f2937' : '#fff', border: 'none', borderRadius: '12px' }}
+                                />
+                                <Legend
+                                    iconType="circle"
+                                    formatter={(value) => <span style={{ color: isDark ? '#9ca3af' : '#4b5563', fontSize: '11px', fontWeight: 'bold', textTransform: 'uppercase', letterSpacing: '0.1em' }}>{value}</span>}
+                                />
+                                {mockSubjects.map((subject, index) => (
+                                    <Line
+                                        key={subject}
+                                        type="monotone"
+                                        dataKey={subject}
+                                        stroke={COLORS[index % COLORS.length]}
+                                        strokeWidth={3}
+                                        dot={{ r: 4 }}
+                                        connectNulls
+                                    />
+                                ))}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    ) : (
+                        <div className="h-full flex flex-col items-center justify-center text-gray-400">
+                            <Award className="w-16 h-16 mb-4 opacity-10" />
+                            <span className="font-medium">Log a sample paper under Mock Tests to track your scores.</span>
+                        </div>
+                    )}
+                </div>
+            </div>
+
             {/* Daily Study Log Table */}
             <div className="bg-white dark:bg-gray-800 rounded-3xl border border-gray-100 dark:border-gray-700 shadow-sm overflow-hidden">
                 <div className="p-8 border-b border-gray-100 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-700/20">
@@ -473,10 +635,10 @@ const Analytics: React.FC = () => {
                                     <tr key={idx} className="group hover:bg-brand-50/20 dark:hover:bg-brand-900/10 transition-colors">
                                         <td className="px-8 py-6 align-top">
                                             <div className="text-base font-black text-gray-900 dark:text-white">
-                                                {new Date(day.date).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' })}
+                                                {formatDate(day.date, { day: 'numeric', month: 'short', year: 'numeric' })}
                                             </div>
                                             <div className="text-[11px] text-gray-400 uppercase font-black mt-1 tracking-wider">
-                                                {new Date(day.date).toLocaleDateString('en-US', { weekday: 'long' })}
+                                                {formatDate(day.date, { weekday: 'long' })}
                                             </div>
                                         </td>
                                         <td className="px-8 py-6">
@@ -522,6 +684,17 @@ const Analytics: React.FC = () => {
                         </tbody>
                     </table>
                 </div>
+                {historyCursor && (
+                    <div className="p-6 border-t border-gray-100 dark:border-gray-700 text-center">
+                        <button
+                            onClick={loadMoreHistory}
+                            disabled={isLoadingHistory}
+                            className="px-6 py-2.5 rounded-xl text-sm font-bold text-brand-600 dark:text-brand-300 bg-brand-50 dark:bg-brand-900/20 hover:bg-brand-100 dark:hover:bg-brand-900/40 disabled:opacity-50"
+                        >
+                            {isLoadingHistory ? 'Loading...' : 'Load older days'}
+                        </button>
+                    </div>
+                )}
             </div>
 
             {/* Quick Insights Cards */}
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { SUBJECTS_LIST } from '../constants.ts';
+import { useData } from './DataContext';
+import { dailyScore, subjectScores } from '../services/confidence';
+
+// Daily check-in: one confidence slider per subject, plus an optional rating for
+// a single chapter. The day's overall score is derived from the subject ratings.
+const ConfidenceCheckIn: React.FC = () => {
+  const { user: currentUser, today, confidence, chapters } = useData();
+  const [isEditing, setIsEditing] = useState(false);
+  const [inputs, setInputs] = useState<Record<string, number>>({});
+  const [chapterId, setChapterId] = useState('');
+  const [chapterScore, setChapterScore] = useState(50);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const todaysEntries = confidence.filter(c => c.date === today);
+  const overall = dailyScore(todaysEntries);
+  const bySubject = subjectScores(todaysEntries);
+  // Only subject-level ratings pre-fill the sliders; chapter ratings are separate
+  const subjectRatings = Object.fromEntries(todaysEntries.filter(e => !e.chapterId).map(e => [e.subject, e.score]));
+
+  const startEditing = () => {
+    setInputs(subjectRatings);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!currentUser) return;
+    setIsSaving(true);
+    try {
+      for (const [subject, score] of Object.entries(inputs) as [string, number][]) {
+        if (subjectRatings[subject] !== score) await api.logConfidence(currentUser.uid, today, subject, score);
+      }
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleChapterRating = async () => {
+    const chapter = chapters.find(c => c.id === chapterId);
+    if (!currentUser || !chapter) return;
+    await api.logConfidence(currentUser.uid, today, chapter.subject, chapterScore, chapter.id);
+    setChapterId('');
+  };
+
+  if (overall !== null && !isEditing) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="flex justify-between items-center">
+          <div>
+            <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Today's Confidence</h4>
+            <div className="text-3xl font-bold text-indigo-600 dark:text-indigo-400">{overall}%</div>
+          </div>
+          <button
+            onClick={startEditing}
+            className="px-4 py-2 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 rounded-lg font-medium"
+          >
+            Edit
+          </button>
+        </div>
+        {Object.keys(bySubject).length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {Object.entries(bySubject).map(([subject, score]) => (
+              <span key={subject} className="text-xs px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                {subject} <span className="font-bold">{score}%</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gradient-to-r from-indigo-600 to-purple-600 rounded-xl p-6 text-white shadow-lg">
+      <h4 className="font-bold mb-2">{overall !== null ? "Edit Confidence" : "Daily Check-in"}</h4>
+      <p className="text-indigo-100 text-sm mb-4">How confident do you feel in each subject? Skip any you didn't touch today.</p>
+
+      <div className="space-y-3">
+        {SUBJECTS_LIST.map(subject => (
+          <div key={subject} className="flex items-center gap-3 text-sm">
+            <span className="w-28 shrink-0">{subject}</span>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={inputs[subject] ?? 50}
+              onChange={(e) => setInputs({ ...inputs, [subject]: Number(e.target.value) })}
+              className={`w-full h-2 bg-indigo-400 rounded-lg appearance-none cursor-pointer accent-white ${inputs[subject] === undefined ? 'opacity-40' : ''}`}
+            />
+            <span className="w-10 text-right font-bold">{inputs[subject] !== undefined ? `${inputs[subject]}%` : '–'}</span>
+          </div>
+        ))}
+      </div>
+
+      {chapters.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-white/20">
+          <p className="text-indigo-100 text-xs mb-2">Rate a single chapter (optional)</p>
+          <div className="flex items-center gap-2">
+            <select
+              value={chapterId}
+              onChange={(e) => setChapterId(e.target.value)}
+              className="flex-1 min-w-0 p-1.5 rounded-lg text-sm text-gray-900"
+            >
+              <option value="">Pick a chapter...</option>
+              {SUBJECTS_LIST.map(subject => {
+                const subjectChapters = chapters.filter(c => c.subject === subject);
+                return subjectChapters.length > 0 && (
+                  <optgroup key={subject} label={subject}>
+                    {subjectChapters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </optgroup>
+                );
+              })}
+            </select>
+            {chapterId && (
+              <>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={chapterScore}
+                  onChange={(e) => setChapterScore(Number(e.target.value))}
+                  className="w-24 h-2 bg-indigo-400 rounded-lg appearance-none cursor-pointer accent-white"
+                />
+                <span className="w-10 text-right text-sm font-bold">{chapterScore}%</span>
+                <button onClick={handleChapterRating} className="bg-white/20 px-2 py-1 rounded-lg text-xs font-medium">Rate</button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mt-4">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || Object.keys(inputs).length === 0}
+          className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-3 py-1.5 rounded-lg text-sm font-medium shadow-sm transition-all active:scale-95"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        {overall !== null && (
+          <button
+            onClick={() => setIsEditing(false)}
+            className="bg-white/20 text-white px-3 py-1 rounded-lg text-sm"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConfidenceCheckIn;
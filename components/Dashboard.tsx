@@ -1,16 +1,18 @@
 import React, { useEffect, useState } from 'react';
 import { api } from '../services/api';
-import { DailyGoal, Priority, StudySession } from '../types.ts';
-import { EXAM_SCHEDULE } from '../constants.ts';
-import { CheckCircle, Circle, TrendingUp, Calendar as CalIcon, Clock, History, Hourglass, Pencil, Trash2 } from 'lucide-react';
+import { DailyGoal, Priority, RecallRating, StudySession } from '../types.ts';
+import { getUpcomingExams, formatExamDate } from '../services/exams';
+import { useData } from './DataContext';
+import { CheckCircle, Circle, TrendingUp, Calendar as CalIcon, Clock, History, Hourglass, Pencil, Trash2, Repeat, CalendarClock } from 'lucide-react';
 import SessionTracker from './SessionTracker';
+import ConfidenceCheckIn from './ConfidenceCheckIn';
+import { dailyScores } from '../services/confidence';
+import { isOverdue } from '../services/rollover';
+import { formatDate } from '../services/dates';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 
-interface Props {
-    onGoalsChange?: (stats: { total: number, completed: number }) => void;
-}
-
-const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
+const Dashboard: React.FC = () => {
+    const { user: currentUser, today, goals: liveGoals, todaysSessions, confidence: confidenceLog, exams } = useData();
     const [goals, setGoals] = useState<(DailyGoal & { actualHours: number })[]>([]);
     const [todayStats, setTodayStats] = useState({
         totalMinutesStudied: 0,
@@ -20,44 +22,25 @@ const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
     });
     const [subjectDistribution, setSubjectDistribution] = useState<{ name: string, value: number }[]>([]);
     const [recentSessions, setRecentSessions] = useState<StudySession[]>([]);
-    const [nextExam, setNextExam] = useState<{ subject: string, days: number, date: string } | null>(null);
+    const [ratingGoalId, setRatingGoalId] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
     const [motivationalNote, setMotivationalNote] = useState("");
     const [isEditingNote, setIsEditingNote] = useState(false);
-    const [currentUser, setCurrentUser] = useState<any>(null);
-    const [confidence, setConfidence] = useState<number | null>(null);
     const [avgConfidence, setAvgConfidence] = useState<number | null>(null);
-    const [confidenceInput, setConfidenceInput] = useState(80); // Default for slider
-    const [confidenceHistory, setConfidenceHistory] = useState<{ date: string, score: number }[]>([]);
-    const [isEditingConfidence, setIsEditingConfidence] = useState(false);
     const [editingSession, setEditingSession] = useState<StudySession | null>(null);
     const [editDuration, setEditDuration] = useState(0);
 
-    useEffect(() => {
-        const unsub = api.onAuthStateChanged((u) => {
-            setCurrentUser(u);
-        });
-        return () => unsub();
-    }, []);
-
     const fetchDashboardData = async () => {
         if (!currentUser) return;
-        setLoading(true);
+        // Only the first load shows the placeholder; refreshes keep children (e.g. a running timer) mounted
 
-        const today = new Date().toISOString().split('T')[0];
         const uid = currentUser.uid;
 
-        // 1. Fetch Goals (Includes rollover logic from API)
-        const fetchedGoals = await api.getGoals(uid, today);
-
-        // 2. Fetch All Sessions (For stats AND history)
-        const allSessions = await api.getSessions(uid); // Returns all sorted by endTime desc
+        // 1. Goals (Includes rollover logic from API) and today's sessions come live from the data context
+        const fetchedGoals = liveGoals;
 
-        // Filter for Today's Stats
-        const todaysSessions = allSessions.filter(s => s.date === today);
-
-        // Set History
-        setRecentSessions(allSessions.slice(0, 5));
+        // 2. Fetch the latest few sessions (For history)
+        setRecentSessions(await api.getRecentSessions(uid, 5));
 
         let totalMinutesStudied = 0;
         const subjectMins: Record<string, number> = {};
@@ -69,14 +52,13 @@ const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
 
         let targetMinutes = 0;
 
-        // 3. Map actual hours to goals using ALL sessions (for total progress across days)
+        // 3. Map actual hours to goals using every session logged against them (for total progress across days)
+        const goalMinutes = await api.getGoalMinutes(uid, fetchedGoals.map(g => g.id!));
         const goalsWithProgress = fetchedGoals.map(g => {
             targetMinutes += (g.targetHours * 60);
 
             // Calculate progress specific to this goal across all days
-            const goalSpecificMinutes = allSessions
-                .filter(s => s.subject === g.subject && s.topic === g.title)
-                .reduce((sum, s) => sum + s.durationMinutes, 0);
+            const goalSpecificMinutes = goalMinutes[g.id!] || 0;
 
             return {
                 ...g,
@@ -106,11 +88,6 @@ const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
             totalGoals: totalGoalsCount
         });
 
-        // Notify Parent (App.tsx) to update Header Badge
-        if (onGoalsChange) {
-            onGoalsChange({ total: totalGoalsCount, completed: completedCount });
-        }
-
         // Chart Data
         const chartData = Object.keys(subjectMins).map(key => ({
             name: key,
@@ -122,46 +99,31 @@ const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
         const note = await api.getNote(uid);
         setMotivationalNote(note || "I will not compromise on Science");
 
-        // Calculate Next Exam
-        const calcDays = (dateStr: string) => {
-            const [day, month, year] = dateStr.split('/').map(Number);
-            const examDate = new Date(year, month - 1, day);
-            const now = new Date();
-            const diff = examDate.getTime() - now.getTime();
-            return Math.ceil(diff / (1000 * 60 * 60 * 24));
-        };
-
-        const upcoming = EXAM_SCHEDULE
-            .map(e => ({ ...e, days: calcDays(e.date) }))
-            .filter(e => e.days >= 0)
-            .sort((a, b) => a.days - b.days);
-
-        if (upcoming.length > 0) setNextExam({ ...upcoming[0], days: upcoming[0].days });
-
-        // Fetch Confidence
-        const conf = await api.getConfidence(uid, today);
-        setConfidence(conf);
-        if (conf) setConfidenceInput(conf); // Pre-fill slider with today's value
-
-        const allConf = await api.getConfidence(uid);
-        if (allConf.length > 0) {
-            const sum = allConf.reduce((a: number, b: number) => a + b, 0);
-            setAvgConfidence(Math.round(sum / allConf.length));
-        } else {
-            setAvgConfidence(null);
-        }
+        // Confidence: average of each day's overall score, derived from its subject ratings
+        const daily = dailyScores(confidenceLog);
+        setAvgConfidence(daily.length > 0 ? Math.round(daily.reduce((a, c) => a + c.score, 0) / daily.length) : null);
 
         setLoading(false);
     };
 
+    // Follows the shared exam list, so an exam added or removed elsewhere shows up here
+    const upcoming = getUpcomingExams(exams);
+    const nextExam = upcoming.length > 0 ? { subject: upcoming[0].subject, days: upcoming[0].daysLeft, date: upcoming[0].date } : null;
+
+    // Live goal, session and confidence updates re-derive everything shown here
     useEffect(() => {
         if (currentUser) fetchDashboardData();
-    }, [currentUser]);
+    }, [currentUser, liveGoals, todaysSessions, confidenceLog]);
 
-    const toggleGoalCompletion = async (goal: DailyGoal & { actualHours: number }) => {
+    const toggleGoalCompletion = async (goal: DailyGoal & { actualHours: number }, rating?: RecallRating) => {
         if (!goal.id || !currentUser) return;
-        await api.toggleGoal(currentUser.uid, goal.id, goal.completed);
-        fetchDashboardData();
+        // Finishing a revision asks how well it was recalled first
+        if (goal.revisionOf && !goal.completed && !rating) {
+            setRatingGoalId(goal.id);
+            return;
+        }
+        setRatingGoalId(null);
+        await api.toggleGoal(currentUser.uid, goal.id, goal.completed, rating);
     };
 
     const saveNote = async () => {
@@ -170,15 +132,6 @@ const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
         setIsEditingNote(false);
     };
 
-    const handleConfidenceLog = async (score: number) => {
-        if (!currentUser) return;
-        const today = new Date().toISOString().split('T')[0];
-        await api.logConfidence(currentUser.uid, today, score);
-        setConfidence(score);
-        setIsEditingConfidence(false);
-        fetchDashboardData(); // Refresh average
-    };
-
     const handleDeleteSession = async (sessionId: string) => {
         if (!currentUser || !confirm('Delete this session?')) return;
         await api.deleteSession(currentUser.uid, sessionId);
@@ -324,6 +277,20 @@ const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
                                                         <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-500">
                                                             {goal.subject}
                                                         </span>
+                                                        {goal.revisionOf && (
+                                                            <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded bg-purple-100 dark:bg-purple-900/40 text-purple-600 dark:text-purple-300 flex items-center gap-1">
+                                                                <Repeat className="w-3 h-3" /> Revision {goal.revisionStep}
+                                                            </span>
+                                                        )}
+                                                        {isOverdue(goal, today) ? (
+                                                            <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded bg-red-100 dark:bg-red-900/40 text-red-600 dark:text-red-300 flex items-center gap-1">
+                                                                <CalendarClock className="w-3 h-3" /> Overdue · set for {formatDate(goal.originalDate || goal.date, { day: 'numeric', month: 'short' }, 'en-GB')}
+                                                            </span>
+                                                        ) : goal.originalDate && goal.originalDate !== goal.date && !goal.completed && (
+                                                            <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-500 flex items-center gap-1">
+                                                                <CalendarClock className="w-3 h-3" /> Moved from {formatDate(goal.originalDate, { day: 'numeric', month: 'short' }, 'en-GB')}
+                                                            </span>
+                                                        )}
                                                     </div>
 
                                                     <div className="text-xs text-gray-500 flex items-center gap-4 mb-2">
@@ -343,13 +310,27 @@ const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
                                                     </div>
                                                 </div>
 
-                                                <button
-                                                    onClick={() => toggleGoalCompletion(goal)}
-                                                    className="ml-4 text-gray-400 hover:text-green-500 transition-colors"
-                                                    title={goal.completed ? "Mark as Incomplete" : "Mark as Complete"}
-                                                >
-                                                    {goal.completed ? <CheckCircle className="w-8 h-8 text-green-500" /> : <Circle className="w-8 h-8" />}
-                                                </button>
+                                                {ratingGoalId === goal.id ? (
+                                                    <div className="ml-4 flex flex-col items-end gap-1">
+                                                        <span className="text-[10px] uppercase font-bold text-gray-500">How well did you recall it?</span>
+                                                        <div className="flex gap-1">
+                                                            {([['easy', 'Easy', 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300'], ['ok', 'OK', 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300'], ['hard', 'Hard', 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300']] as [RecallRating, string, string][]).map(([rating, label, colors]) => (
+                                                                <button key={rating} onClick={() => toggleGoalCompletion(goal, rating)} className={`px-2 py-1 rounded text-xs font-bold ${colors}`}>
+                                                                    {label}
+                                                                </button>
+                                                            ))}
+                                                            <button onClick={() => setRatingGoalId(null)} className="px-2 py-1 rounded text-xs text-gray-400 hover:text-gray-600">Cancel</button>
+                                                        </div>
+                                                    </div>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => toggleGoalCompletion(goal)}
+                                                        className="ml-4 text-gray-400 hover:text-green-500 transition-colors"
+                                                        title={goal.completed ? "Mark as Incomplete" : "Mark as Complete"}
+                                                    >
+                                                        {goal.completed ? <CheckCircle className="w-8 h-8 text-green-500" /> : <Circle className="w-8 h-8" />}
+                                                    </button>
+                                                )}
                                             </div>
                                         </div>
                                     )
@@ -401,7 +382,7 @@ const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
 
                 {/* Right Column */}
                 <div className="space-y-6">
-                    {nextExam && (
+                    {nextExam ? (
                         <div className="bg-gradient-to-br from-gray-900 to-gray-800 dark:from-gray-800 dark:to-gray-700 rounded-xl p-5 text-white shadow-md relative overflow-hidden">
                             <div className="absolute top-0 right-0 p-4 opacity-10">
                                 <Hourglass className="w-24 h-24 text-white" />
@@ -413,60 +394,20 @@ const Dashboard: React.FC<Props> = ({ onGoalsChange }) => {
                                     <span className="text-4xl font-extrabold text-brand-400">{nextExam.days}</span>
                                     <span className="text-sm text-gray-300">days left</span>
                                 </div>
+                                <div className="text-xs text-gray-400 mt-1">{formatExamDate(nextExam.date)}</div>
                             </div>
                         </div>
+                    ) : (
+                        <div className="bg-white dark:bg-gray-800 rounded-xl p-5 border border-dashed border-gray-300 dark:border-gray-600 text-center">
+                            <Hourglass className="w-6 h-6 mx-auto text-gray-400 mb-2" />
+                            <p className="text-sm text-gray-500">No upcoming exams.</p>
+                            <p className="text-xs text-gray-400 mt-1">Add your timetable in Planner & Exams.</p>
+                        </div>
                     )}
 
                     <SessionTracker onSessionComplete={fetchDashboardData} activeGoals={goals} />
 
-                    {/* Confidence Input */}
-                    {(!confidence || isEditingConfidence) && (
-                        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 rounded-xl p-6 text-white shadow-lg">
-                            <h4 className="font-bold mb-2">{confidence ? "Edit Confidence" : "Daily Check-in"}</h4>
-                            <p className="text-indigo-100 text-sm mb-4">How confident do you feel? ({confidenceInput}%)</p>
-                            <div className="flex items-center gap-4">
-                                <input
-                                    type="range"
-                                    min="0"
-                                    max="100"
-                                    value={confidenceInput}
-                                    onChange={(e) => setConfidenceInput(Number(e.target.value))}
-                                    className="w-full h-2 bg-indigo-400 rounded-lg appearance-none cursor-pointer accent-white"
-                                />
-                                <button
-                                    onClick={() => handleConfidenceLog(confidenceInput)}
-                                    className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg text-sm font-medium shadow-sm transition-all active:scale-95"
-                                >
-                                    Save
-                                </button>
-                                {confidence && (
-                                    <button
-                                        onClick={() => setIsEditingConfidence(false)}
-                                        className="bg-white/20 text-white px-3 py-1 rounded-lg text-sm"
-                                    >
-                                        Cancel
-                                    </button>
-                                )}
-                            </div>
-                        </div>
-                    )}
-
-                    {confidence && !isEditingConfidence && (
-                        <div className="bg-white dark:bg-gray-800 rounded-xl p-6 border border-gray-200 dark:border-gray-700 shadow-sm">
-                            <div className="flex justify-between items-center">
-                                <div>
-                                    <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Today's Confidence</h4>
-                                    <div className="text-3xl font-bold text-indigo-600 dark:text-indigo-400">{confidence}%</div>
-                                </div>
-                                <button
-                                    onClick={() => setIsEditingConfidence(true)}
-                                    className="px-4 py-2 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 rounded-lg font-medium"
-                                >
-                                    Edit
-                                </button>
-                            </div>
-                        </div>
-                    )}
+                    <ConfidenceCheckIn />
 
                     {/* Motivation Widget */}
                     <div className="bg-white dark:bg-gray-800 rounded-xl p-6 border border-gray-200 dark:border-gray-700 shadow-sm">
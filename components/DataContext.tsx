@@ -0,0 +1,128 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { api } from '../services/api';
+import { Chapter, ConfidenceEntry, DailyGoal, Exam, Progress, RolloverSettings, StudySession, UnlockedAchievement } from '../types.ts';
+import { AuthUser } from '../services/storage/backend';
+import { DEFAULT_DAY_START_HOUR, setDayStartHour, studyToday } from '../services/dates';
+import { StreakState } from '../services/streaks';
+import { DEFAULT_ROLLOVER_SETTINGS } from '../services/rollover';
+
+// Signed-in user plus live copies of today's goals, today's sessions, the
+// confidence log, achievements, syllabus chapters and exams, and the current
+// streak. Every screen reads the same subscriptions, so a change made anywhere
+// (another tab, another device) shows up everywhere at once.
+
+interface DataContextValue {
+  user: AuthUser | null;
+  ready: boolean; // Migrations have run and settings are loaded
+  today: string;
+  goals: DailyGoal[];
+  todaysSessions: StudySession[];
+  confidence: ConfidenceEntry[]; // Per-subject ratings, newest first
+  achievements: UnlockedAchievement[];
+  chapters: Chapter[]; // By subject, then syllabus order
+  exams: Exam[]; // Soonest first
+  progress: Progress | null; // XP and level
+  streak: StreakState | null;
+  rollover: RolloverSettings; // Decides which past goals are in `goals`
+  changeDayStart: (hour: number) => void;
+  changeRollover: (settings: RolloverSettings) => void;
+  refreshStreak: () => void; // After the streak settings change
+}
+
+const DataContext = createContext<DataContextValue>({
+  user: null,
+  ready: false,
+  today: studyToday(),
+  goals: [],
+  todaysSessions: [],
+  confidence: [],
+  achievements: [],
+  chapters: [],
+  exams: [],
+  progress: null,
+  streak: null,
+  rollover: DEFAULT_ROLLOVER_SETTINGS,
+  changeDayStart: () => { },
+  changeRollover: () => { },
+  refreshStreak: () => { }
+});
+
+export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [ready, setReady] = useState(false);
+  const [today, setToday] = useState(studyToday());
+  const [goals, setGoals] = useState<DailyGoal[]>([]);
+  const [todaysSessions, setTodaysSessions] = useState<StudySession[]>([]);
+  const [confidence, setConfidence] = useState<ConfidenceEntry[]>([]);
+  const [achievements, setAchievements] = useState<UnlockedAchievement[]>([]);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [streak, setStreak] = useState<StreakState | null>(null);
+  const [rollover, setRollover] = useState<RolloverSettings>(DEFAULT_ROLLOVER_SETTINGS);
+
+  useEffect(() => {
+    const unsub = api.onAuthStateChanged((u) => setUser(u));
+    return () => unsub();
+  }, []);
+
+  // Bring the user's data up to date before anything subscribes to it
+  useEffect(() => {
+    setReady(false);
+    if (!user) return;
+    let cancelled = false;
+    api.runMigrations(user.uid)
+      .then(() => api.getSettings(user.uid))
+      .then((settings) => {
+        setDayStartHour(settings.dayStartHour ?? DEFAULT_DAY_START_HOUR);
+        setToday(studyToday());
+        setRollover({ ...DEFAULT_ROLLOVER_SETTINGS, ...settings.rollover });
+      })
+      .catch((e) => console.error("Data migration failed", e))
+      .finally(() => { if (!cancelled) setReady(true); });
+    return () => { cancelled = true; };
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !ready) return;
+    const unsubs = [
+      api.subscribeGoals(user.uid, today, rollover, setGoals),
+      api.subscribeSessions(user.uid, today, setTodaysSessions),
+      api.subscribeConfidence(user.uid, setConfidence),
+      api.subscribeAchievements(user.uid, setAchievements),
+      api.subscribeProgress(user.uid, setProgress)
+    ];
+    return () => unsubs.forEach(unsub => unsub());
+  }, [user, ready, today, rollover]);
+
+  // Not tied to the day, so these stay subscribed when the day or rollover policy changes
+  useEffect(() => {
+    if (!user || !ready) return;
+    const unsubs = [
+      api.subscribeChapters(user.uid, setChapters),
+      api.subscribeExams(user.uid, setExams)
+    ];
+    return () => unsubs.forEach(unsub => unsub());
+  }, [user, ready]);
+
+  const refreshStreak = () => {
+    if (!user) setStreak(null);
+    else if (ready) api.getStreak(user.uid, today).then(setStreak);
+  };
+
+  // Progress is rewritten after every session or goal change, once the rollups are up to date
+  useEffect(refreshStreak, [user, ready, today, progress]);
+
+  const changeDayStart = (hour: number) => {
+    setDayStartHour(hour);
+    setToday(studyToday());
+  };
+
+  return (
+    <DataContext.Provider value={{ user, ready, today, goals, todaysSessions, confidence, achievements, chapters, exams, progress, streak, rollover, changeDayStart, changeRollover: setRollover, refreshStreak }}>
+      {children}
+    </DataContext.Provider>
+  );
+};
+
+export const useData = () => useContext(DataContext);
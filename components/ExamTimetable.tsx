@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { EXAM_PRESETS, SUBJECTS_LIST } from '../constants.ts';
+import { Exam } from '../types.ts';
+import { api } from '../services/api';
+import { useData } from './DataContext';
+import { daysUntil, formatExamDate, isPresetPast } from '../services/exams';
+import { Plus, Calendar, AlertTriangle, Trash2, Edit2, Download } from 'lucide-react';
+
+const EMPTY_FORM = { subject: '', date: '', startTime: '10:30', paperCode: '', maxMarks: 80, syllabusNotes: '' };
+
+const ExamTimetable: React.FC = () => {
+  const { user: currentUser, exams } = useData();
+
+  // Editor State
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingExamId, setEditingExamId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  // Preset State
+  const [presetId, setPresetId] = useState((EXAM_PRESETS.find(p => !isPresetPast(p)) || EXAM_PRESETS[0]).id);
+  const [importMessage, setImportMessage] = useState('');
+
+  const openAdd = () => {
+    setEditingExamId(null);
+    setForm(EMPTY_FORM);
+    setIsEditorOpen(true);
+  };
+
+  const openEdit = (exam: Exam) => {
+    setEditingExamId(exam.id!);
+    setForm({
+      subject: exam.subject,
+      date: exam.date,
+      startTime: exam.startTime,
+      paperCode: exam.paperCode,
+      maxMarks: exam.maxMarks,
+      syllabusNotes: exam.syllabusNotes
+    });
+    setIsEditorOpen(true);
+  };
+
+  const closeEditor = () => {
+    setIsEditorOpen(false);
+    setEditingExamId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+    if (editingExamId) {
+      await api.updateExam(currentUser.uid, editingExamId, form);
+    } else {
+      await api.addExam(currentUser.uid, form);
+    }
+    closeEditor();
+  };
+
+  const handleDelete = async (examId: string) => {
+    if (!currentUser || !confirm("Remove this exam from your timetable?")) return;
+    await api.deleteExam(currentUser.uid, examId);
+  };
+
+  const handleImport = async () => {
+    if (!currentUser) return;
+    if (selectedPreset && isPresetPast(selectedPreset) && !confirm("Every paper in this timetable has already happened. Import it anyway?")) return;
+    const added = await api.importExamPreset(currentUser.uid, presetId);
+    setImportMessage(added > 0 ? `Imported ${added} paper${added === 1 ? '' : 's'}.` : 'Everything in this preset is already in your timetable.');
+  };
+
+  const selectedPreset = EXAM_PRESETS.find(p => p.id === presetId);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold flex items-center gap-2 dark:text-white">
+          <Calendar className="w-5 h-5 text-red-500" />
+          Exam Countdown
+        </h2>
+        {!isEditorOpen && (
+          <button onClick={openAdd} className="flex items-center gap-1 text-sm font-medium text-brand-600 hover:text-brand-700">
+            <Plus className="w-4 h-4" /> Add Paper
+          </button>
+        )}
+      </div>
+
+      {/* Add / Edit Exam */}
+      {isEditorOpen && (
+        <form onSubmit={handleSave} className="mb-6 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Subject</label>
+              <input
+                list="exam-subjects"
+                value={form.subject}
+                onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                required
+                className="w-full p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+              />
+              <datalist id="exam-subjects">
+                {SUBJECTS_LIST.map(s => <option key={s} value={s} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Paper Code</label>
+              <input
+                value={form.paperCode}
+                onChange={(e) => setForm({ ...form, paperCode: e.target.value })}
+                placeholder="e.g. 086"
+                className="w-full p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Date</label>
+              <input
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                required
+                className="w-full p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Starts</label>
+                <input
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                  required
+                  className="w-full p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Max Marks</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={form.maxMarks}
+                  onChange={(e) => setForm({ ...form, maxMarks: parseInt(e.target.value) || 0 })}
+                  required
+                  className="w-full p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+                />
+              </div>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Syllabus Notes</label>
+            <textarea
+              value={form.syllabusNotes}
+              onChange={(e) => setForm({ ...form, syllabusNotes: e.target.value })}
+              rows={2}
+              placeholder="Deleted chapters, internal choice, etc."
+              className="w-full p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={closeEditor} className="flex-1 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors text-sm">
+              Cancel
+            </button>
+            <button type="submit" className="flex-1 py-2 bg-brand-600 hover:bg-brand-700 text-white font-bold rounded-lg transition-colors text-sm">
+              {editingExamId ? 'Update Paper' : 'Add Paper'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="space-y-3">
+        {exams.length === 0 && (
+          <p className="text-sm text-gray-400 italic">No exams yet. Add your papers or import a preset below.</p>
+        )}
+        {exams.map((exam) => {
+          const daysLeft = daysUntil(exam.date);
+          const isUrgent = daysLeft < 7 && daysLeft >= 0;
+          const isPassed = daysLeft < 0;
+
+          return (
+            <div
+              key={exam.id}
+              className={`group flex justify-between items-center p-4 rounded-lg border ${isUrgent ? 'bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800' : 'bg-gray-50 border-gray-100 dark:bg-gray-700/50 dark:border-gray-700'
+                } ${isPassed ? 'opacity-50 grayscale' : ''}`}
+            >
+              <div>
+                <h4 className="font-bold text-gray-900 dark:text-white">
+                  {exam.subject}
+                  {exam.paperCode && <span className="ml-2 text-[10px] font-bold px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-600 text-gray-500 dark:text-gray-300">{exam.paperCode}</span>}
+                </h4>
+                <p className="text-xs text-gray-500">{formatExamDate(exam.date)} • {exam.startTime} • {exam.maxMarks} marks</p>
+                {exam.syllabusNotes && <p className="text-xs text-gray-400 mt-1 italic">{exam.syllabusNotes}</p>}
+              </div>
+
+              <div className="flex items-center gap-3">
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => openEdit(exam)} className="p-1.5 text-blue-500 hover:bg-blue-50 rounded"><Edit2 className="w-4 h-4" /></button>
+                  <button onClick={() => handleDelete(exam.id!)} className="p-1.5 text-red-500 hover:bg-red-50 rounded"><Trash2 className="w-4 h-4" /></button>
+                </div>
+                <div className="text-right">
+                  {isPassed ? (
+                    <span className="text-sm font-medium text-gray-400">Done ✅</span>
+                  ) : (
+                    <>
+                      <div className={`text-xl font-black ${isUrgent ? 'text-red-600' : 'text-brand-600'}`}>
+                        {daysLeft}
+                      </div>
+                      <div className="text-[10px] uppercase text-gray-400 font-medium">Days Left</div>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Preset Import */}
+      <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-bold text-gray-500 uppercase mb-3">Import a Timetable</h3>
+        <div className="flex gap-2">
+          <select
+            value={presetId}
+            onChange={(e) => { setPresetId(e.target.value); setImportMessage(''); }}
+            className="flex-1 p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+          >
+            {EXAM_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}{isPresetPast(p) ? ' (past)' : ''}</option>)}
+          </select>
+          <button onClick={handleImport} className="px-3 py-2 bg-gray-900 dark:bg-white text-white dark:text-gray-900 rounded-lg text-sm font-medium flex items-center gap-1">
+            <Download className="w-4 h-4" /> Import
+          </button>
+        </div>
+        {selectedPreset && isPresetPast(selectedPreset) ? (
+          <p className="text-xs text-red-500 mt-2">Every paper in this timetable is in the past, so the countdown and study plan will have nothing to work with.</p>
+        ) : selectedPreset?.tentative && (
+          <p className="text-xs text-gray-400 mt-2">Dates in this preset are indicative. Check them against your board's official date sheet after importing.</p>
+        )}
+        {importMessage && <p className="text-xs text-green-600 dark:text-green-400 mt-2">{importMessage}</p>}
+      </div>
+
+      <div className="mt-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg flex gap-3">
+        <AlertTriangle className="w-5 h-5 text-yellow-600 shrink-0" />
+        <p className="text-xs text-yellow-800 dark:text-yellow-200 leading-relaxed">
+          <strong>Note:</strong> Prioritize subjects with fewer days remaining; the Auto Study Plan does this for you. Stick to the 80/20 rule: 20% of the syllabus often carries 80% of the marks.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ExamTimetable;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { DailyGoal, Mistake, MistakeType } from '../types.ts';
+import { SUBJECTS_LIST } from '../constants.ts';
+import { useData } from './DataContext';
+import { addDays, formatDate, studyDate } from '../services/dates';
+import { MISTAKE_TYPE_LABELS, MISTAKE_TYPE_STYLES, buildReattemptGoals, needsReattempt } from '../services/mistakes';
+import MistakeLogger from './MistakeLogger';
+import { AlertTriangle, CheckCircle, Circle, Trash2, RotateCcw, Plus } from 'lucide-react';
+
+type StatusFilter = 'open' | 'resolved' | 'all';
+
+const SOURCE_LABELS: Record<string, string> = {
+  session: 'Study session',
+  mockTest: 'Mock test'
+};
+
+// Review list for the error log, with a generator for re-attempt goals
+const MistakeLog: React.FC = () => {
+  const { user: currentUser, today, goals: todaysGoals, chapters } = useData();
+  const [mistakes, setMistakes] = useState<Mistake[]>([]);
+  const [goals, setGoals] = useState<DailyGoal[]>([]);
+  const [subjectFilter, setSubjectFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState<MistakeType | ''>('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [isAdding, setIsAdding] = useState(false);
+  const [reattemptDate, setReattemptDate] = useState(addDays(today, 1));
+  const [message, setMessage] = useState('');
+
+  const fetchData = async () => {
+    if (!currentUser) return;
+    const [mistakeList, goalList] = await Promise.all([
+      api.getMistakes(currentUser.uid),
+      api.getAllGoals(currentUser.uid)
+    ]);
+    setMistakes(mistakeList);
+    setGoals(goalList);
+  };
+
+  // Ticking off a re-attempt goal on the dashboard frees its mistakes for the next round
+  useEffect(() => {
+    fetchData();
+  }, [currentUser, todaysGoals]);
+
+  const visible = mistakes.filter(m =>
+    (!subjectFilter || m.subject === subjectFilter) &&
+    (!typeFilter || m.type === typeFilter) &&
+    (statusFilter === 'all' || m.resolved === (statusFilter === 'resolved'))
+  );
+  // The generator follows the subject and type filters, but never includes resolved mistakes
+  const toReattempt = needsReattempt(visible, goals);
+  const chapterName = (id: string | null) => (id ? chapters.find(c => c.id === id)?.name : null);
+
+  const toggleResolved = async (mistake: Mistake) => {
+    if (!currentUser) return;
+    await api.setMistakeResolved(currentUser.uid, mistake.id!, !mistake.resolved);
+    fetchData();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!currentUser || !confirm("Delete this mistake from your log?")) return;
+    await api.deleteMistake(currentUser.uid, id);
+    fetchData();
+  };
+
+  const handleReattempt = async () => {
+    if (!currentUser || toReattempt.length === 0) return;
+    const planned = buildReattemptGoals(toReattempt, chapters, reattemptDate);
+    await api.scheduleReattempts(currentUser.uid, planned);
+    setMessage(`Added ${planned.length} re-attempt goal${planned.length === 1 ? '' : 's'} for ${formatDate(reattemptDate, { weekday: 'short', day: 'numeric', month: 'short' }, 'en-GB')} ✅`);
+    fetchData();
+  };
+
+  const selectClass = "p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold flex items-center gap-2 dark:text-white">
+          <AlertTriangle className="w-6 h-6 text-orange-500" />
+          Mistake Log
+        </h2>
+        <button onClick={() => setIsAdding(!isAdding)} className="flex items-center gap-2 px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white font-bold rounded-lg transition-colors text-sm">
+          <Plus className="w-4 h-4" /> Log mistake
+        </button>
+      </div>
+
+      {isAdding && <MistakeLogger onLogged={fetchData} onClose={() => setIsAdding(false)} />}
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-4 flex flex-wrap items-center gap-2">
+        <select value={subjectFilter} onChange={(e) => setSubjectFilter(e.target.value)} className={selectClass}>
+          <option value="">All subjects</option>
+          {SUBJECTS_LIST.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as MistakeType | '')} className={selectClass}>
+          <option value="">All types</option>
+          {(Object.keys(MISTAKE_TYPE_LABELS) as MistakeType[]).map(t => <option key={t} value={t}>{MISTAKE_TYPE_LABELS[t]}</option>)}
+        </select>
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as StatusFilter)} className={selectClass}>
+          <option value="open">Unresolved</option>
+          <option value="resolved">Resolved</option>
+          <option value="all">All</option>
+        </select>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <input type="date" value={reattemptDate} min={today} onChange={(e) => setReattemptDate(e.target.value)} className={selectClass} />
+          <button
+            onClick={handleReattempt}
+            disabled={toReattempt.length === 0}
+            className="flex items-center gap-1 px-3 py-2 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 text-white font-bold rounded-lg transition-colors text-sm"
+            title="Adds goals to re-attempt the unresolved mistakes shown"
+          >
+            <RotateCcw className="w-4 h-4" /> Re-attempt {toReattempt.length} unresolved
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-gray-600 dark:text-gray-300">{message}</p>}
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+        {visible.length === 0 ? (
+          <p className="p-6 text-sm text-gray-400 italic">
+            {mistakes.length === 0 ? 'No mistakes logged yet. Add them after a session or a mock test.' : 'Nothing matches these filters.'}
+          </p>
+        ) : (
+          visible.map(m => (
+            <div key={m.id} className={`p-4 flex items-start gap-3 ${m.resolved ? 'opacity-60' : ''}`}>
+              <button onClick={() => toggleResolved(m)} className="mt-0.5" title={m.resolved ? 'Mark unresolved' : 'Mark resolved'}>
+                {m.resolved ? <CheckCircle className="w-5 h-5 text-green-500" /> : <Circle className="w-5 h-5 text-gray-300" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                <div className={`text-sm dark:text-white ${m.resolved ? 'line-through' : ''}`}>{m.description}</div>
+                <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  <span className={`px-1.5 py-0.5 rounded font-medium ${MISTAKE_TYPE_STYLES[m.type]}`}>{MISTAKE_TYPE_LABELS[m.type]}</span>
+                  <span>{m.subject}{chapterName(m.chapterId) ? ` • ${chapterName(m.chapterId)}` : ''}{m.topic ? ` • ${m.topic}` : ''}</span>
+                  {m.sourceType && <span>• {SOURCE_LABELS[m.sourceType]}</span>}
+                  <span>• {formatDate(studyDate(m.createdAt), { day: 'numeric', month: 'short' }, 'en-GB')}</span>
+                  {!m.resolved && m.reattemptGoalId && goals.some(g => g.id === m.reattemptGoalId && !g.completed) && (
+                    <span className="px-1.5 py-0.5 rounded bg-brand-50 text-brand-700 dark:bg-brand-900/20 dark:text-brand-300">Re-attempt planned</span>
+                  )}
+                </div>
+              </div>
+              <button onClick={() => handleDelete(m.id!)} className="p-1.5 text-gray-400 hover:text-red-500 rounded" title="Delete"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MistakeLog;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { Mistake, MistakeType, Subject } from '../types.ts';
+import { SUBJECTS_LIST } from '../constants.ts';
+import { useData } from './DataContext';
+import { MISTAKE_TYPE_LABELS } from '../services/mistakes';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface Props {
+  subject?: Subject;
+  chapterId?: string | null;
+  topic?: string;
+  sourceType?: Mistake['sourceType'];
+  sourceId?: string | null;
+  description?: string;
+  onLogged?: () => void;
+  onClose?: () => void;
+}
+
+// Compact form for adding an error-log entry, pre-filled from where the mistake was spotted
+const MistakeLogger: React.FC<Props> = (props) => {
+  const { user: currentUser, chapters } = useData();
+  const [subject, setSubject] = useState<Subject>(props.subject || SUBJECTS_LIST[0]);
+  const [chapterId, setChapterId] = useState(props.chapterId || '');
+  const [type, setType] = useState<MistakeType>('calculation');
+  const [description, setDescription] = useState(props.description || '');
+  const [count, setCount] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !description.trim()) return;
+    setIsSaving(true);
+    try {
+      await api.addMistake(currentUser.uid, {
+        subject,
+        chapterId: chapterId || null,
+        topic: props.topic || '',
+        type,
+        description: description.trim(),
+        sourceType: props.sourceType || null,
+        sourceId: props.sourceId || null
+      });
+      setDescription('');
+      setCount(count + 1);
+      props.onLogged?.();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full p-2 rounded bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 dark:text-white text-sm";
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 rounded-lg border border-orange-200 bg-orange-50 dark:bg-orange-900/20 dark:border-orange-800 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-orange-800 dark:text-orange-200 uppercase flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" /> Log a mistake {count > 0 && <span className="normal-case font-medium">({count} logged)</span>}
+        </span>
+        {props.onClose && (
+          <button type="button" onClick={props.onClose} className="text-orange-400 hover:text-orange-600"><X className="w-4 h-4" /></button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {!props.subject && (
+          <select value={subject} onChange={(e) => { setSubject(e.target.value as Subject); setChapterId(''); }} className={inputClass}>
+            {SUBJECTS_LIST.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        )}
+        <select value={chapterId} onChange={(e) => setChapterId(e.target.value)} className={inputClass}>
+          <option value="">No chapter</option>
+          {chapters.filter(c => c.subject === subject).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <select value={type} onChange={(e) => setType(e.target.value as MistakeType)} className={inputClass}>
+          {(Object.keys(MISTAKE_TYPE_LABELS) as MistakeType[]).map(t => <option key={t} value={t}>{MISTAKE_TYPE_LABELS[t]}</option>)}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="What went wrong?"
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !description.trim()}
+          className="px-3 py-1.5 rounded bg-orange-600 hover:bg-orange-700 disabled:opacity-50 text-white text-xs font-bold"
+        >
+          Add
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default MistakeLogger;
@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { Mistake, MockTest, MockTestSection, MockTestSource, Subject } from '../types.ts';
+import { SUBJECTS_LIST } from '../constants.ts';
+import { useData } from './DataContext';
+import { formatDate } from '../services/dates';
+import { SOURCE_LABELS, projectBoardPercentage, testPercent, validateMockTest } from '../services/mockTests';
+import MistakeLogger from './MistakeLogger';
+import { FileText, Plus, Trash2, Edit2, X, Award, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface TestForm {
+  subject: Subject;
+  sourceType: MockTestSource;
+  source: string;
+  date: string;
+  marksObtained: string;
+  maxMarks: string;
+  timeTakenMinutes: string;
+  sections: { name: string; marksObtained: string; maxMarks: string }[];
+  mistakes: string; // One per line
+}
+
+const emptyForm = (date: string): TestForm => ({
+  subject: SUBJECTS_LIST[0],
+  sourceType: 'sample',
+  source: '',
+  date,
+  marksObtained: '',
+  maxMarks: '80',
+  timeTakenMinutes: '',
+  sections: [],
+  mistakes: ''
+});
+
+const toForm = (test: MockTest): TestForm => ({
+  subject: test.subject,
+  sourceType: test.sourceType,
+  source: test.source,
+  date: test.date,
+  marksObtained: String(test.marksObtained),
+  maxMarks: String(test.maxMarks),
+  timeTakenMinutes: test.timeTakenMinutes !== null ? String(test.timeTakenMinutes) : '',
+  sections: test.sections.map(s => ({ name: s.name, marksObtained: String(s.marksObtained), maxMarks: String(s.maxMarks) })),
+  mistakes: test.mistakes.join('\n')
+});
+
+const percentColor = (pct: number) =>
+  pct >= 80 ? 'text-green-600 dark:text-green-400' : pct >= 60 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400';
+
+// Log of sample papers, previous year papers and mocks attempted under exam conditions
+const MockTests: React.FC = () => {
+  const { user: currentUser, today } = useData();
+  const [tests, setTests] = useState<MockTest[]>([]);
+  const [form, setForm] = useState<TestForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [loggedMistakes, setLoggedMistakes] = useState<Mistake[]>([]);
+  // Test and mistake being copied into the error log
+  const [logging, setLogging] = useState<{ test: MockTest; description: string } | null>(null);
+
+  const fetchTests = async () => {
+    if (!currentUser) return;
+    const [testList, mistakes] = await Promise.all([api.getMockTests(currentUser.uid), api.getMistakes(currentUser.uid)]);
+    setTests(testList);
+    setLoggedMistakes(mistakes.filter(m => m.sourceType === 'mockTest'));
+  };
+
+  const isLogged = (test: MockTest, description: string) =>
+    loggedMistakes.some(m => m.sourceId === test.id && m.description === description);
+
+  useEffect(() => {
+    fetchTests();
+  }, [currentUser]);
+
+  const projection = projectBoardPercentage(tests);
+
+  const openForm = (test?: MockTest) => {
+    setForm(test ? toForm(test) : emptyForm(today));
+    setEditingId(test?.id || null);
+    setError('');
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const updateSection = (index: number, field: 'name' | 'marksObtained' | 'maxMarks', value: string) => {
+    setForm({ ...form!, sections: form!.sections.map((s, i) => (i === index ? { ...s, [field]: value } : s)) });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !form) return;
+
+    const sections: MockTestSection[] = form.sections
+      .filter(s => s.name.trim() || s.marksObtained || s.maxMarks)
+      .map(s => ({ name: s.name.trim(), marksObtained: parseFloat(s.marksObtained) || 0, maxMarks: parseFloat(s.maxMarks) || 0 }));
+    const test: Partial<MockTest> = {
+      subject: form.subject,
+      sourceType: form.sourceType,
+      source: form.source.trim() || SOURCE_LABELS[form.sourceType],
+      date: form.date,
+      marksObtained: parseFloat(form.marksObtained),
+      maxMarks: parseFloat(form.maxMarks),
+      timeTakenMinutes: form.timeTakenMinutes ? parseInt(form.timeTakenMinutes) : null,
+      sections,
+      mistakes: form.mistakes.split('\n').map(m => m.trim()).filter(Boolean)
+    };
+
+    const problem = isNaN(test.marksObtained!) ? 'Enter the marks you scored.' : validateMockTest(test as MockTest);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingId) await api.updateMockTest(currentUser.uid, editingId, test);
+      else await api.addMockTest(currentUser.uid, test);
+      closeForm();
+      fetchTests();
+    } catch (err) {
+      console.error("Failed to save mock test", err);
+      setError('Could not save the test. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!currentUser || !confirm("Delete this test?")) return;
+    await api.deleteMockTest(currentUser.uid, id);
+    fetchTests();
+  };
+
+  const inputClass = "w-full p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold flex items-center gap-2 dark:text-white">
+          <FileText className="w-6 h-6 text-brand-600" />
+          Mock Tests
+        </h2>
+        {!form && (
+          <button onClick={() => openForm()} className="flex items-center gap-2 px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white font-bold rounded-lg transition-colors text-sm">
+            <Plus className="w-4 h-4" /> Add test
+          </button>
+        )}
+      </div>
+
+      {/* Projected board percentage */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-brand-50 dark:bg-brand-900/20 rounded-xl">
+            <Award className="w-6 h-6 text-brand-600" />
+          </div>
+          <div>
+            <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Projected board percentage</div>
+            <div className="text-3xl font-bold dark:text-white">{projection.overall !== null ? `${projection.overall}%` : '–'}</div>
+          </div>
+        </div>
+        {projection.overall !== null ? (
+          <>
+            <div className="flex flex-wrap gap-2 mt-4">
+              {Object.entries(projection.bySubject).map(([subject, pct]) => (
+                <span
+                  key={subject}
+                  className={`text-xs px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 ${projection.subjectsCounted.includes(subject) ? '' : 'opacity-50'}`}
+                >
+                  {subject} <span className="font-bold">{pct}%</span>
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-3">Best five subjects, weighting each subject's latest three tests most recent first.</p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-400 italic mt-3">Log a test to see where you're heading.</p>
+        )}
+      </div>
+
+      {form && (
+        <form onSubmit={handleSave} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold dark:text-white">{editingId ? 'Edit test' : 'New test'}</h3>
+            <button type="button" onClick={closeForm} className="p-1 text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Subject</label>
+              <select value={form.subject} onChange={(e) => setForm({ ...form, subject: e.target.value as Subject })} className={inputClass}>
+                {SUBJECTS_LIST.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Type</label>
+              <select value={form.sourceType} onChange={(e) => setForm({ ...form, sourceType: e.target.value as MockTestSource })} className={inputClass}>
+                {(Object.keys(SOURCE_LABELS) as MockTestSource[]).map(t => <option key={t} value={t}>{SOURCE_LABELS[t]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Date</label>
+              <input type="date" required value={form.date} max={today} onChange={(e) => setForm({ ...form, date: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Paper</label>
+            <input
+              type="text"
+              value={form.source}
+              onChange={(e) => setForm({ ...form, source: e.target.value })}
+              placeholder="e.g. CBSE Sample Paper 2025-26"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Marks scored</label>
+              <input type="number" min="0" step="0.5" required value={form.marksObtained} onChange={(e) => setForm({ ...form, marksObtained: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Out of</label>
+              <input type="number" min="1" step="0.5" required value={form.maxMarks} onChange={(e) => setForm({ ...form, maxMarks: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Time (min)</label>
+              <input type="number" min="1" value={form.timeTakenMinutes} onChange={(e) => setForm({ ...form, timeTakenMinutes: e.target.value })} placeholder="Optional" className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Sections (optional)</label>
+            <div className="space-y-2">
+              {form.sections.map((s, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input type="text" value={s.name} onChange={(e) => updateSection(i, 'name', e.target.value)} placeholder="Section A" className={`${inputClass} flex-1`} />
+                  <input type="number" min="0" step="0.5" value={s.marksObtained} onChange={(e) => updateSection(i, 'marksObtained', e.target.value)} placeholder="Scored" className={`${inputClass} !w-20`} />
+                  <span className="text-gray-400">/</span>
+                  <input type="number" min="1" step="0.5" value={s.maxMarks} onChange={(e) => updateSection(i, 'maxMarks', e.target.value)} placeholder="Max" className={`${inputClass} !w-20`} />
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, sections: form.sections.filter((_, j) => j !== i) })}
+                    className="p-1 text-red-500 hover:bg-red-50 rounded"
+                    title="Remove section"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setForm({ ...form, sections: [...form.sections, { name: '', marksObtained: '', maxMarks: '' }] })}
+              className="mt-2 text-sm text-brand-600 hover:underline"
+            >
+              + Add section
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Mistakes (one per line)</label>
+            <textarea
+              rows={3}
+              value={form.mistakes}
+              onChange={(e) => setForm({ ...form, mistakes: e.target.value })}
+              placeholder="Sign error in Q12 integration"
+              className={inputClass}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <button type="button" onClick={closeForm} className="flex-1 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors text-sm">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="flex-1 py-2 bg-brand-600 hover:bg-brand-700 disabled:opacity-50 text-white font-bold rounded-lg transition-colors text-sm">
+              {isSaving ? 'Saving...' : 'Save test'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+        {tests.length === 0 ? (
+          <p className="p-6 text-sm text-gray-400 italic">No tests logged yet. Attempt a sample paper under exam conditions and record it here.</p>
+        ) : (
+          tests.slice().reverse().map(test => {
+            const pct = testPercent(test);
+            return (
+              <div key={test.id} className="p-4 flex items-start gap-4">
+                <div className={`w-16 text-right text-xl font-bold ${percentColor(pct)}`}>{pct}%</div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium dark:text-white">{test.subject} • {test.source}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(test.date, { day: 'numeric', month: 'short', year: 'numeric' }, 'en-GB')} • {test.marksObtained}/{test.maxMarks}
+                    {test.timeTakenMinutes !== null && ` • ${test.timeTakenMinutes} min`}
+                  </div>
+                  {test.sections.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {test.sections.map((s, i) => (
+                        <span key={i} className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                          {s.name || `Section ${i + 1}`}: {s.marksObtained}/{s.maxMarks}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {test.mistakes.length > 0 && (
+                    <ul className="mt-2 text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                      {test.mistakes.map((m, i) => (
+                        <li key={i} className="flex items-center gap-2">
+                          <span>• {m}</span>
+                          {isLogged(test, m) ? (
+                            <span className="flex items-center gap-1 text-green-600 dark:text-green-400" title="In your mistake log"><CheckCircle className="w-3 h-3" /></span>
+                          ) : (
+                            <button
+                              onClick={() => setLogging({ test, description: m })}
+                              className="flex items-center gap-1 text-orange-600 hover:underline"
+                              title="Add to your mistake log"
+                            >
+                              <AlertTriangle className="w-3 h-3" /> Log
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {logging?.test.id === test.id && (
+                    <div className="mt-3">
+                      <MistakeLogger
+                        key={logging.description}
+                        subject={test.subject}
+                        sourceType="mockTest"
+                        sourceId={test.id}
+                        description={logging.description}
+                        onLogged={() => { setLogging(null); fetchTests(); }}
+                        onClose={() => setLogging(null)}
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <button onClick={() => openForm(test)} className="p-1.5 text-gray-400 hover:text-brand-600 rounded" title="Edit"><Edit2 className="w-4 h-4" /></button>
+                  <button onClick={() => handleDelete(test.id!)} className="p-1.5 text-gray-400 hover:text-red-500 rounded" title="Delete"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MockTests;
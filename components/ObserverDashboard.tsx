@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { ConfidenceEntry, DailyGoal, DailySummary, MockTest, ObservedStudent } from '../types.ts';
+import { useData } from './DataContext';
+import { addDays, formatDate } from '../services/dates';
+import { dailyScores } from '../services/confidence';
+import { projectBoardPercentage, testPercent } from '../services/mockTests';
+import { Eye, Clock, Target, Brain, Award, CheckCircle, Circle, RefreshCw, UserMinus } from 'lucide-react';
+
+const WEEK_DAYS = 7;
+
+interface StudentProgress {
+  summaries: DailySummary[];
+  goals: DailyGoal[];
+  confidence: ConfidenceEntry[];
+  mockTests: MockTest[];
+}
+
+// Read-only view for parents and tutors of the students who invited them
+const ObserverDashboard: React.FC = () => {
+  const { user: currentUser, today } = useData();
+  const [students, setStudents] = useState<ObservedStudent[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<StudentProgress | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [code, setCode] = useState('');
+  const [codeMessage, setCodeMessage] = useState<{ text: string, error: boolean } | null>(null);
+
+  const fetchStudents = async () => {
+    if (!currentUser) return;
+    const list = await api.getObservedStudents(currentUser.uid);
+    setStudents(list);
+    if (!list.some(s => s.id === selectedId)) setSelectedId(list[0]?.id || null);
+  };
+
+  useEffect(() => {
+    fetchStudents();
+  }, [currentUser]);
+
+  const loadProgress = async () => {
+    if (!selectedId) return;
+    setIsLoading(true);
+    setLoadFailed(false);
+    try {
+      setProgress(await api.getStudentProgress(selectedId, today));
+    } catch (e) {
+      console.warn("Could not load student progress", e);
+      setProgress(null);
+      setLoadFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setProgress(null);
+    loadProgress();
+  }, [selectedId, today]);
+
+  const handleRedeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !code.trim()) return;
+    try {
+      const studentName = await api.acceptInvite(currentUser, code);
+      setCodeMessage({ text: `You can now follow ${studentName}'s progress ✅`, error: false });
+      setCode('');
+      fetchStudents();
+    } catch (err: any) {
+      setCodeMessage({ text: err.message || 'Could not accept that code.', error: true });
+    }
+  };
+
+  const handleRemove = async (student: ObservedStudent) => {
+    if (!currentUser || !confirm(`Stop following ${student.studentName}?`)) return;
+    await api.stopObserving(currentUser.uid, student.id!);
+    setSelectedId(null);
+    fetchStudents();
+  };
+
+  const selected = students.find(s => s.id === selectedId);
+  const weekFrom = addDays(today, -(WEEK_DAYS - 1));
+  const week = progress ? progress.summaries.filter(s => s.date >= weekFrom) : [];
+  const weekHours = Math.round((week.reduce((sum, s) => sum + s.totalMinutes, 0) / 60) * 10) / 10;
+  const latestConfidence = progress ? dailyScores(progress.confidence)[0] : undefined;
+  const projection = progress ? projectBoardPercentage(progress.mockTests) : null;
+  const dailyHours = Array.from({ length: WEEK_DAYS }, (_, i) => {
+    const date = addDays(weekFrom, i);
+    const summary = progress?.summaries.find(s => s.date === date);
+    return { date, hours: summary ? summary.totalMinutes / 60 : 0 };
+  });
+  const maxHours = Math.max(1, ...dailyHours.map(d => d.hours));
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold flex items-center gap-2 dark:text-white">
+        <Eye className="w-6 h-6 text-brand-600" />
+        Students I Follow
+      </h2>
+
+      <form onSubmit={handleRedeem} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-4 flex flex-col md:flex-row md:items-center gap-2">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Have an invite code?</label>
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="ABCD2345"
+          className="flex-1 p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm font-mono uppercase tracking-widest"
+        />
+        <button type="submit" className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg text-sm font-medium">Follow</button>
+      </form>
+      {codeMessage && (
+        <p className={`text-sm font-semibold ${codeMessage.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{codeMessage.text}</p>
+      )}
+
+      {students.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">Ask a student to create an invite code under Settings → Share with a parent or tutor.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {students.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setSelectedId(s.id!)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium border ${s.id === selectedId
+                  ? 'bg-brand-600 text-white border-brand-600'
+                  : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-700'}`}
+              >
+                {s.studentName}
+              </button>
+            ))}
+          </div>
+
+          {selected && loadFailed && (
+            <div className="p-4 rounded-xl border border-amber-200 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-800 text-sm">
+              <p className="font-semibold text-amber-800 dark:text-amber-200">Can't see {selected.studentName}'s progress.</p>
+              <p className="text-amber-700 dark:text-amber-300 mt-1">If you've just joined, your access may still be syncing. Otherwise the student has revoked it.</p>
+              <div className="flex gap-2 mt-3">
+                <button onClick={loadProgress} className="flex items-center gap-1 px-3 py-1.5 rounded bg-amber-600 hover:bg-amber-700 text-white text-xs font-bold">
+                  <RefreshCw className="w-3 h-3" /> Try again
+                </button>
+                <button onClick={() => handleRemove(selected)} className="flex items-center gap-1 px-3 py-1.5 rounded border border-amber-300 text-amber-700 dark:text-amber-200 text-xs font-bold">
+                  <UserMinus className="w-3 h-3" /> Remove
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isLoading && !progress && <p className="text-sm text-gray-400">Loading...</p>}
+
+          {selected && progress && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+                  <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1"><Clock className="w-3 h-3" /> Last 7 days</div>
+                  <div className="text-2xl font-bold dark:text-white">{weekHours}h</div>
+                  <div className="text-xs text-gray-400">{week.filter(s => s.sessionCount > 0).length} study days</div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+                  <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1"><Target className="w-3 h-3" /> Today's goals</div>
+                  <div className="text-2xl font-bold dark:text-white">{progress.goals.filter(g => g.completed).length}/{progress.goals.length}</div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+                  <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1"><Brain className="w-3 h-3" /> Confidence</div>
+                  <div className="text-2xl font-bold dark:text-white">{latestConfidence ? `${latestConfidence.score}%` : '–'}</div>
+                  {latestConfidence && <div className="text-xs text-gray-400">{formatDate(latestConfidence.date, { day: 'numeric', month: 'short' }, 'en-GB')}</div>}
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+                  <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1"><Award className="w-3 h-3" /> Projected boards</div>
+                  <div className="text-2xl font-bold dark:text-white">{projection?.overall !== null && projection?.overall !== undefined ? `${projection.overall}%` : '–'}</div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+                  <h3 className="font-bold mb-4 dark:text-white">Study time this week</h3>
+                  <div className="flex items-end gap-2 h-32">
+                    {dailyHours.map(d => (
+                      <div key={d.date} className="flex-1 flex flex-col items-center gap-1">
+                        <div className="w-full bg-brand-500 rounded-t" style={{ height: `${(d.hours / maxHours) * 100}%` }} title={`${d.hours.toFixed(1)}h`} />
+                        <span className="text-[10px] text-gray-400">{formatDate(d.date, { weekday: 'short' })}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+                  <h3 className="font-bold mb-4 dark:text-white">Today's goals</h3>
+                  {progress.goals.length === 0 ? (
+                    <p className="text-sm text-gray-400 italic">No goals set for today.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {progress.goals.map(g => (
+                        <li key={g.id} className="flex items-center gap-2 text-sm dark:text-gray-200">
+                          {g.completed ? <CheckCircle className="w-4 h-4 text-green-500" /> : <Circle className="w-4 h-4 text-gray-300" />}
+                          <span className={g.completed ? 'line-through text-gray-400' : ''}>{g.title}</span>
+                          <span className="text-xs text-gray-400 ml-auto">{g.subject}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+                <h3 className="font-bold mb-4 dark:text-white">Recent mock tests</h3>
+                {progress.mockTests.length === 0 ? (
+                  <p className="text-sm text-gray-400 italic">No mock tests logged yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {progress.mockTests.slice(-5).reverse().map(t => (
+                      <li key={t.id} className="py-2 flex items-center gap-3 text-sm dark:text-gray-200">
+                        <span className="w-14 font-bold">{testPercent(t)}%</span>
+                        <span className="flex-1">{t.subject} • {t.source}</span>
+                        <span className="text-xs text-gray-400">{formatDate(t.date, { day: 'numeric', month: 'short' }, 'en-GB')}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <button onClick={() => handleRemove(selected)} className="text-sm text-gray-400 hover:text-red-500 flex items-center gap-1">
+                <UserMinus className="w-4 h-4" /> Stop following {selected.studentName}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ObserverDashboard;
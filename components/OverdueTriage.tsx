@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { DailyGoal } from '../types.ts';
+import { useData } from './DataContext';
+import { daysBetween, formatDate } from '../services/dates';
+import { describeRollover } from '../services/rollover';
+import { CalendarClock, CalendarArrowUp, Scissors, TrendingDown, Archive } from 'lucide-react';
+
+const SPLIT_OPTIONS = [2, 3, 4];
+const LOWER_OPTIONS = [0.75, 0.5, 0.25];
+
+const shortDate = (date: string) => formatDate(date, { day: 'numeric', month: 'short' }, 'en-GB');
+
+// Bulk clean-up for unfinished goals from earlier days, including ones that no longer roll over
+const OverdueTriage: React.FC = () => {
+  const { user: currentUser, today, goals: liveGoals, rollover } = useData();
+  const [overdue, setOverdue] = useState<DailyGoal[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [date, setDate] = useState(today);
+  const [parts, setParts] = useState(SPLIT_OPTIONS[0]);
+  const [fraction, setFraction] = useState(LOWER_OPTIONS[1]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string, error: boolean } | null>(null);
+
+  const fetchOverdue = async () => {
+    if (!currentUser) return;
+    const list = await api.getOverdueGoals(currentUser.uid, today);
+    setOverdue(list);
+    setSelected(prev => prev.filter(id => list.some(g => g.id === id)));
+  };
+
+  // Live goals change whenever a goal is edited, ticked or moved anywhere
+  useEffect(() => {
+    fetchOverdue();
+  }, [currentUser, today, liveGoals]);
+
+  useEffect(() => setDate(today), [today]);
+
+  const chosen = overdue.filter(g => selected.includes(g.id!));
+  const allSelected = overdue.length > 0 && selected.length === overdue.length;
+
+  const toggle = (goalId: string) =>
+    setSelected(prev => prev.includes(goalId) ? prev.filter(id => id !== goalId) : [...prev, goalId]);
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    if (!currentUser || chosen.length === 0) return;
+    setIsWorking(true);
+    try {
+      await action();
+      setSelected([]);
+      setMessage({ text: done, error: false });
+      await fetchOverdue();
+    } catch (err) {
+      console.error("Triage failed", err);
+      setMessage({ text: 'Something went wrong part-way. Check the list and try again.', error: true });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const count = `${chosen.length} goal${chosen.length === 1 ? '' : 's'}`;
+
+  const handleReschedule = () => {
+    if (date < today) {
+      setMessage({ text: 'Pick today or a later date.', error: true });
+      return;
+    }
+    run(() => api.rescheduleGoals(currentUser!.uid, chosen, date), `Moved ${count} to ${shortDate(date)} ✅`);
+  };
+
+  const handleSplit = () => {
+    if (date < today) {
+      setMessage({ text: 'Pick today or a later date.', error: true });
+      return;
+    }
+    run(() => api.splitGoals(currentUser!.uid, chosen, parts, date), `Split ${count} into ${parts} parts from ${shortDate(date)} ✅`);
+  };
+
+  const handleLower = () =>
+    run(() => api.lowerGoalTargets(currentUser!.uid, chosen, fraction), `Lowered the target of ${count} ✅`);
+
+  const handleAbandon = () => {
+    if (!confirm(`Abandon ${count}? They stay in your history but stop counting towards completion.`)) return;
+    run(() => api.abandonGoals(currentUser!.uid, chosen, today), `Abandoned ${count}`);
+  };
+
+  if (overdue.length === 0) return null;
+
+  const selectClass = "p-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm";
+  const actionClass = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold disabled:opacity-50";
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-red-200 dark:border-red-900/50 p-6">
+      <h2 className="text-xl font-bold mb-1 flex items-center gap-2 dark:text-white">
+        <CalendarClock className="w-5 h-5 text-red-500" />
+        Overdue Goals
+        <span className="text-xs font-normal bg-red-100 dark:bg-red-900/40 text-red-600 dark:text-red-300 px-2 py-0.5 rounded">{overdue.length}</span>
+      </h2>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">{describeRollover(rollover)}.</p>
+
+      <label className="flex items-center gap-2 text-xs font-bold uppercase text-gray-500 mb-2">
+        <input type="checkbox" checked={allSelected} onChange={() => setSelected(allSelected ? [] : overdue.map(g => g.id!))} className="w-4 h-4" />
+        Select all
+      </label>
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {overdue.map(g => (
+          <label key={g.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-sm cursor-pointer">
+            <input type="checkbox" checked={selected.includes(g.id!)} onChange={() => toggle(g.id!)} className="w-4 h-4" />
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold dark:text-white truncate">{g.title}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {g.subject} • {Math.floor(g.targetHours)}h {Math.round((g.targetHours % 1) * 60)}m • set for {shortDate(g.originalDate || g.date)}
+                {g.originalDate && g.originalDate !== g.date ? `, moved to ${shortDate(g.date)}` : ''}
+              </div>
+            </div>
+            <span className="text-xs font-bold text-red-500 whitespace-nowrap">{daysBetween(g.date, today)}d late</span>
+          </label>
+        ))}
+      </div>
+
+      <div className={`mt-4 space-y-3 ${chosen.length === 0 ? 'opacity-50 pointer-events-none' : ''}`}>
+        <div className="flex flex-wrap items-center gap-2 text-sm dark:text-gray-200">
+          <input type="date" value={date} min={today} onChange={(e) => setDate(e.target.value)} className={selectClass} />
+          <button onClick={handleReschedule} disabled={isWorking} className={`${actionClass} bg-brand-600 hover:bg-brand-700 text-white`}>
+            <CalendarArrowUp className="w-4 h-4" /> Reschedule
+          </button>
+          <select value={parts} onChange={(e) => setParts(parseInt(e.target.value))} className={selectClass}>
+            {SPLIT_OPTIONS.map(n => <option key={n} value={n}>{n} days</option>)}
+          </select>
+          <button onClick={handleSplit} disabled={isWorking} className={`${actionClass} bg-sky-600 hover:bg-sky-700 text-white`}>
+            <Scissors className="w-4 h-4" /> Split
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm dark:text-gray-200">
+          <select value={fraction} onChange={(e) => setFraction(parseFloat(e.target.value))} className={selectClass}>
+            {LOWER_OPTIONS.map(f => <option key={f} value={f}>{f * 100}% of target</option>)}
+          </select>
+          <button onClick={handleLower} disabled={isWorking} className={`${actionClass} bg-amber-500 hover:bg-amber-600 text-white`}>
+            <TrendingDown className="w-4 h-4" /> Lower target
+          </button>
+          <button onClick={handleAbandon} disabled={isWorking} className={`${actionClass} ml-auto border border-red-200 dark:border-red-800 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20`}>
+            <Archive className="w-4 h-4" /> Abandon
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">Reschedule and split use the date; a split spreads each goal's target over consecutive days.</p>
+      </div>
+      {message && (
+        <p className={`text-sm font-semibold mt-3 ${message.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default OverdueTriage;
@@ -1,79 +1,113 @@
 import React, { useState, useEffect } from 'react';
-import { EXAM_SCHEDULE, SUBJECTS_LIST } from '../constants.ts';
-import { Subject, Priority, DailyGoal } from '../types.ts';
+import { SUBJECTS_LIST } from '../constants.ts';
+import { Subject, Priority, DailyGoal, GoalSeries, RecurrenceFrequency, RecurrenceRule } from '../types.ts';
 import { api } from '../services/api';
-import { Plus, Calendar, AlertTriangle, Trash2, Edit2, X, Check } from 'lucide-react';
+import { describeRecurrence, nextOccurrence, WEEKDAY_NAMES } from '../services/recurrence';
+import { useData } from './DataContext';
+import { Plus, Trash2, Edit2, Repeat, SkipForward } from 'lucide-react';
+import ExamTimetable from './ExamTimetable';
+import SyllabusCoverage from './SyllabusCoverage';
+import StudyPlanGenerator from './StudyPlanGenerator';
+import OverdueTriage from './OverdueTriage';
+import { isOverdue } from '../services/rollover';
 
 interface Props {
-  onGoalsChange?: (stats: { total: number, completed: number }) => void;
+  onOpenSyllabus?: () => void;
 }
 
-const Planner: React.FC<Props> = ({ onGoalsChange }) => {
+const Planner: React.FC<Props> = ({ onOpenSyllabus }) => {
+  const { user: currentUser, today, goals, chapters } = useData();
+
   // Form State
   const [title, setTitle] = useState('');
   const [subject, setSubject] = useState<Subject>(Subject.Science);
+  const [chapterId, setChapterId] = useState('');
   // Split targetHours into two states
   const [hoursInput, setHoursInput] = useState(1);
   const [minutesInput, setMinutesInput] = useState(0);
   const [priority, setPriority] = useState<Priority>(Priority.Medium);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Recurrence State ('none' = one-off goal for today)
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | 'none'>('none');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [intervalDays, setIntervalDays] = useState(2);
+  const [endType, setEndType] = useState<'never' | 'date' | 'count'>('never');
+  const [endDate, setEndDate] = useState('');
+  const [occurrenceCount, setOccurrenceCount] = useState(10);
+
   // List State
-  const [goals, setGoals] = useState<DailyGoal[]>([]);
-  const [currentUser, setCurrentUser] = useState<any>(null);
+  const [series, setSeries] = useState<GoalSeries[]>([]);
 
   // Edit State
   const [editingGoalId, setEditingGoalId] = useState<string | null>(null);
+  const [editingSeries, setEditingSeries] = useState<GoalSeries | null>(null);
 
-  useEffect(() => {
-    const unsub = api.onAuthStateChanged((u) => setCurrentUser(u));
-    return () => unsub();
-  }, []);
-
+  // Goals themselves arrive through the live data context; this materializes any
+  // recurring goal due today and reloads the series list
   const fetchGoals = async () => {
     if (!currentUser) return;
-    const today = new Date().toISOString().split('T')[0];
-    const fetched = await api.getGoals(currentUser.uid, today);
-    setGoals(fetched);
-
-    // Notify Parent for Header Badge Update
-    const total = fetched.length;
-    const completed = fetched.filter(g => g.completed).length;
-    if (onGoalsChange) onGoalsChange({ total, completed });
+    await api.getGoals(currentUser.uid, today);
+    setSeries(await api.getGoalSeries(currentUser.uid));
   };
 
   useEffect(() => {
     fetchGoals();
   }, [currentUser]);
 
-  const calculateDaysLeft = (dateStr: string) => {
-    const [day, month, year] = dateStr.split('/').map(Number);
-    const examDate = new Date(year, month - 1, day);
-    const today = new Date();
-    const diffTime = examDate.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays;
+  const buildRecurrence = (startDate: string): RecurrenceRule => ({
+    frequency: repeat as RecurrenceFrequency,
+    startDate,
+    daysOfWeek: repeat === 'weekly' ? daysOfWeek : [],
+    interval: repeat === 'interval' ? intervalDays : 1,
+    endDate: endType === 'date' ? endDate : null,
+    count: endType === 'count' ? occurrenceCount : null
+  });
+
+  const resetForm = () => {
+    setTitle('');
+    setChapterId('');
+    setHoursInput(1);
+    setMinutesInput(0);
+    setRepeat('none');
+    setDaysOfWeek([]);
+    setEndType('never');
+    setEndDate('');
   };
 
   const handleAddGoal = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!currentUser) return;
+    if (repeat === 'weekly' && daysOfWeek.length === 0) {
+      alert("Pick at least one day of the week.");
+      return;
+    }
     setIsSubmitting(true);
 
     try {
-      const today = new Date().toISOString().split('T')[0];
-      await api.addGoal(currentUser.uid, {
-        userId: currentUser.uid,
-        date: today,
-        title,
-        subject,
-        targetHours: hoursInput + (minutesInput / 60),
-        priority,
-        completed: false
-      });
-      setTitle('');
-      setHoursInput(1);
-      setMinutesInput(0);
+      const targetHours = hoursInput + (minutesInput / 60);
+      if (repeat === 'none') {
+        await api.addGoal(currentUser.uid, {
+          userId: currentUser.uid,
+          date: today,
+          title,
+          subject,
+          chapterId: chapterId || null,
+          targetHours,
+          priority,
+          completed: false
+        });
+      } else {
+        await api.addGoalSeries(currentUser.uid, {
+          title,
+          subject,
+          chapterId: chapterId || null,
+          targetHours,
+          priority,
+          recurrence: buildRecurrence(today)
+        });
+      }
+      resetForm();
       fetchGoals();
     } catch (err) {
       console.error(err);
@@ -88,47 +122,101 @@ const Planner: React.FC<Props> = ({ onGoalsChange }) => {
     fetchGoals();
   };
 
+  const handleSkip = async (goal: DailyGoal) => {
+    if (!currentUser || !goal.seriesId) return;
+    await api.skipOccurrence(currentUser.uid, goal.seriesId, goal.date);
+    fetchGoals();
+  };
+
+  const handleSkipNext = async (s: GoalSeries) => {
+    const next = nextOccurrence(s.recurrence, today, s.skippedDates);
+    if (!currentUser || !next) return;
+    await api.skipOccurrence(currentUser.uid, s.id!, next);
+    fetchGoals();
+  };
+
+  const handleDeleteSeries = async (seriesId: string) => {
+    if (!currentUser || !confirm("Delete this recurring goal? Completed days stay in your history.")) return;
+    await api.deleteGoalSeries(currentUser.uid, seriesId);
+    fetchGoals();
+  };
+
+  const loadTarget = (targetHours: number) => {
+    const h = Math.floor(targetHours);
+    const m = Math.round((targetHours - h) * 60);
+    setHoursInput(h);
+    setMinutesInput(m);
+  };
+
   const startEdit = (goal: DailyGoal) => {
+    setEditingSeries(null);
     setEditingGoalId(goal.id!);
     setTitle(goal.title);
     setSubject(goal.subject);
+    setChapterId(goal.chapterId || '');
+    loadTarget(goal.targetHours);
+    setPriority(goal.priority);
+    setRepeat('none');
+  };
 
-    const totalHours = goal.targetHours;
-    const h = Math.floor(totalHours);
-    const m = Math.round((totalHours - h) * 60);
-    setHoursInput(h);
-    setMinutesInput(m);
+  const startEditSeries = (s: GoalSeries) => {
+    setEditingGoalId(null);
+    setEditingSeries(s);
+    setTitle(s.title);
+    setSubject(s.subject);
+    setChapterId(s.chapterId || '');
+    loadTarget(s.targetHours);
+    setPriority(s.priority);
 
-    setPriority(goal.priority);
+    const rule = s.recurrence;
+    setRepeat(rule.frequency);
+    setDaysOfWeek(rule.daysOfWeek || []);
+    setIntervalDays(rule.interval || 2);
+    setEndType(rule.endDate ? 'date' : rule.count ? 'count' : 'never');
+    setEndDate(rule.endDate || '');
+    setOccurrenceCount(rule.count || 10);
   };
 
   const cancelEdit = () => {
     setEditingGoalId(null);
-    setTitle('');
-    setHoursInput(1);
-    setMinutesInput(0);
+    setEditingSeries(null);
+    resetForm();
   };
 
   const handleUpdate = async () => {
-    if (!currentUser || !editingGoalId) return;
-    await api.updateGoal(currentUser.uid, editingGoalId, {
-      title, subject, targetHours: hoursInput + (minutesInput / 60), priority
-    });
+    if (!currentUser) return;
+    const targetHours = hoursInput + (minutesInput / 60);
+    if (editingSeries) {
+      await api.updateGoalSeries(currentUser.uid, editingSeries.id!, {
+        title, subject, chapterId: chapterId || null, targetHours, priority,
+        recurrence: buildRecurrence(editingSeries.recurrence.startDate)
+      });
+    } else if (editingGoalId) {
+      await api.updateGoal(currentUser.uid, editingGoalId, {
+        title, subject, chapterId: chapterId || null, targetHours, priority
+      });
+    }
     cancelEdit();
     fetchGoals();
   };
 
+  const toggleWeekday = (day: number) => {
+    setDaysOfWeek(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const isEditing = !!(editingGoalId || editingSeries);
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
 
       {/* Create / Edit Goal Form */}
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 h-fit">
         <h2 className="text-xl font-bold mb-6 flex items-center gap-2 dark:text-white">
-          {editingGoalId ? <Edit2 className="w-5 h-5 text-brand-600" /> : <Plus className="w-5 h-5 text-brand-600" />}
-          {editingGoalId ? 'Edit Goal' : 'Set Daily Goal'}
+          {isEditing ? <Edit2 className="w-5 h-5 text-brand-600" /> : <Plus className="w-5 h-5 text-brand-600" />}
+          {editingSeries ? 'Edit Recurring Goal' : editingGoalId ? 'Edit Goal' : 'Set Daily Goal'}
         </h2>
 
-        <form onSubmit={editingGoalId ? (e) => { e.preventDefault(); handleUpdate(); } : handleAddGoal} className="space-y-4">
+        <form onSubmit={isEditing ? (e) => { e.preventDefault(); handleUpdate(); } : handleAddGoal} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Goal Title</label>
             <input
@@ -146,7 +234,7 @@ const Planner: React.FC<Props> = ({ onGoalsChange }) => {
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Subject</label>
               <select
                 value={subject}
-                onChange={(e) => setSubject(e.target.value as Subject)}
+                onChange={(e) => { setSubject(e.target.value as Subject); setChapterId(''); }}
                 className="w-full p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white"
               >
                 {SUBJECTS_LIST.map(s => <option key={s} value={s}>{s}</option>)}
@@ -179,6 +267,20 @@ const Planner: React.FC<Props> = ({ onGoalsChange }) => {
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Chapter (optional)</label>
+            <select
+              value={chapterId}
+              onChange={(e) => setChapterId(e.target.value)}
+              className="w-full p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white"
+            >
+              <option value="">-- Not linked to a chapter --</option>
+              {chapters.filter(c => c.subject === subject).map(c => (
+                <option key={c.id} value={c.id}>{c.order}. {c.name} ({c.status})</option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Priority</label>
             <div className="flex gap-2">
@@ -197,8 +299,91 @@ const Planner: React.FC<Props> = ({ onGoalsChange }) => {
             </div>
           </div>
 
+          {/* Repeat (not offered when editing a single day) */}
+          {!editingGoalId && (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Repeat</label>
+                <select
+                  value={repeat}
+                  onChange={(e) => setRepeat(e.target.value as RecurrenceFrequency | 'none')}
+                  className="w-full p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white"
+                >
+                  {!editingSeries && <option value="none">Just today</option>}
+                  <option value="daily">Every day</option>
+                  <option value="weekdays">Every weekday (Mon–Fri)</option>
+                  <option value="weekly">Specific days of the week</option>
+                  <option value="interval">Every N days</option>
+                </select>
+              </div>
+
+              {repeat === 'weekly' && (
+                <div className="flex gap-1">
+                  {WEEKDAY_NAMES.map((name, day) => (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => toggleWeekday(day)}
+                      className={`flex-1 py-1.5 text-xs rounded-lg border ${daysOfWeek.includes(day)
+                        ? 'bg-brand-600 text-white border-brand-600'
+                        : 'bg-transparent text-gray-600 border-gray-300 dark:text-gray-400 dark:border-gray-600'}`}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {repeat === 'interval' && (
+                <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  Every
+                  <input
+                    type="number"
+                    min="2"
+                    value={intervalDays}
+                    onChange={(e) => setIntervalDays(Math.max(2, parseInt(e.target.value) || 2))}
+                    className="w-20 p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white"
+                  />
+                  days
+                </div>
+              )}
+
+              {repeat !== 'none' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={endType}
+                    onChange={(e) => setEndType(e.target.value as 'never' | 'date' | 'count')}
+                    className="w-full p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+                  >
+                    <option value="never">No end</option>
+                    <option value="date">Until date</option>
+                    <option value="count">After N times</option>
+                  </select>
+                  {endType === 'date' && (
+                    <input
+                      type="date"
+                      value={endDate}
+                      onChange={(e) => setEndDate(e.target.value)}
+                      required
+                      className="w-full p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+                    />
+                  )}
+                  {endType === 'count' && (
+                    <input
+                      type="number"
+                      min="1"
+                      value={occurrenceCount}
+                      onChange={(e) => setOccurrenceCount(Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-full p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex gap-2 mt-4">
-            {editingGoalId && (
+            {isEditing && (
               <button
                 type="button"
                 onClick={cancelEdit}
@@ -212,7 +397,7 @@ const Planner: React.FC<Props> = ({ onGoalsChange }) => {
               disabled={isSubmitting}
               className="flex-1 py-3 bg-brand-600 hover:bg-brand-700 text-white font-bold rounded-lg transition-colors"
             >
-              {isSubmitting ? 'Saving...' : editingGoalId ? 'Update Goal' : 'Lock Goal 🔒'}
+              {isSubmitting ? 'Saving...' : isEditing ? 'Update Goal' : 'Lock Goal 🔒'}
             </button>
           </div>
         </form>
@@ -225,12 +410,19 @@ const Planner: React.FC<Props> = ({ onGoalsChange }) => {
             {goals.filter(g => !g.completed).map(g => (
               <div key={g.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-100 dark:border-gray-600">
                 <div>
-                  <div className="font-semibold text-sm dark:text-white">{g.title}</div>
+                  <div className="font-semibold text-sm dark:text-white flex items-center gap-1.5">
+                    {g.seriesId && <Repeat className="w-3.5 h-3.5 text-brand-500" />}
+                    {g.title}
+                  </div>
                   <div className="text-xs text-gray-500">
                     {g.subject} • {Math.floor(g.targetHours)}h {Math.round((g.targetHours % 1) * 60)}m
+                    {isOverdue(g, today) && <span className="ml-1 font-bold text-red-500">• Overdue since {g.originalDate || g.date}</span>}
                   </div>
                 </div>
                 <div className="flex gap-2">
+                  {g.seriesId && (
+                    <button onClick={() => handleSkip(g)} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded" title="Skip this day"><SkipForward className="w-4 h-4" /></button>
+                  )}
                   <button onClick={() => startEdit(g)} className="p-1.5 text-blue-500 hover:bg-blue-50 rounded"><Edit2 className="w-4 h-4" /></button>
                   <button onClick={() => handleDelete(g.id!)} className="p-1.5 text-red-500 hover:bg-red-50 rounded"><Trash2 className="w-4 h-4" /></button>
                 </div>
@@ -238,55 +430,48 @@ const Planner: React.FC<Props> = ({ onGoalsChange }) => {
             ))}
           </div>
         </div>
-      </div>
-
-      {/* Exam Schedule */}
-      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
-        <h2 className="text-xl font-bold mb-6 flex items-center gap-2 dark:text-white">
-          <Calendar className="w-5 h-5 text-red-500" />
-          Exam Countdown
-        </h2>
-
-        <div className="space-y-3">
-          {EXAM_SCHEDULE.map((exam, idx) => {
-            const daysLeft = calculateDaysLeft(exam.date);
-            const isUrgent = daysLeft < 7 && daysLeft >= 0;
-            const isPassed = daysLeft < 0;
-
-            return (
-              <div
-                key={idx}
-                className={`flex justify-between items-center p-4 rounded-lg border ${isUrgent ? 'bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800' : 'bg-gray-50 border-gray-100 dark:bg-gray-700/50 dark:border-gray-700'
-                  } ${isPassed ? 'opacity-50 grayscale' : ''}`}
-              >
-                <div>
-                  <h4 className="font-bold text-gray-900 dark:text-white">{exam.subject}</h4>
-                  <p className="text-xs text-gray-500">{exam.date}</p>
-                </div>
 
-                <div className="text-right">
-                  {isPassed ? (
-                    <span className="text-sm font-medium text-gray-400">Done ✅</span>
-                  ) : (
-                    <>
-                      <div className={`text-xl font-black ${isUrgent ? 'text-red-600' : 'text-brand-600'}`}>
-                        {daysLeft}
+        {/* Recurring Series */}
+        {series.length > 0 && (
+          <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-6">
+            <h3 className="text-sm font-bold text-gray-500 uppercase mb-4">Recurring Goals</h3>
+            <div className="space-y-3 max-h-60 overflow-y-auto">
+              {series.map(s => {
+                const next = nextOccurrence(s.recurrence, today, s.skippedDates);
+                return (
+                  <div key={s.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-100 dark:border-gray-600">
+                    <div>
+                      <div className="font-semibold text-sm dark:text-white flex items-center gap-1.5">
+                        <Repeat className="w-3.5 h-3.5 text-brand-500" /> {s.title}
                       </div>
-                      <div className="text-[10px] uppercase text-gray-400 font-medium">Days Left</div>
-                    </>
-                  )}
-                </div>
-              </div>
-            );
-          })}
-        </div>
+                      <div className="text-xs text-gray-500">
+                        {s.subject} • {describeRecurrence(s.recurrence)}
+                      </div>
+                      <div className="text-[10px] uppercase font-bold text-gray-400 mt-0.5">
+                        {next ? `Next: ${next}` : 'Ended'}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {next && (
+                        <button onClick={() => handleSkipNext(s)} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded" title="Skip next occurrence"><SkipForward className="w-4 h-4" /></button>
+                      )}
+                      <button onClick={() => startEditSeries(s)} className="p-1.5 text-blue-500 hover:bg-blue-50 rounded"><Edit2 className="w-4 h-4" /></button>
+                      <button onClick={() => handleDeleteSeries(s.id!)} className="p-1.5 text-red-500 hover:bg-red-50 rounded"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
 
-        <div className="mt-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg flex gap-3">
-          <AlertTriangle className="w-5 h-5 text-yellow-600 shrink-0" />
-          <p className="text-xs text-yellow-800 dark:text-yellow-200 leading-relaxed">
-            <strong>Note:</strong> Prioritize subjects with fewer days remaining. Stick to the 80/20 rule: 20% of the syllabus often carries 80% of the marks.
-          </p>
-        </div>
+      {/* Exam Schedule & Syllabus */}
+      <div className="space-y-8">
+        <OverdueTriage />
+        <StudyPlanGenerator />
+        <ExamTimetable />
+        <SyllabusCoverage onOpenSyllabus={onOpenSyllabus} />
       </div>
     </div>
   );
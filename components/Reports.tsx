@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { useData } from './DataContext';
+import { formatDate } from '../services/dates';
+import { ProgressReport, ReportPeriod, ReportRange, reportRange, reportToHtml, shiftRange } from '../services/reports';
+import { downloadFile } from '../services/backup';
+import { ClipboardList, Printer, Download, ChevronLeft, ChevronRight } from 'lucide-react';
+
+const shortDate = (date: string) => formatDate(date, { day: 'numeric', month: 'short' }, 'en-GB');
+
+// Printable weekly or monthly summary; the app chrome is hidden when printing
+const Reports: React.FC = () => {
+  const { user: currentUser, today, streak } = useData();
+  const [range, setRange] = useState<ReportRange>(() => reportRange('week', today));
+  const [report, setReport] = useState<ProgressReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    let cancelled = false;
+    setIsLoading(true);
+    api.getReport(currentUser, range, today)
+      .then(r => { if (!cancelled) setReport(r); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+    // The streak changes whenever study is logged, so the report follows along
+  }, [currentUser, range, today, streak]);
+
+  const changePeriod = (period: ReportPeriod) => setRange(reportRange(period, range.start > today ? today : range.start));
+
+  const handleDownload = () => {
+    if (!report) return;
+    downloadFile(`preptracker-report-${range.start}.html`, reportToHtml(report), 'text/html');
+  };
+
+  const goalsDone = report ? report.goals.completed + report.goals.rolledOver : 0;
+  const maxHours = report ? Math.max(1, ...report.subjects.map(s => Math.max(s.hours, s.targetHours))) : 1;
+  const isCurrent = range.end >= today;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 print:hidden">
+        <h2 className="text-2xl font-bold flex items-center gap-2 dark:text-white">
+          <ClipboardList className="w-6 h-6 text-brand-600" />
+          Progress Reports
+        </h2>
+        <div className="flex items-center gap-2">
+          <button onClick={() => window.print()} disabled={!report} className="flex items-center gap-2 px-4 py-2 bg-brand-600 hover:bg-brand-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium">
+            <Printer className="w-4 h-4" /> Print / Save as PDF
+          </button>
+          <button onClick={handleDownload} disabled={!report} className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50">
+            <Download className="w-4 h-4" /> Download HTML
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 print:hidden">
+        <div className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          {(['week', 'month'] as ReportPeriod[]).map(p => (
+            <button
+              key={p}
+              onClick={() => changePeriod(p)}
+              className={`px-4 py-2 text-sm font-medium capitalize ${range.period === p ? 'bg-brand-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300'}`}
+            >
+              {p === 'week' ? 'Weekly' : 'Monthly'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setRange(shiftRange(range, -1))} className="p-2 text-gray-500 hover:text-brand-600" title="Previous"><ChevronLeft className="w-5 h-5" /></button>
+          <span className="text-sm font-semibold dark:text-white min-w-[160px] text-center">{range.label}</span>
+          <button onClick={() => setRange(shiftRange(range, 1))} disabled={isCurrent} className="p-2 text-gray-500 hover:text-brand-600 disabled:opacity-30" title="Next"><ChevronRight className="w-5 h-5" /></button>
+        </div>
+        {isLoading && <span className="text-sm text-gray-400">Loading...</span>}
+      </div>
+
+      {/* The report itself is always a light page, as it will look on paper */}
+      {report && (
+        <div className="bg-white text-gray-900 rounded-xl shadow-sm border border-gray-200 p-8 space-y-6 max-w-3xl print:max-w-none print:shadow-none print:border-0 print:p-0 print:rounded-none">
+          <div>
+            <h1 className="text-2xl font-bold">{report.studentName}'s {range.period === 'week' ? 'weekly' : 'monthly'} report</h1>
+            <p className="text-sm text-gray-500">{range.label} · generated {shortDate(report.generatedOn)}{isCurrent ? ' · period still in progress' : ''}</p>
+          </div>
+
+          <div className="grid grid-cols-4 gap-3">
+            <div className="border border-gray-200 rounded-lg p-3">
+              <div className="text-xs text-gray-500">Study time</div>
+              <div className="text-xl font-bold">{report.totalHours}h</div>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-3">
+              <div className="text-xs text-gray-500">Study days</div>
+              <div className="text-xl font-bold">{report.studyDays}/{report.daysElapsed}</div>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-3">
+              <div className="text-xs text-gray-500">Goals done</div>
+              <div className="text-xl font-bold">{goalsDone}/{report.goals.set}</div>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-3">
+              <div className="text-xs text-gray-500">Current streak</div>
+              <div className="text-xl font-bold">{report.streak.current} days</div>
+            </div>
+          </div>
+
+          <section className="break-inside-avoid">
+            <h3 className="font-bold border-b border-gray-200 pb-1 mb-3">Hours by subject</h3>
+            {report.subjects.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No study logged in this period.</p>
+            ) : (
+              <div className="space-y-2">
+                {report.subjects.map(s => (
+                  <div key={s.subject} className="flex items-center gap-3 text-sm">
+                    <span className="w-32 truncate">{s.subject}</span>
+                    <div className="flex-1 relative h-3 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${s.targetHours > 0 && s.hours < s.targetHours ? 'bg-amber-400' : 'bg-green-500'}`}
+                        style={{ width: `${(s.hours / maxHours) * 100}%`, printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}
+                      />
+                      {s.targetHours > 0 && <div className="absolute top-0 h-full w-0.5 bg-gray-700" style={{ left: `${(s.targetHours / maxHours) * 100}%` }} />}
+                    </div>
+                    <span className="w-28 text-right">{s.hours}h{s.targetHours > 0 ? ` / ${s.targetHours}h` : ''}</span>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-400">Targets are the hours set on the period's goals; the dark line marks the target.</p>
+              </div>
+            )}
+          </section>
+
+          <section className="break-inside-avoid">
+            <h3 className="font-bold border-b border-gray-200 pb-1 mb-3">Goals</h3>
+            {report.goals.set + report.goals.abandoned === 0 ? (
+              <p className="text-sm text-gray-400 italic">No goals set in this period.</p>
+            ) : (
+              <div className="grid grid-cols-5 gap-3 text-sm">
+                <div><div className="text-xl font-bold text-green-600">{report.goals.completed}</div>Completed on time</div>
+                <div><div className="text-xl font-bold text-sky-600">{report.goals.rolledOver}</div>Rolled over, done later</div>
+                <div><div className="text-xl font-bold text-red-600">{report.goals.missed}</div>Missed</div>
+                <div><div className="text-xl font-bold text-gray-500">{report.goals.open}</div>Still open</div>
+                <div><div className="text-xl font-bold text-gray-400">{report.goals.abandoned}</div>Abandoned</div>
+              </div>
+            )}
+          </section>
+
+          <section className="break-inside-avoid">
+            <h3 className="font-bold border-b border-gray-200 pb-1 mb-3">Confidence</h3>
+            {report.confidence.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No check-ins in this period.</p>
+            ) : (
+              <>
+                <div className="flex items-end gap-1 h-20">
+                  {report.confidence.map(c => (
+                    <div key={c.date} className="flex-1 flex flex-col items-center gap-1" title={`${c.score}%`}>
+                      <div className="w-full bg-amber-400 rounded-t" style={{ height: `${c.score}%`, printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }} />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-sm mt-2">
+                  {shortDate(report.confidence[0].date)}: {report.confidence[0].score}% → {shortDate(report.confidence[report.confidence.length - 1].date)}: {report.confidence[report.confidence.length - 1].score}%
+                  {report.confidenceChange !== null && (
+                    <span className={report.confidenceChange >= 0 ? 'text-green-600' : 'text-red-600'}> ({report.confidenceChange > 0 ? '+' : ''}{report.confidenceChange} points)</span>
+                  )}
+                </p>
+              </>
+            )}
+          </section>
+
+          <section className="break-inside-avoid">
+            <h3 className="font-bold border-b border-gray-200 pb-1 mb-3">Streak</h3>
+            <p className="text-sm">
+              {report.streak.qualifiedDays} qualifying day{report.streak.qualifiedDays === 1 ? '' : 's'} and {report.streak.missedDays} missed in this period.
+              The streak stood at {report.streak.atPeriodEnd} day{report.streak.atPeriodEnd === 1 ? '' : 's'} at its end; the longest so far is {report.streak.longest}.
+            </p>
+          </section>
+
+          <section className="break-inside-avoid">
+            <h3 className="font-bold border-b border-gray-200 pb-1 mb-3">Mock tests</h3>
+            {report.mockTests.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No mock tests in this period.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500"><th className="py-1">Date</th><th>Subject</th><th>Paper</th><th className="text-right">Score</th></tr>
+                </thead>
+                <tbody>
+                  {report.mockTests.map((t, i) => (
+                    <tr key={i} className="border-t border-gray-100">
+                      <td className="py-1">{shortDate(t.date)}</td><td>{t.subject}</td><td>{t.source}</td><td className="text-right font-bold">{t.percent}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {report.projectedPercent !== null && <p className="text-xs text-gray-500 mt-2">Projected board percentage: {report.projectedPercent}%</p>}
+          </section>
+
+          <section className="break-inside-avoid">
+            <h3 className="font-bold border-b border-gray-200 pb-1 mb-3">Exam countdown</h3>
+            {report.exams.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No upcoming exams.</p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                {report.exams.map(e => (
+                  <div key={`${e.subject}-${e.date}`} className="border border-gray-200 rounded-lg p-2">
+                    <div className="font-medium">{e.subject}</div>
+                    <div className="text-xs text-gray-500">{shortDate(e.date)} · {e.daysLeft === 0 ? 'today' : `${e.daysLeft} day${e.daysLeft === 1 ? '' : 's'} left`}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Reports;
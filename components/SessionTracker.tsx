@@ -1,7 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Subject, DailyGoal } from '../types.ts';
+import { Subject, DailyGoal, PomodoroPreset, ActiveSession } from '../types.ts';
 import { api } from '../services/api';
-import { Play, Square, Save, Clock, Target } from 'lucide-react';
+import {
+  DEFAULT_POMODORO, PHASE_LABELS, PomodoroPhase, nextPhase, phaseMinutes, playChime, notify, requestNotificationPermission
+} from '../services/pomodoro';
+import {
+  HEARTBEAT_MS, TAB_ID, loadActiveSession, saveActiveSession, touchActiveSession, clearActiveSession, forgetActiveSession,
+  isRunningInOtherTab, isSameSession, readSharedActiveSession, isPaused, activeElapsedMs, onActiveSessionChange, onSharedActiveSessionChange
+} from '../services/activeSession';
+import { findOverlap, formatClock } from '../services/sessions';
+import { addDays, studyDate, studyToday, timeOnStudyDay } from '../services/dates';
+import { useData } from './DataContext';
+import MistakeLogger from './MistakeLogger';
+import { Play, Pause, Square, Save, Clock, Target, SkipForward, Coffee, Brain, MonitorSmartphone } from 'lucide-react';
 
 interface Props {
   onSessionComplete: () => void;
@@ -9,8 +20,7 @@ interface Props {
 }
 
 const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) => {
-  const [activeTab, setActiveTab] = useState<'timer' | 'manual'>('timer');
-  const [isRunning, setIsRunning] = useState(false);
+  const [activeTab, setActiveTab] = useState<'timer' | 'pomodoro' | 'manual'>('timer');
   const [seconds, setSeconds] = useState(0);
 
   // Selection State
@@ -19,22 +29,91 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
   // Derived state from selected goal
   const [subject, setSubject] = useState<Subject | ''>('');
   const [topic, setTopic] = useState('');
+  const [chapterId, setChapterId] = useState<string | null>(null);
 
-  const [currentUser, setCurrentUser] = useState<any>(null);
+  const { user: currentUser } = useData();
   const [feedback, setFeedback] = useState<string>('');
 
+  // The running session (owned by this tab) and one found running somewhere else
+  const [session, setSession] = useState<ActiveSession | null>(null);
+  const [elsewhere, setElsewhere] = useState<ActiveSession | null>(null);
+
+  // Pomodoro State
+  const [preset, setPreset] = useState<PomodoroPreset>(DEFAULT_POMODORO);
+  const [pomodoroPhase, setPomodoroPhase] = useState<PomodoroPhase>('focus');
+  const [completedBlocks, setCompletedBlocks] = useState(0);
+  const [remainingSeconds, setRemainingSeconds] = useState(DEFAULT_POMODORO.focusMinutes * 60);
+  const [isFlashing, setIsFlashing] = useState(false);
+
+  // Manual log State: any goal can be logged against, including past and completed ones
+  const [allGoals, setAllGoals] = useState<DailyGoal[]>([]);
+  const [manualDate, setManualDate] = useState(studyToday());
+  const [manualStart, setManualStart] = useState('');
+  const [manualEnd, setManualEnd] = useState('');
+  const [manualDuration, setManualDuration] = useState('');
+  const [manualError, setManualError] = useState('');
+  // The session just finished, offered for logging mistakes against
+  const [endedSession, setEndedSession] = useState<{ id: string | null; subject: Subject; chapterId: string | null; topic: string } | null>(null);
+
   // Timer Ref
   const timerRef = useRef<number | null>(null);
-  const startTimeRef = useRef<Date | null>(null);
+  // Latest session, read from inside the interval callback
+  const sessionRef = useRef<ActiveSession | null>(null);
+  const lastBeatRef = useRef(0);
 
   useEffect(() => {
-    const unsub = api.onAuthStateChanged((u) => setCurrentUser(u));
     return () => {
-      unsub();
       if (timerRef.current) clearInterval(timerRef.current);
     };
   }, []);
 
+  // Load the user's saved Pomodoro preset, then pick up any session left running
+  useEffect(() => {
+    if (!currentUser) return;
+    api.getSettings(currentUser.uid).then(async settings => {
+      if (settings.pomodoro) {
+        setPreset(settings.pomodoro);
+        setRemainingSeconds(settings.pomodoro.focusMinutes * 60);
+      }
+      const { session: saved, local } = await loadActiveSession(currentUser.uid);
+      if (!saved) return;
+      // Reloads and closed tabs on this device resume silently; live tabs and other devices ask first
+      if (local && !isRunningInOtherTab(saved)) claim(saved);
+      else setElsewhere(saved);
+    });
+
+    // Another tab took over, updated or ended the session
+    return onActiveSessionChange(currentUser.uid, (changed) => {
+      if (changed && changed.tabId === TAB_ID) return;
+      if (sessionRef.current && changed) {
+        if (timerRef.current) clearInterval(timerRef.current);
+        sessionRef.current = null;
+        setSession(null);
+      }
+      setElsewhere(changed);
+    });
+  }, [currentUser]);
+
+  // Another device took over or ended the session while this page was open
+  const hasSession = !!session;
+  useEffect(() => {
+    if (!currentUser || !hasSession) return;
+    return onSharedActiveSessionChange(currentUser.uid, (shared) => {
+      const current = sessionRef.current;
+      if (current && !(shared && isSameSession(shared, current))) dropSuperseded(current, shared);
+    });
+  }, [currentUser, hasSession]);
+
+  useEffect(() => {
+    if (!currentUser || activeTab !== 'manual') return;
+    api.getAllGoals(currentUser.uid).then(goals => setAllGoals(goals.sort((a, b) => b.date.localeCompare(a.date))));
+  }, [currentUser, activeTab]);
+
+  const isRunning = session?.mode === 'stopwatch';
+  const isPomodoroRunning = session?.mode === 'pomodoro';
+  const paused = session ? isPaused(session) : false;
+  const isBusy = !!session || !!elsewhere;
+
   // Clear feedback after 3 seconds
   useEffect(() => {
     if (feedback) {
@@ -47,13 +126,15 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
     const gId = e.target.value;
     setSelectedGoalId(gId);
 
-    const goal = activeGoals.find(g => g.id === gId);
+    const goal = activeGoals.find(g => g.id === gId) || allGoals.find(g => g.id === gId);
     if (goal) {
       setSubject(goal.subject);
       setTopic(goal.title);
+      setChapterId(goal.chapterId || null);
     } else {
       setSubject('');
       setTopic('');
+      setChapterId(null);
     }
   };
 
@@ -64,68 +145,300 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
     return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
+  // Every change to the running session goes through here so a reload always finds the latest state
+  const persist = (next: ActiveSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+    if (!currentUser) return;
+    if (next) {
+      lastBeatRef.current = Date.now();
+      saveActiveSession(currentUser.uid, { ...next, heartbeatAt: Date.now() });
+    } else {
+      clearActiveSession(currentUser.uid);
+    }
+  };
+
+  const tick = () => {
+    const current = sessionRef.current;
+    if (!current) return;
+
+    if (currentUser && Date.now() - lastBeatRef.current >= HEARTBEAT_MS) {
+      lastBeatRef.current = Date.now();
+      touchActiveSession(currentUser.uid, current);
+    }
+
+    // Update UI using timestamp difference for accuracy (avoids interval drift)
+    if (current.mode === 'stopwatch') {
+      setSeconds(Math.floor(activeElapsedMs(current) / 1000));
+      return;
+    }
+    if (!current.pomodoro || isPaused(current)) return;
+    const left = Math.max(0, Math.round((current.pomodoro.phaseEndsAt - Date.now()) / 1000));
+    setRemainingSeconds(left);
+    if (left === 0) completePhase();
+  };
+
+  const startInterval = () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = window.setInterval(tick, 1000);
+    tick();
+  };
+
+  // Makes this tab the owner of `saved` and resumes it where it left off
+  const claim = (saved: ActiveSession) => {
+    const next = { ...saved, tabId: TAB_ID };
+    setElsewhere(null);
+    setSelectedGoalId(next.goalId);
+    setSubject(next.subject);
+    setTopic(next.topic);
+    setChapterId(next.chapterId);
+    setActiveTab(next.mode === 'pomodoro' ? 'pomodoro' : 'timer');
+    if (next.pomodoro) {
+      setPreset(next.pomodoro.preset);
+      setPomodoroPhase(next.pomodoro.phase);
+      setCompletedBlocks(next.pomodoro.blocks);
+    }
+    persist(next);
+    startInterval();
+  };
+
+  // The shared copy no longer matches, so the other device owns the session (and will log it):
+  // stop here without logging it or clearing the shared copy
+  const dropSuperseded = (current: ActiveSession, shared: ActiveSession | null) => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    sessionRef.current = null;
+    setSession(null);
+    setSeconds(0);
+    if (currentUser) forgetActiveSession(currentUser.uid, current);
+    setElsewhere(shared);
+    setFeedback(shared ? 'Taken over on another device, not logged here' : 'Ended on another device, not logged here');
+  };
+
+  // Checks the shared copy before a session is logged, in case the change hasn't arrived here yet.
+  // When it can't be read this device's copy wins, as it does on load.
+  const supersededElsewhere = async (current: ActiveSession) => {
+    if (!currentUser) return false;
+    const shared = await readSharedActiveSession(currentUser.uid);
+    if (shared === undefined || (shared && isSameSession(shared, current))) return false;
+    dropSuperseded(current, shared);
+    return true;
+  };
+
+  const discardElsewhere = () => {
+    if (!currentUser || !confirm('Discard this running session without logging it?')) return;
+    setElsewhere(null);
+    clearActiveSession(currentUser.uid);
+  };
+
+  const newSession = (mode: ActiveSession['mode']): ActiveSession => ({
+    mode,
+    goalId: selectedGoalId,
+    subject: subject as Subject,
+    topic,
+    chapterId,
+    startTime: Date.now(),
+    pauses: [],
+    tabId: TAB_ID,
+    heartbeatAt: Date.now()
+  });
+
   const startTimer = () => {
     if (!selectedGoalId) {
       alert("Please select a goal to work on first!");
       return;
     }
-    setIsRunning(true);
-    startTimeRef.current = new Date();
+    setSeconds(0);
+    persist(newSession('stopwatch'));
+    startInterval();
+  };
 
-    // Update UI using timestamp difference for accuracy (avoids interval drift)
-    timerRef.current = window.setInterval(() => {
-      if (startTimeRef.current) {
-        const now = new Date();
-        const elapsed = Math.floor((now.getTime() - startTimeRef.current.getTime()) / 1000);
-        setSeconds(elapsed);
-      }
-    }, 1000);
+  const togglePause = () => {
+    const current = sessionRef.current;
+    if (!current) return;
+    const now = Date.now();
+
+    if (!isPaused(current)) {
+      persist({ ...current, pauses: [...current.pauses, { start: now, end: null }] });
+      return;
+    }
+
+    const pauses = current.pauses.slice();
+    const open = pauses[pauses.length - 1];
+    pauses[pauses.length - 1] = { ...open, end: now };
+    // A paused Pomodoro phase keeps its remaining time
+    const pomodoro = current.pomodoro && { ...current.pomodoro, phaseEndsAt: current.pomodoro.phaseEndsAt + (now - open.start) };
+    persist({ ...current, pauses, ...(pomodoro ? { pomodoro } : {}) });
   };
 
   const stopTimer = async () => {
-    if (!currentUser || !startTimeRef.current) return;
+    const current = sessionRef.current;
+    if (!currentUser || !current) return;
+    if (await supersededElsewhere(current)) return;
 
     clearInterval(timerRef.current!);
-    setIsRunning(false);
+    persist(null);
 
     const endTime = new Date();
-    // Calculate precise duration in seconds based on timestamps
-    const elapsedSeconds = (endTime.getTime() - startTimeRef.current.getTime()) / 1000;
+    // Calculate precise duration in seconds, excluding pauses
+    const elapsedSeconds = activeElapsedMs(current, endTime.getTime()) / 1000;
 
     // Save if > 5 seconds to catch short tests and "automatic" feel
     if (elapsedSeconds >= 5) {
       // Calculate minutes as float for better accuracy on short sessions
       const duration = elapsedSeconds / 60;
-      await saveSession(startTimeRef.current, endTime, duration);
+      const id = await saveSession(new Date(current.startTime), endTime, duration, current);
+      if (id) setEndedSession({ id, subject: current.subject, chapterId: current.chapterId, topic: current.topic });
       setFeedback('Session Logged! ✅');
     } else {
       setFeedback('Too short (< 5s) ❌');
     }
 
     setSeconds(0);
-    startTimeRef.current = null;
     // Don't clear selection so they can continue if needed
   };
 
-  const saveSession = async (start: Date, end: Date, duration: number) => {
+  const beginPhase = (base: ActiveSession, phase: PomodoroPhase, blocks: number) => {
+    const phasePreset = base.pomodoro ? base.pomodoro.preset : preset;
+    const phaseStartedAt = Date.now();
+    const phaseEndsAt = phaseStartedAt + phaseMinutes(phase, phasePreset) * 60000;
+    persist({ ...base, pomodoro: { phase, phaseStartedAt, phaseEndsAt, blocks, preset: phasePreset } });
+    setPomodoroPhase(phase);
+    setCompletedBlocks(blocks);
+    setRemainingSeconds(Math.round((phaseEndsAt - phaseStartedAt) / 1000));
+  };
+
+  // Focus seconds actually spent in the current phase, so pauses don't count
+  const focusElapsedSeconds = (current: ActiveSession) => {
+    const p = current.pomodoro!;
+    const now = isPaused(current) ? current.pauses[current.pauses.length - 1].start : Date.now();
+    return phaseMinutes(p.phase, p.preset) * 60 - Math.max(0, p.phaseEndsAt - now) / 1000;
+  };
+
+  const cue = (title: string, body: string) => {
+    playChime();
+    notify(title, body);
+    setIsFlashing(true);
+    setTimeout(() => setIsFlashing(false), 3000);
+  };
+
+  const completePhase = async () => {
+    const current = sessionRef.current;
+    if (!current || !current.pomodoro) return;
+    const { phase, phaseStartedAt, phaseEndsAt, preset: phasePreset } = current.pomodoro;
+
+    // Move to the next phase before any await so the next tick can't complete this one twice
+    const blocks = phase === 'focus' ? current.pomodoro.blocks + 1 : current.pomodoro.blocks;
+    const upcoming = nextPhase(phase, blocks, phasePreset);
+    beginPhase(current, upcoming, blocks);
+    cue(
+      upcoming === 'focus' ? 'Back to focus 📚' : `${PHASE_LABELS[upcoming]} ☕`,
+      upcoming === 'focus' ? current.topic : `${phaseMinutes(upcoming, phasePreset)} minutes. You earned it.`
+    );
+
+    if (phase === 'focus') {
+      // Each finished focus block is logged as its own session
+      await saveSession(new Date(phaseStartedAt), new Date(phaseEndsAt), phasePreset.focusMinutes, current);
+      setFeedback(`Focus block ${blocks} logged! ✅`);
+    }
+  };
+
+  const startPomodoro = () => {
+    if (!selectedGoalId) {
+      alert("Please select a goal to work on first!");
+      return;
+    }
+    requestNotificationPermission();
+    beginPhase(newSession('pomodoro'), 'focus', 0);
+    startInterval();
+  };
+
+  const stopPomodoro = async () => {
+    const current = sessionRef.current;
+    if (current && await supersededElsewhere(current)) return;
+    clearInterval(timerRef.current!);
+    persist(null);
+
+    // A focus block cut short still counts, using the same 5s floor as the stopwatch
+    if (current && current.pomodoro && current.pomodoro.phase === 'focus') {
+      const elapsedSeconds = focusElapsedSeconds(current);
+      if (elapsedSeconds >= 5) {
+        const end = new Date();
+        await saveSession(new Date(end.getTime() - elapsedSeconds * 1000), end, elapsedSeconds / 60, current);
+        setFeedback('Partial focus block logged ✅');
+      }
+    }
+    // Mistakes from a Pomodoro run are filed against the goal's subject, not one block
+    if (current) setEndedSession({ id: null, subject: current.subject, chapterId: current.chapterId, topic: current.topic });
+
+    setPomodoroPhase('focus');
+    setCompletedBlocks(0);
+    setRemainingSeconds(preset.focusMinutes * 60);
+  };
+
+  // Skipping a focus block logs the time spent so far; skipping a break just ends it
+  const skipPhase = async () => {
+    const current = sessionRef.current;
+    if (!current || !current.pomodoro) return;
+    // Skipping also ends any pause
+    const base = isPaused(current) ? { ...current, pauses: current.pauses.map(p => p.end === null ? { ...p, end: Date.now() } : p) } : current;
+    if (current.pomodoro.phase !== 'focus') {
+      beginPhase(base, 'focus', current.pomodoro.blocks);
+      return;
+    }
+
+    const elapsedSeconds = focusElapsedSeconds(current);
+    const blocks = current.pomodoro.blocks + 1;
+    beginPhase(base, nextPhase('focus', blocks, current.pomodoro.preset), blocks);
+    if (elapsedSeconds >= 5) {
+      const end = new Date();
+      await saveSession(new Date(end.getTime() - elapsedSeconds * 1000), end, elapsedSeconds / 60, current);
+    }
+  };
+
+  const updatePreset = (updates: Partial<PomodoroPreset>) => {
+    const next = { ...preset, ...updates };
+    setPreset(next);
+    if (!isPomodoroRunning) setRemainingSeconds(next.focusMinutes * 60);
+  };
+
+  const savePreset = async () => {
+    if (!currentUser) return;
+    await api.saveSettings(currentUser.uid, { pomodoro: preset });
+    setFeedback('Preset saved ✅');
+  };
+
+  // Timed sessions take goal details from the running session, which outlives this render
+  const saveSession = async (start: Date, end: Date, duration: number, running?: ActiveSession, date?: string) => {
     try {
       if (!currentUser) return;
-      const today = new Date().toISOString().split('T')[0];
-      await api.addSession(currentUser.uid, {
+      const day = date || studyDate(start);
+      const id = await api.addSession(currentUser.uid, {
         userId: currentUser.uid,
-        subject: subject as Subject,
-        topic,
-        startTime: start,
-        endTime: end,
+        subject: running ? running.subject : subject as Subject,
+        topic: running ? running.topic : topic,
+        goalId: running ? running.goalId : selectedGoalId,
+        chapterId: running ? running.chapterId : chapterId,
+        startTime: start.getTime(),
+        endTime: end.getTime(),
         durationMinutes: duration,
-        date: today
+        date: day
       });
       onSessionComplete();
+      return id;
     } catch (error) {
       console.error("Error saving session", error);
     }
   };
 
+  // End time wins over duration when both are filled in
+  const manualRange = () => {
+    if (!manualStart) return null;
+    const start = timeOnStudyDay(manualDate, manualStart);
+    if (manualEnd) return { start, end: timeOnStudyDay(manualDate, manualEnd) };
+    const minutes = parseFloat(manualDuration);
+    return isNaN(minutes) ? null : { start, end: start + minutes * 60000 };
+  };
+
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!currentUser) return;
@@ -134,23 +447,40 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
       return;
     }
 
-    const form = e.target as HTMLFormElement;
-    const durationInput = parseFloat(form.duration.value);
-
-    if (isNaN(durationInput) || durationInput <= 0) {
-      alert("Please enter a valid duration.");
+    const range = manualRange();
+    if (!range) {
+      setManualError('Enter a start time and either an end time or a duration.');
+      return;
+    }
+    if (range.end <= range.start) {
+      setManualError('End time must be after the start time.');
+      return;
+    }
+    if (range.end > Date.now()) {
+      setManualError("You can't log time that hasn't happened yet.");
       return;
     }
 
-    // Create approximate start/end times based on now
-    const end = new Date();
-    const start = new Date(end.getTime() - durationInput * 60000);
+    // Times are compared, not dates: a session filed under a neighbouring study day can still run into this one
+    const existing = await api.querySessions(currentUser.uid, { from: addDays(manualDate, -1), to: addDays(manualDate, 1) });
+    const clash = findOverlap(existing, range.start, range.end);
+    if (clash) {
+      setManualError(`Overlaps "${clash.topic}" logged ${formatClock(clash.startTime)}–${formatClock(clash.endTime)}.`);
+      return;
+    }
 
-    await saveSession(start, end, durationInput);
+    setManualError('');
+    const id = await saveSession(new Date(range.start), new Date(range.end), (range.end - range.start) / 60000, undefined, manualDate);
+    if (id) setEndedSession({ id, subject: subject as Subject, chapterId, topic });
     setFeedback('Manual Log Saved! ✅');
-    form.reset();
+    setManualStart('');
+    setManualEnd('');
+    setManualDuration('');
   };
 
+  // All dots stay lit during the long break that completes a cycle
+  const filledCycleDots = pomodoroPhase === 'longBreak' ? preset.cyclesBeforeLongBreak : completedBlocks % preset.cyclesBeforeLongBreak;
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
       <h3 className="text-lg font-bold mb-4 flex items-center gap-2 dark:text-white">
@@ -162,12 +492,21 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
       <div className="flex gap-4 mb-6 border-b border-gray-200 dark:border-gray-700">
         <button
           onClick={() => setActiveTab('timer')}
+          disabled={isBusy}
           className={`pb-2 text-sm font-medium ${activeTab === 'timer' ? 'text-brand-600 border-b-2 border-brand-600' : 'text-gray-500'}`}
         >
           Stopwatch
         </button>
+        <button
+          onClick={() => setActiveTab('pomodoro')}
+          disabled={isBusy}
+          className={`pb-2 text-sm font-medium ${activeTab === 'pomodoro' ? 'text-brand-600 border-b-2 border-brand-600' : 'text-gray-500'}`}
+        >
+          Pomodoro
+        </button>
         <button
           onClick={() => setActiveTab('manual')}
+          disabled={isBusy}
           className={`pb-2 text-sm font-medium ${activeTab === 'manual' ? 'text-brand-600 border-b-2 border-brand-600' : 'text-gray-500'}`}
         >
           Manual Log
@@ -175,6 +514,28 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
       </div>
 
       <div className="space-y-4">
+        {elsewhere && (
+          <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-800 text-sm">
+            <div className="flex items-center gap-2 font-semibold text-amber-800 dark:text-amber-200">
+              <MonitorSmartphone className="w-4 h-4" />
+              {isRunningInOtherTab(elsewhere) ? 'This session is running in another tab' : 'You have a session running on another device'}
+            </div>
+            <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">
+              [{elsewhere.subject}] {elsewhere.topic} · {elsewhere.mode === 'pomodoro' ? 'Pomodoro' : 'Stopwatch'} started {new Date(elsewhere.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+            <div className="flex gap-2 mt-2">
+              <button onClick={() => claim(elsewhere)} className="px-3 py-1.5 rounded bg-amber-600 hover:bg-amber-700 text-white text-xs font-bold">
+                {isRunningInOtherTab(elsewhere) ? 'Take over here' : 'Resume here'}
+              </button>
+              {!isRunningInOtherTab(elsewhere) && (
+                <button onClick={discardElsewhere} className="px-3 py-1.5 rounded border border-amber-300 text-amber-700 dark:text-amber-200 text-xs font-bold">
+                  Discard
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         <div className="bg-brand-50 dark:bg-brand-900/20 p-3 rounded-lg border border-brand-100 dark:border-brand-800">
           <label className="block text-xs font-bold text-brand-800 dark:text-brand-300 uppercase mb-2 flex items-center gap-1">
             <Target className="w-3 h-3" /> Select Target Goal
@@ -182,15 +543,21 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
           <select
             value={selectedGoalId}
             onChange={handleGoalSelect}
-            disabled={isRunning}
+            disabled={isBusy}
             className="w-full p-2.5 rounded bg-white dark:bg-gray-700 border border-brand-200 dark:border-brand-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-500 text-sm"
           >
             <option value="">-- Choose a Goal --</option>
-            {activeGoals.filter(g => !g.completed).map(g => (
-              <option key={g.id} value={g.id}>
-                [{g.subject}] {g.title}
-              </option>
-            ))}
+            {activeTab === 'manual'
+              ? allGoals.map(g => (
+                <option key={g.id} value={g.id}>
+                  {g.date} · [{g.subject}] {g.title}{g.completed ? ' ✓' : ''}
+                </option>
+              ))
+              : activeGoals.filter(g => !g.completed).map(g => (
+                <option key={g.id} value={g.id}>
+                  [{g.subject}] {g.title}
+                </option>
+              ))}
             {activeGoals.length === 0 && <option disabled>No pending goals. Add one in Planner!</option>}
           </select>
           {selectedGoalId && (
@@ -200,7 +567,92 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
           )}
         </div>
 
-        {activeTab === 'timer' ? (
+        {activeTab === 'pomodoro' ? (
+          <div className="mt-6 flex flex-col items-center">
+            <div className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wider mb-2 ${pomodoroPhase === 'focus' ? 'text-brand-600' : 'text-green-600'}`}>
+              {pomodoroPhase === 'focus' ? <Brain className="w-4 h-4" /> : <Coffee className="w-4 h-4" />}
+              {PHASE_LABELS[pomodoroPhase]}
+            </div>
+            <div className={`text-5xl font-mono font-bold mb-3 rounded-xl px-4 transition-colors ${isFlashing ? 'bg-yellow-200 dark:bg-yellow-700 animate-pulse' : ''} ${isPomodoroRunning ? (pomodoroPhase === 'focus' ? 'text-brand-600' : 'text-green-600') : 'text-gray-400'}`}>
+              {formatTime(remainingSeconds)}
+            </div>
+
+            {/* Cycle progress towards the next long break */}
+            <div className="flex gap-1.5 mb-4">
+              {Array.from({ length: preset.cyclesBeforeLongBreak }).map((_, i) => (
+                <div
+                  key={i}
+                  className={`w-2.5 h-2.5 rounded-full ${i < filledCycleDots ? 'bg-brand-500' : 'bg-gray-200 dark:bg-gray-700'}`}
+                ></div>
+              ))}
+            </div>
+
+            {feedback && (
+              <div className="mb-4 text-sm font-semibold text-green-600 dark:text-green-400">
+                {feedback}
+              </div>
+            )}
+
+            {!isPomodoroRunning ? (
+              <>
+                <div className="grid grid-cols-2 gap-3 w-full mb-4">
+                  {([
+                    ['focusMinutes', 'Focus (min)'],
+                    ['shortBreakMinutes', 'Short Break (min)'],
+                    ['longBreakMinutes', 'Long Break (min)'],
+                    ['cyclesBeforeLongBreak', 'Long Break Every']
+                  ] as [keyof PomodoroPreset, string][]).map(([key, label]) => (
+                    <div key={key}>
+                      <label className="block text-xs font-medium text-gray-500 uppercase mb-1">{label}</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={preset[key]}
+                        onChange={(e) => updatePreset({ [key]: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className="w-full p-2 rounded bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 dark:text-white text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={startPomodoro}
+                  disabled={!selectedGoalId || !!elsewhere}
+                  className={`w-full py-3 text-white rounded-lg flex items-center justify-center gap-2 font-semibold transition-all shadow-lg ${!selectedGoalId ? 'opacity-70 cursor-not-allowed' : ''}`}
+                  style={{ background: 'linear-gradient(to right, #9333ea, #ec4899, #dc2626)' }}
+                >
+                  <Play className="w-5 h-5 fill-current" /> START POMODORO
+                </button>
+                <button onClick={savePreset} className="mt-2 text-xs text-brand-600 hover:underline">
+                  Save as my preset
+                </button>
+              </>
+            ) : (
+              <div className="flex gap-2 w-full">
+                <button
+                  onClick={togglePause}
+                  className="flex-1 py-3 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg flex items-center justify-center gap-2 font-semibold"
+                >
+                  {paused ? <><Play className="w-5 h-5" /> Resume</> : <><Pause className="w-5 h-5" /> Pause</>}
+                </button>
+                <button
+                  onClick={skipPhase}
+                  className="flex-1 py-3 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg flex items-center justify-center gap-2 font-semibold"
+                >
+                  <SkipForward className="w-5 h-5" /> Skip
+                </button>
+                <button
+                  onClick={stopPomodoro}
+                  className="flex-1 py-3 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center justify-center gap-2 font-semibold transition-colors"
+                >
+                  <Square className="w-5 h-5" /> Stop
+                </button>
+              </div>
+            )}
+            {isPomodoroRunning && (
+              <p className="text-xs text-gray-500 mt-2">{paused ? 'Paused · ' : ''}{completedBlocks} focus block{completedBlocks === 1 ? '' : 's'} done this run</p>
+            )}
+          </div>
+        ) : activeTab === 'timer' ? (
           <div className="mt-6 flex flex-col items-center">
             <div className={`text-5xl font-mono font-bold mb-6 ${isRunning ? 'text-brand-600' : 'text-gray-400'}`}>
               {formatTime(seconds)}
@@ -215,7 +667,7 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
             {!isRunning ? (
               <button
                 onClick={startTimer}
-                disabled={!selectedGoalId}
+                disabled={!selectedGoalId || !!elsewhere}
                 className={`w-full py-3 text-white rounded-lg flex items-center justify-center gap-2 font-semibold transition-all transform hover:scale-[1.02] active:scale-[0.98] shadow-lg ${!selectedGoalId ? 'opacity-70 cursor-not-allowed' : ''}`}
                 style={{
                   background: 'linear-gradient(to right, #9333ea, #ec4899, #dc2626)',
@@ -232,28 +684,76 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
                 <Play className="w-5 h-5 fill-current" /> START FOCUS SESSION
               </button>
             ) : (
-              <button
-                onClick={stopTimer}
-                className="w-full py-3 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center justify-center gap-2 font-semibold transition-colors"
-              >
-                <Square className="w-5 h-5" /> Stop Session
-              </button>
+              <div className="flex gap-2 w-full">
+                <button
+                  onClick={togglePause}
+                  className="flex-1 py-3 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg flex items-center justify-center gap-2 font-semibold"
+                >
+                  {paused ? <><Play className="w-5 h-5" /> Resume</> : <><Pause className="w-5 h-5" /> Pause</>}
+                </button>
+                <button
+                  onClick={stopTimer}
+                  className="flex-1 py-3 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center justify-center gap-2 font-semibold transition-colors"
+                >
+                  <Square className="w-5 h-5" /> Stop Session
+                </button>
+              </div>
             )}
-            {isRunning && <p className="text-xs text-gray-500 mt-2 animate-pulse">Stay focused. You got this!</p>}
+            {isRunning && (paused
+              ? <p className="text-xs text-gray-500 mt-2">Paused. Resume when you're back.</p>
+              : <p className="text-xs text-gray-500 mt-2 animate-pulse">Stay focused. You got this!</p>)}
           </div>
         ) : (
           <form onSubmit={handleManualSubmit} className="mt-4">
             <div className="mb-4">
-              <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Duration (Minutes)</label>
+              <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Date</label>
               <input
-                type="number"
-                name="duration"
-                min="0.1"
-                step="0.1"
+                type="date"
+                value={manualDate}
+                max={studyToday()}
+                onChange={(e) => setManualDate(e.target.value)}
                 required
                 className="w-full p-2 rounded bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 dark:text-white"
               />
             </div>
+            <div className="grid grid-cols-3 gap-3 mb-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 uppercase mb-1">Start</label>
+                <input
+                  type="time"
+                  value={manualStart}
+                  onChange={(e) => setManualStart(e.target.value)}
+                  required
+                  className="w-full p-2 rounded bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 uppercase mb-1">End</label>
+                <input
+                  type="time"
+                  value={manualEnd}
+                  onChange={(e) => setManualEnd(e.target.value)}
+                  className="w-full p-2 rounded bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 uppercase mb-1">or Minutes</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={manualDuration}
+                  onChange={(e) => setManualDuration(e.target.value)}
+                  disabled={!!manualEnd}
+                  className="w-full p-2 rounded bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 dark:text-white disabled:opacity-50"
+                />
+              </div>
+            </div>
+            {manualError && (
+              <div className="mb-4 text-sm font-semibold text-red-600 dark:text-red-400">
+                {manualError}
+              </div>
+            )}
             {feedback && (
               <div className="mb-4 text-sm font-semibold text-green-600 dark:text-green-400">
                 {feedback}
@@ -268,6 +768,18 @@ const SessionTracker: React.FC<Props> = ({ onSessionComplete, activeGoals }) =>
             </button>
           </form>
         )}
+
+        {endedSession && !session && (
+          <MistakeLogger
+            key={endedSession.id || endedSession.topic}
+            subject={endedSession.subject}
+            chapterId={endedSession.chapterId}
+            topic={endedSession.topic}
+            sourceType="session"
+            sourceId={endedSession.id}
+            onClose={() => setEndedSession(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,404 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { DEFAULT_DAY_START_HOUR, formatHour, getDayStartHour } from '../services/dates';
+import { useData } from './DataContext';
+import SharingSettings from './SharingSettings';
+import { SUBJECTS_LIST } from '../constants.ts';
+import { RevisionSettings, RolloverSettings, StreakSettings } from '../types.ts';
+import { DEFAULT_REVISION_SETTINGS, parseIntervals } from '../services/revision';
+import { DEFAULT_STREAK_SETTINGS, FREEZE_EVERY_DAYS, MAX_FREEZES } from '../services/streaks';
+import { DEFAULT_ROLLOVER_SETTINGS, describeRollover } from '../services/rollover';
+import { WEEKDAY_NAMES } from '../services/recurrence';
+import {
+  exportBackup, validateBackup, importBackup, countBackupDocs, exportSessionsCsv, exportExamsIcs, backupFileName, downloadFile
+} from '../services/backup';
+import { Settings as SettingsIcon, Moon, Download, Upload, FileJson, FileSpreadsheet, CalendarDays, Repeat, Flame, CalendarClock } from 'lucide-react';
+
+// Night owls can push the day boundary into the early morning
+const DAY_START_OPTIONS = [0, 1, 2, 3, 4, 5, 6];
+
+const Settings: React.FC = () => {
+  const { user: currentUser, today, changeDayStart, refreshStreak, rollover, changeRollover } = useData();
+  const [dayStart, setDayStart] = useState(getDayStartHour());
+  const [feedback, setFeedback] = useState('');
+  const [dataMessage, setDataMessage] = useState<{ text: string, error: boolean } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [revisionEnabled, setRevisionEnabled] = useState(false);
+  const [intervalsText, setIntervalsText] = useState('');
+  const [subjectIntervalsText, setSubjectIntervalsText] = useState<Record<string, string>>({});
+  const [revisionMessage, setRevisionMessage] = useState<{ text: string, error: boolean } | null>(null);
+  const [streakSettings, setStreakSettings] = useState<StreakSettings>(DEFAULT_STREAK_SETTINGS);
+  const [streakMessage, setStreakMessage] = useState<{ text: string, error: boolean } | null>(null);
+  const [rolloverSettings, setRolloverSettings] = useState<RolloverSettings>(rollover);
+  const [rolloverMessage, setRolloverMessage] = useState<{ text: string, error: boolean } | null>(null);
+
+  const loadRevision = (revision?: RevisionSettings) => {
+    const r = { ...DEFAULT_REVISION_SETTINGS, ...revision };
+    setRevisionEnabled(r.enabled);
+    setIntervalsText(r.intervals.join(', '));
+    setSubjectIntervalsText(Object.fromEntries(Object.entries(r.subjectIntervals || {}).map(([subject, days]) => [subject, (days || []).join(', ')])));
+  };
+
+  useEffect(() => {
+    if (!currentUser) return;
+    api.getSettings(currentUser.uid).then(settings => {
+      setDayStart(settings.dayStartHour ?? DEFAULT_DAY_START_HOUR);
+      loadRevision(settings.revision);
+      setStreakSettings({ ...DEFAULT_STREAK_SETTINGS, ...settings.streak });
+      setRolloverSettings({ ...DEFAULT_ROLLOVER_SETTINGS, ...settings.rollover });
+    });
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (feedback) {
+      const t = setTimeout(() => setFeedback(''), 3000);
+      return () => clearTimeout(t);
+    }
+  }, [feedback]);
+
+  const handleDayStartChange = async (hour: number) => {
+    if (!currentUser) return;
+    setDayStart(hour);
+    changeDayStart(hour);
+    await api.saveSettings(currentUser.uid, { dayStartHour: hour });
+    setFeedback('Saved ✅');
+  };
+
+  const handleRevisionSave = async () => {
+    if (!currentUser) return;
+    const intervals = parseIntervals(intervalsText);
+    if (!intervals) {
+      setRevisionMessage({ text: 'Intervals must be whole days separated by commas, e.g. 1, 3, 7, 21', error: true });
+      return;
+    }
+    const subjectIntervals: Record<string, number[]> = {};
+    for (const [subject, text] of Object.entries(subjectIntervalsText) as [string, string][]) {
+      if (!text.trim()) continue; // Blank means "use the default"
+      const days = parseIntervals(text);
+      if (!days) {
+        setRevisionMessage({ text: `The ${subject} intervals are not valid.`, error: true });
+        return;
+      }
+      subjectIntervals[subject] = days;
+    }
+    await api.saveSettings(currentUser.uid, { revision: { enabled: revisionEnabled, intervals, subjectIntervals } });
+    setRevisionMessage({ text: 'Saved ✅', error: false });
+  };
+
+  const toggleRestDay = (day: number) => {
+    const restDays = streakSettings.restDays.includes(day)
+      ? streakSettings.restDays.filter(d => d !== day)
+      : [...streakSettings.restDays, day].sort();
+    setStreakSettings({ ...streakSettings, restDays });
+  };
+
+  const handleStreakSave = async () => {
+    if (!currentUser) return;
+    if (streakSettings.restDays.length >= 7) {
+      setStreakMessage({ text: 'Leave at least one study day in the week.', error: true });
+      return;
+    }
+    await api.saveSettings(currentUser.uid, { streak: { ...streakSettings, minMinutes: Math.max(1, Math.round(streakSettings.minMinutes) || 1) } });
+    // A looser rule can complete streak trophies retroactively
+    await api.checkAchievements(currentUser.uid);
+    refreshStreak();
+    setStreakMessage({ text: 'Saved ✅', error: false });
+  };
+
+  const handleRolloverSave = async () => {
+    if (!currentUser) return;
+    const settings = { ...rolloverSettings, days: Math.max(1, Math.round(rolloverSettings.days) || 1) };
+    await api.saveSettings(currentUser.uid, { rollover: settings });
+    setRolloverSettings(settings);
+    changeRollover(settings);
+    setRolloverMessage({ text: 'Saved ✅', error: false });
+  };
+
+  const handleExport = async (kind: 'json' | 'csv' | 'ics') => {
+    if (!currentUser) return;
+    try {
+      if (kind === 'json') {
+        const backup = await exportBackup(currentUser.uid);
+        downloadFile(backupFileName('json'), JSON.stringify(backup, null, 2), 'application/json');
+      } else if (kind === 'csv') {
+        downloadFile(backupFileName('csv'), await exportSessionsCsv(currentUser.uid), 'text/csv');
+      } else {
+        downloadFile(backupFileName('ics'), await exportExamsIcs(currentUser.uid), 'text/calendar');
+      }
+    } catch (e) {
+      console.error("Export failed", e);
+      setDataMessage({ text: 'Export failed. Please try again.', error: true });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!currentUser || !file) return;
+
+    let backup;
+    try {
+      backup = validateBackup(JSON.parse(await file.text()));
+    } catch (err: any) {
+      setDataMessage({ text: err instanceof SyntaxError ? 'That file is not valid JSON.' : err.message, error: true });
+      return;
+    }
+
+    const counts = countBackupDocs(backup);
+    const summary = Object.entries(counts).filter(([, n]) => n > 0).map(([name, n]) => `${n} ${name}`).join(', ');
+    if (!confirm(`Import ${summary || 'nothing'}? Matching items will be replaced; nothing is deleted.`)) return;
+
+    setIsImporting(true);
+    try {
+      const imported = await importBackup(currentUser.uid, backup);
+      // Imported history can earn achievements the backup didn't have yet
+      await api.checkAchievements(currentUser.uid);
+      setDataMessage({ text: `Imported ${imported} items ✅`, error: false });
+      // The backup may carry a different day start
+      const settings = await api.getSettings(currentUser.uid);
+      setDayStart(settings.dayStartHour ?? DEFAULT_DAY_START_HOUR);
+      changeDayStart(settings.dayStartHour ?? DEFAULT_DAY_START_HOUR);
+      loadRevision(settings.revision);
+      setRolloverSettings({ ...DEFAULT_ROLLOVER_SETTINGS, ...settings.rollover });
+      changeRollover({ ...DEFAULT_ROLLOVER_SETTINGS, ...settings.rollover });
+    } catch (err) {
+      console.error("Import failed", err);
+      setDataMessage({ text: 'Import failed part-way. Running it again is safe.', error: true });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold flex items-center gap-2 dark:text-white">
+        <SettingsIcon className="w-6 h-6 text-brand-600" /> Settings
+      </h2>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <h3 className="text-lg font-bold mb-1 flex items-center gap-2 dark:text-white">
+          <Moon className="w-5 h-5 text-brand-600" /> Day starts at
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Study done before this hour counts towards the previous day, so late-night sessions don't break your streak.
+        </p>
+        <div className="flex items-center gap-3">
+          <select
+            value={dayStart}
+            onChange={(e) => handleDayStartChange(parseInt(e.target.value))}
+            className="p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+          >
+            {DAY_START_OPTIONS.map(h => <option key={h} value={h}>{formatHour(h)}</option>)}
+          </select>
+          <span className="text-xs text-gray-500">Today is {today}</span>
+          {feedback && <span className="text-sm font-semibold text-green-600 dark:text-green-400">{feedback}</span>}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <h3 className="text-lg font-bold mb-1 flex items-center gap-2 dark:text-white">
+          <Repeat className="w-5 h-5 text-brand-600" /> Revision schedule
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Completing a goal adds revision goals this many days later. Rating a revision easy or hard stretches or shrinks the next gap, and every revision lands before that subject's exam.
+        </p>
+        <label className="flex items-center gap-2 text-sm font-medium dark:text-gray-200 mb-4">
+          <input type="checkbox" checked={revisionEnabled} onChange={(e) => setRevisionEnabled(e.target.checked)} className="w-4 h-4" />
+          Schedule revisions automatically
+        </label>
+        <div className={revisionEnabled ? '' : 'opacity-50 pointer-events-none'}>
+          <label className="block text-xs font-bold uppercase text-gray-500 mb-1">Days between revisions</label>
+          <input
+            value={intervalsText}
+            onChange={(e) => setIntervalsText(e.target.value)}
+            placeholder="1, 3, 7, 21"
+            className="w-full md:w-64 p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-4">
+            {SUBJECTS_LIST.map(subject => (
+              <div key={subject} className="flex items-center gap-2">
+                <span className="w-28 text-sm text-gray-600 dark:text-gray-300">{subject}</span>
+                <input
+                  value={subjectIntervalsText[subject] || ''}
+                  onChange={(e) => setSubjectIntervalsText({ ...subjectIntervalsText, [subject]: e.target.value })}
+                  placeholder="Default"
+                  className="flex-1 p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="mt-4 flex items-center gap-3">
+          <button onClick={handleRevisionSave} className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg text-sm font-medium">
+            Save schedule
+          </button>
+          {revisionMessage && (
+            <span className={`text-sm font-semibold ${revisionMessage.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+              {revisionMessage.text}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <h3 className="text-lg font-bold mb-1 flex items-center gap-2 dark:text-white">
+          <Flame className="w-5 h-5 text-brand-600" /> Streak
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Choose what a day needs to count. Rest days hold your streak without adding to it, and every {FREEZE_EVERY_DAYS} counted days in a row earn a freeze (up to {MAX_FREEZES}) that covers one missed day.
+        </p>
+        <div className="space-y-3 text-sm dark:text-gray-200">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={streakSettings.rule === 'minutes'}
+              onChange={() => setStreakSettings({ ...streakSettings, rule: 'minutes' })}
+              className="w-4 h-4"
+            />
+            Study at least
+            <input
+              type="number"
+              min="1"
+              value={streakSettings.minMinutes}
+              onChange={(e) => setStreakSettings({ ...streakSettings, minMinutes: parseInt(e.target.value) || 0 })}
+              disabled={streakSettings.rule !== 'minutes'}
+              className="w-20 p-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white disabled:opacity-50"
+            />
+            minutes
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={streakSettings.rule === 'goals'}
+              onChange={() => setStreakSettings({ ...streakSettings, rule: 'goals' })}
+              className="w-4 h-4"
+            />
+            Finish every goal set for the day
+          </label>
+        </div>
+        <label className="block text-xs font-bold uppercase text-gray-500 mt-4 mb-1">Planned rest days</label>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_NAMES.map((name, day) => (
+            <button
+              key={name}
+              onClick={() => toggleRestDay(day)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold border ${streakSettings.restDays.includes(day)
+                ? 'bg-brand-600 text-white border-brand-600'
+                : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium dark:text-gray-200 mt-4">
+          <input type="checkbox" checked={streakSettings.freezes} onChange={(e) => setStreakSettings({ ...streakSettings, freezes: e.target.checked })} className="w-4 h-4" />
+          Earn streak freezes
+        </label>
+        <div className="mt-4 flex items-center gap-3">
+          <button onClick={handleStreakSave} className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg text-sm font-medium">
+            Save streak rules
+          </button>
+          {streakMessage && (
+            <span className={`text-sm font-semibold ${streakMessage.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+              {streakMessage.text}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <h3 className="text-lg font-bold mb-1 flex items-center gap-2 dark:text-white">
+          <CalendarClock className="w-5 h-5 text-brand-600" /> Unfinished Goals
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{describeRollover(rolloverSettings)}.</p>
+        <div className="space-y-3 text-sm dark:text-gray-200">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={rolloverSettings.mode === 'always'}
+              onChange={() => setRolloverSettings({ ...rolloverSettings, mode: 'always' })}
+              className="w-4 h-4"
+            />
+            Always roll over
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={rolloverSettings.mode === 'days'}
+              onChange={() => setRolloverSettings({ ...rolloverSettings, mode: 'days' })}
+              className="w-4 h-4"
+            />
+            Roll over for
+            <input
+              type="number"
+              min="1"
+              value={rolloverSettings.days}
+              onChange={(e) => setRolloverSettings({ ...rolloverSettings, days: parseInt(e.target.value) || 0 })}
+              disabled={rolloverSettings.mode !== 'days'}
+              className="w-20 p-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white disabled:opacity-50"
+            />
+            days
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={rolloverSettings.mode === 'never'}
+              onChange={() => setRolloverSettings({ ...rolloverSettings, mode: 'never' })}
+              className="w-4 h-4"
+            />
+            Never roll over
+          </label>
+        </div>
+        <div className="mt-4 flex items-center gap-3">
+          <button onClick={handleRolloverSave} className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg text-sm font-medium">
+            Save rollover
+          </button>
+          {rolloverMessage && (
+            <span className={`text-sm font-semibold ${rolloverMessage.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+              {rolloverMessage.text}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <SharingSettings />
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <h3 className="text-lg font-bold mb-1 flex items-center gap-2 dark:text-white">
+          <Download className="w-5 h-5 text-brand-600" /> Your Data
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {api.backendName === 'local'
+            ? "You're in demo mode, so everything lives in this browser. Export a backup, sign in to a real account, then import it there."
+            : 'Download a full backup, your sessions for a spreadsheet, or your exams for your calendar.'}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <button onClick={() => handleExport('json')} className="flex items-center justify-center gap-2 p-3 rounded-lg border border-gray-200 dark:border-gray-600 text-sm font-medium dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">
+            <FileJson className="w-4 h-4 text-brand-600" /> Full backup (JSON)
+          </button>
+          <button onClick={() => handleExport('csv')} className="flex items-center justify-center gap-2 p-3 rounded-lg border border-gray-200 dark:border-gray-600 text-sm font-medium dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">
+            <FileSpreadsheet className="w-4 h-4 text-green-600" /> Sessions (CSV)
+          </button>
+          <button onClick={() => handleExport('ics')} className="flex items-center justify-center gap-2 p-3 rounded-lg border border-gray-200 dark:border-gray-600 text-sm font-medium dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">
+            <CalendarDays className="w-4 h-4 text-red-500" /> Exam dates (ICS)
+          </button>
+        </div>
+
+        <label className={`mt-4 flex items-center justify-center gap-2 p-3 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 text-sm font-medium text-gray-600 dark:text-gray-300 cursor-pointer hover:border-brand-400 ${isImporting ? 'opacity-50 pointer-events-none' : ''}`}>
+          <Upload className="w-4 h-4" /> {isImporting ? 'Importing...' : 'Import a JSON backup'}
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </label>
+        <p className="mt-2 text-xs text-gray-400">XP and level aren't stored in the backup; they are recomputed from your history when it is imported.</p>
+
+        {dataMessage && (
+          <p className={`mt-3 text-sm font-semibold ${dataMessage.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {dataMessage.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { Invite, ObserverGrant } from '../types.ts';
+import { useData } from './DataContext';
+import { INVITE_TTL_DAYS } from '../services/sharing';
+import { Users, Copy, Trash2, UserX } from 'lucide-react';
+
+// Student side of read-only sharing: hand out invite codes and revoke observers
+const SharingSettings: React.FC = () => {
+  const { user: currentUser } = useData();
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [observers, setObservers] = useState<ObserverGrant[]>([]);
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchSharing = async () => {
+    if (!currentUser) return;
+    const [inviteList, observerList] = await Promise.all([api.getInvites(currentUser.uid), api.getObservers(currentUser.uid)]);
+    setInvites(inviteList);
+    setObservers(observerList);
+  };
+
+  useEffect(() => {
+    fetchSharing();
+  }, [currentUser]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+    const code = await api.createInvite(currentUser, email);
+    setMessage(`Share the code ${code}${email ? ` with ${email}` : ''}. It works once and expires in ${INVITE_TTL_DAYS} days.`);
+    setEmail('');
+    fetchSharing();
+  };
+
+  const handleCopy = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    setMessage(`Copied ${code} ✅`);
+  };
+
+  const handleDeleteInvite = async (code: string) => {
+    await api.deleteInvite(code);
+    fetchSharing();
+  };
+
+  const handleRevoke = async (observer: ObserverGrant) => {
+    if (!currentUser || !confirm(`Stop sharing your progress with ${observer.name}?`)) return;
+    await api.revokeObserver(currentUser.uid, observer.id!);
+    fetchSharing();
+  };
+
+  const isExpired = (invite: Invite) => invite.expiresAt <= Date.now();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="text-lg font-bold mb-1 flex items-center gap-2 dark:text-white">
+        <Users className="w-5 h-5 text-brand-600" /> Share with a parent or tutor
+      </h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Observers can see your goals, study time, confidence and mock test scores. They can't change anything, and you can revoke access at any time.
+      </p>
+
+      {api.backendName === 'local' ? (
+        <p className="text-sm text-gray-400 italic">Sharing needs a signed-in account; demo data stays in this browser.</p>
+      ) : (
+        <>
+          <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Their email (optional, locks the code to that account)"
+              className="flex-1 p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+            />
+            <button type="submit" className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg text-sm font-medium">
+              Create invite code
+            </button>
+          </form>
+          {message && <p className="text-sm text-gray-600 dark:text-gray-300 mt-3">{message}</p>}
+
+          {invites.length > 0 && (
+            <div className="mt-4">
+              <h4 className="text-xs font-bold uppercase text-gray-500 mb-2">Unused invites</h4>
+              <div className="space-y-2">
+                {invites.map(invite => (
+                  <div key={invite.id} className={`flex items-center gap-3 p-2 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-sm ${isExpired(invite) ? 'opacity-50' : ''}`}>
+                    <span className="font-mono font-bold tracking-widest dark:text-white">{invite.id}</span>
+                    <span className="flex-1 text-xs text-gray-500 dark:text-gray-400">
+                      {invite.email || 'Anyone with the code'} · {isExpired(invite) ? 'Expired' : `Expires ${new Date(invite.expiresAt).toLocaleDateString()}`}
+                    </span>
+                    {!isExpired(invite) && (
+                      <button onClick={() => handleCopy(invite.id!)} className="p-1 text-gray-400 hover:text-brand-600" title="Copy code"><Copy className="w-4 h-4" /></button>
+                    )}
+                    <button onClick={() => handleDeleteInvite(invite.id!)} className="p-1 text-gray-400 hover:text-red-500" title="Delete invite"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="mt-4">
+            <h4 className="text-xs font-bold uppercase text-gray-500 mb-2">Who can see your progress</h4>
+            {observers.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">Nobody yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {observers.map(observer => (
+                  <div key={observer.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-sm">
+                    <div className="flex-1">
+                      <div className="font-medium dark:text-white">{observer.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {observer.email ? `${observer.email} · ` : ''}since {new Date(observer.grantedAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(observer)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-red-200 text-red-600 hover:bg-red-50 dark:border-red-800 dark:hover:bg-red-900/20 text-xs font-bold"
+                    >
+                      <UserX className="w-4 h-4" /> Revoke
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SharingSettings;
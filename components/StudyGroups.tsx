@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { GroupChallenge, GroupMember, MyGroup, StudyGroup, Subject } from '../types.ts';
+import { SUBJECTS_LIST } from '../constants.ts';
+import { useData } from './DataContext';
+import { formatDate } from '../services/dates';
+import { leaderboard } from '../services/groups';
+import { Users, Copy, LogOut, Plus, Trash2, CheckCircle, Circle, UserPlus, Medal } from 'lucide-react';
+
+const MEDAL_COLORS = ['text-yellow-500', 'text-gray-400', 'text-amber-700'];
+
+// Study groups: a weekly leaderboard of opted-in totals and group-wide challenges
+const StudyGroups: React.FC = () => {
+  const { user: currentUser, today, goals } = useData();
+  const [groups, setGroups] = useState<MyGroup[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [group, setGroup] = useState<StudyGroup | null>(null);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [challenges, setChallenges] = useState<GroupChallenge[]>([]);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [message, setMessage] = useState<{ text: string, error: boolean } | null>(null);
+  const [challengeTitle, setChallengeTitle] = useState('');
+  const [challengeSubject, setChallengeSubject] = useState<Subject>(SUBJECTS_LIST[0]);
+  const [challengeDue, setChallengeDue] = useState(today);
+
+  const fetchGroups = async (select?: string) => {
+    if (!currentUser) return;
+    const list = await api.getMyGroups(currentUser.uid);
+    setGroups(list);
+    setSelectedId(select || (list.some(g => g.id === selectedId) ? selectedId : list[0]?.id || null));
+  };
+
+  useEffect(() => {
+    fetchGroups();
+  }, [currentUser]);
+
+  useEffect(() => {
+    setGroup(null);
+    setMembers([]);
+    setChallenges([]);
+    if (!selectedId) return;
+    api.getGroup(selectedId).then(setGroup);
+    const unsubs = [
+      api.subscribeGroupMembers(selectedId, setMembers),
+      api.subscribeGroupChallenges(selectedId, setChallenges)
+    ];
+    return () => unsubs.forEach(unsub => unsub());
+  }, [selectedId]);
+
+  const me = members.find(m => m.id === currentUser?.uid);
+  const rows = leaderboard(members, today);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !newGroupName.trim()) return;
+    const groupId = await api.createGroup(currentUser, newGroupName.trim());
+    setNewGroupName('');
+    setMessage({ text: 'Group created. Share its code so classmates can join.', error: false });
+    fetchGroups(groupId);
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !joinCode.trim()) return;
+    try {
+      const name = await api.joinGroup(currentUser, joinCode);
+      setJoinCode('');
+      setMessage({ text: `You joined ${name} ✅`, error: false });
+      fetchGroups();
+    } catch (err: any) {
+      setMessage({ text: err.message || 'Could not join that group.', error: true });
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!currentUser || !selectedId || !confirm(`Leave ${group?.name || 'this group'}?`)) return;
+    await api.leaveGroup(currentUser.uid, selectedId);
+    setSelectedId(null);
+    fetchGroups();
+  };
+
+  const handleCopyCode = async () => {
+    if (!group) return;
+    await navigator.clipboard.writeText(group.code);
+    setMessage({ text: `Copied ${group.code} ✅`, error: false });
+  };
+
+  const handleAddChallenge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !selectedId || !challengeTitle.trim()) return;
+    await api.addChallenge(currentUser.uid, selectedId, { title: challengeTitle.trim(), subject: challengeSubject, dueDate: challengeDue });
+    setChallengeTitle('');
+  };
+
+  const toggleChallenge = async (challenge: GroupChallenge, done: boolean) => {
+    if (!currentUser || !selectedId) return;
+    await api.setChallengeDone(currentUser.uid, selectedId, challenge.id!, !done);
+  };
+
+  const hasGoalFor = (challenge: GroupChallenge) => goals.some(g => g.groupChallenge?.challengeId === challenge.id);
+
+  const handleAddGoal = async (challenge: GroupChallenge) => {
+    if (!currentUser || !selectedId) return;
+    await api.addChallengeGoal(currentUser.uid, selectedId, challenge);
+    setMessage({ text: `"${challenge.title}" is on today's goals ✅`, error: false });
+  };
+
+  const inputClass = "p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm";
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold flex items-center gap-2 dark:text-white">
+        <Users className="w-6 h-6 text-brand-600" />
+        Study Groups
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <form onSubmit={handleCreate} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-4 flex gap-2">
+          <input value={newGroupName} onChange={(e) => setNewGroupName(e.target.value)} placeholder="New group name" className={`${inputClass} flex-1`} />
+          <button type="submit" className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg text-sm font-medium">Create</button>
+        </form>
+        <form onSubmit={handleJoin} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-4 flex gap-2">
+          <input value={joinCode} onChange={(e) => setJoinCode(e.target.value)} placeholder="Group code" className={`${inputClass} flex-1 font-mono uppercase tracking-widest`} />
+          <button type="submit" className="px-4 py-2 bg-gray-800 dark:bg-gray-600 hover:bg-gray-900 text-white rounded-lg text-sm font-medium">Join</button>
+        </form>
+      </div>
+      {message && (
+        <p className={`text-sm font-semibold ${message.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>
+      )}
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">You're not in any groups yet. Create one for your batch, or join with a code.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {groups.map(g => (
+            <button
+              key={g.id}
+              onClick={() => setSelectedId(g.id!)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium border ${g.id === selectedId
+                ? 'bg-brand-600 text-white border-brand-600'
+                : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-700'}`}
+            >
+              {g.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {group && (
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-gray-500 dark:text-gray-400">Code</span>
+            <span className="font-mono font-bold tracking-widest dark:text-white">{group.code}</span>
+            <button onClick={handleCopyCode} className="p-1 text-gray-400 hover:text-brand-600" title="Copy code"><Copy className="w-4 h-4" /></button>
+            <span className="text-gray-400">· {members.length} member{members.length === 1 ? '' : 's'}</span>
+            {api.backendName === 'local' && (
+              <button onClick={() => api.addSimulatedMember(group.id!)} className="flex items-center gap-1 text-brand-600 hover:underline" title="Demo mode only">
+                <UserPlus className="w-4 h-4" /> Add simulated member
+              </button>
+            )}
+            <button onClick={handleLeave} className="ml-auto flex items-center gap-1 text-gray-400 hover:text-red-500">
+              <LogOut className="w-4 h-4" /> Leave group
+            </button>
+          </div>
+
+          {/* Weekly leaderboard */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h3 className="font-bold dark:text-white">This week's leaderboard</h3>
+              {me && (
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={me.shareStats}
+                    onChange={(e) => api.setShareStats(currentUser!.uid, group.id!, e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  Share my weekly hours and goals
+                </label>
+              )}
+            </div>
+            {rows.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">Nobody is sharing their totals yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                {rows.map(row => (
+                  <div key={row.member.id} className={`py-2 flex items-center gap-3 text-sm ${row.member.id === currentUser?.uid ? 'font-bold' : ''}`}>
+                    <span className="w-8 flex justify-center">
+                      {row.rank <= 3 ? <Medal className={`w-5 h-5 ${MEDAL_COLORS[row.rank - 1]}`} /> : <span className="text-gray-400">{row.rank}</span>}
+                    </span>
+                    <span className="flex-1 dark:text-white">
+                      {row.member.name}
+                      {row.member.simulated && <span className="ml-2 text-[10px] uppercase text-gray-400">demo</span>}
+                    </span>
+                    <span className="w-20 text-right dark:text-gray-200">{row.hours}h</span>
+                    <span className="w-24 text-right text-gray-500 dark:text-gray-400">{row.goals} goals</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-400 mt-3">Only weekly totals are shared, never individual sessions. Weeks start on Monday.</p>
+          </div>
+
+          {/* Group challenges */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h3 className="font-bold mb-4 dark:text-white">Challenges</h3>
+            <form onSubmit={handleAddChallenge} className="flex flex-col md:flex-row gap-2 mb-4">
+              <input
+                value={challengeTitle}
+                onChange={(e) => setChallengeTitle(e.target.value)}
+                placeholder="Everyone finishes Carbon Compounds"
+                className={`${inputClass} flex-1`}
+              />
+              <select value={challengeSubject} onChange={(e) => setChallengeSubject(e.target.value as Subject)} className={inputClass}>
+                {SUBJECTS_LIST.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <input type="date" value={challengeDue} min={today} onChange={(e) => setChallengeDue(e.target.value)} className={inputClass} />
+              <button type="submit" className="flex items-center justify-center gap-1 px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg text-sm font-medium">
+                <Plus className="w-4 h-4" /> Add
+              </button>
+            </form>
+
+            {challenges.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No challenges yet. Set one for the whole group.</p>
+            ) : (
+              <div className="space-y-3">
+                {challenges.map(c => {
+                  const done = members.filter(m => (m.completedChallenges || []).includes(c.id!));
+                  const iDidIt = !!me && (me.completedChallenges || []).includes(c.id!);
+                  const overdue = c.dueDate < today;
+                  return (
+                    <div key={c.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                      <div className="flex items-center gap-3">
+                        <button onClick={() => toggleChallenge(c, iDidIt)} title={iDidIt ? 'Mark not done' : 'Mark done'}>
+                          {iDidIt ? <CheckCircle className="w-5 h-5 text-green-500" /> : <Circle className="w-5 h-5 text-gray-300" />}
+                        </button>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium dark:text-white">{c.title}</div>
+                          <div className={`text-xs ${overdue ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                            {c.subject} · by {formatDate(c.dueDate, { weekday: 'short', day: 'numeric', month: 'short' }, 'en-GB')}
+                          </div>
+                        </div>
+                        <span className="text-xs font-bold text-gray-500 dark:text-gray-400">{done.length}/{members.length} done</span>
+                        {!iDidIt && !hasGoalFor(c) && (
+                          <button onClick={() => handleAddGoal(c)} className="text-xs text-brand-600 hover:underline">Add to my goals</button>
+                        )}
+                        {(c.createdBy === currentUser?.uid || group.ownerId === currentUser?.uid) && (
+                          <button onClick={() => api.deleteChallenge(group.id!, c.id!)} className="p-1 text-gray-400 hover:text-red-500" title="Delete challenge">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                      <div className="h-1.5 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden mt-2">
+                        <div className="h-full bg-green-500 rounded-full" style={{ width: `${members.length > 0 ? (done.length / members.length) * 100 : 0}%` }} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudyGroups;
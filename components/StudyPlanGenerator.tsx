@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { useData } from './DataContext';
+import { WEEKDAY_NAMES } from '../services/recurrence';
+import { getCoverage } from '../services/syllabus';
+import { formatDate } from '../services/dates';
+import { latestSubjectScores } from '../services/confidence';
+import {
+  DEFAULT_HOURS_BY_WEEKDAY, DEFAULT_SUBJECT_CONFIDENCE, MAX_PLAN_DAYS, PlannedGoal, examsBySubject, generateStudyPlan
+} from '../services/studyPlan';
+import { Wand2, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+
+const PLAN_LENGTHS = [
+  { days: 7, label: 'Next 7 days' },
+  { days: 14, label: 'Next 14 days' },
+  { days: 30, label: 'Next 30 days' },
+  { days: MAX_PLAN_DAYS, label: 'Until my last exam' }
+];
+
+// Proposes day-by-day goals up to each exam; nothing is saved until the student accepts
+const StudyPlanGenerator: React.FC = () => {
+  const { user: currentUser, today, confidence: confidenceLog, chapters, exams } = useData();
+  const [isOpen, setIsOpen] = useState(false);
+  const [hoursByWeekday, setHoursByWeekday] = useState<number[]>(DEFAULT_HOURS_BY_WEEKDAY);
+  const [confidence, setConfidence] = useState<Record<string, number>>({});
+  const [planDays, setPlanDays] = useState(14);
+  const [preview, setPreview] = useState<PlannedGoal[] | null>(null);
+  const [existingPlanned, setExistingPlanned] = useState(0);
+  const [replaceExisting, setReplaceExisting] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!currentUser || !isOpen) return;
+    const load = async () => {
+      const [settings, planned] = await Promise.all([
+        api.getSettings(currentUser.uid),
+        api.getPlannedGoals(currentUser.uid)
+      ]);
+      setExistingPlanned(planned.length);
+      if (settings.studyPlan?.hoursByWeekday) setHoursByWeekday(settings.studyPlan.hoursByWeekday);
+
+      // Starting guesses: syllabus coverage, then what was set for the last plan, then the latest check-in ratings
+      const guesses: Record<string, number> = {};
+      getCoverage(chapters).forEach(c => { guesses[c.subject] = 1 + Math.round((c.percent / 100) * 9); });
+      const checkIns = Object.fromEntries(Object.entries(latestSubjectScores(confidenceLog)).map(([subject, score]) => [subject, Math.max(1, Math.round(score / 10))]));
+      setConfidence({ ...guesses, ...settings.studyPlan?.subjectConfidence, ...checkIns });
+    };
+    load();
+  }, [currentUser, isOpen]);
+
+  const upcoming = examsBySubject(exams, today);
+
+  const handleGenerate = async () => {
+    if (!currentUser) return;
+    setMessage('');
+    const summaries = await api.getDailySummaries(currentUser.uid);
+    const loggedHours: Record<string, number> = {};
+    summaries.forEach(s => Object.entries(s.minutesBySubject).forEach(([subject, mins]) => {
+      loggedHours[subject] = (loggedHours[subject] || 0) + mins / 60;
+    }));
+
+    const plan = generateStudyPlan({ startDate: today, days: planDays, exams, hoursByWeekday, confidence, loggedHours });
+    setPreview(plan);
+    if (plan.length === 0) setMessage('Nothing to plan: add upcoming exams and some study hours first.');
+  };
+
+  const updatePlannedHours = (key: string, hours: number) => {
+    setPreview(preview!.map(p => (p.key === key ? { ...p, targetHours: hours } : p)));
+  };
+
+  const removePlanned = (key: string) => {
+    setPreview(preview!.filter(p => p.key !== key));
+  };
+
+  const handleAccept = async () => {
+    if (!currentUser || !preview || preview.length === 0) return;
+    const accepted = preview.filter(p => p.targetHours > 0);
+    setIsSaving(true);
+    try {
+      await api.saveSettings(currentUser.uid, { studyPlan: { hoursByWeekday, subjectConfidence: confidence } });
+      await api.acceptStudyPlan(
+        currentUser.uid,
+        accepted.map(({ date, subject, title, targetHours, priority }) => ({ date, subject, title, targetHours, priority })),
+        replaceExisting
+      );
+      setMessage(`Added ${accepted.length} goals to your calendar ✅`);
+      setPreview(null);
+    } catch (e) {
+      console.error("Failed to save study plan", e);
+      setMessage('Could not save the plan. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const previewDates: string[] = preview ? Array.from(new Set(preview.map(p => p.date))) : [];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+        <h2 className="text-xl font-bold flex items-center gap-2 dark:text-white">
+          <Wand2 className="w-5 h-5 text-brand-600" />
+          Auto Study Plan
+        </h2>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Hours you can study</label>
+            <div className="grid grid-cols-7 gap-1">
+              {WEEKDAY_NAMES.map((name, day) => (
+                <div key={name} className="text-center">
+                  <div className="text-[10px] uppercase font-bold text-gray-400">{name}</div>
+                  <input
+                    type="number"
+                    min="0"
+                    max="16"
+                    step="0.5"
+                    value={hoursByWeekday[day]}
+                    onChange={(e) => setHoursByWeekday(hoursByWeekday.map((h, i) => (i === day ? Math.max(0, parseFloat(e.target.value) || 0) : h)))}
+                    className="w-full p-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm text-center"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {upcoming.length > 0 ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">How confident are you? (1–10)</label>
+              <div className="space-y-2">
+                {upcoming.map(exam => (
+                  <div key={exam.subject} className="flex items-center gap-3 text-sm">
+                    <span className="w-28 text-gray-600 dark:text-gray-300">{exam.subject}</span>
+                    <input
+                      type="range"
+                      min="1"
+                      max="10"
+                      value={confidence[exam.subject] ?? DEFAULT_SUBJECT_CONFIDENCE}
+                      onChange={(e) => setConfidence({ ...confidence, [exam.subject]: parseInt(e.target.value) })}
+                      className="flex-1"
+                    />
+                    <span className="w-6 text-right font-bold dark:text-white">{confidence[exam.subject] ?? DEFAULT_SUBJECT_CONFIDENCE}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400 italic">Add your exams to the timetable below to plan towards them.</p>
+          )}
+
+          <div className="flex gap-2">
+            <select
+              value={planDays}
+              onChange={(e) => setPlanDays(parseInt(e.target.value))}
+              className="flex-1 p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+            >
+              {PLAN_LENGTHS.map(l => <option key={l.days} value={l.days}>{l.label}</option>)}
+            </select>
+            <button
+              onClick={handleGenerate}
+              disabled={upcoming.length === 0}
+              className="px-4 py-2 bg-brand-600 hover:bg-brand-700 disabled:opacity-50 text-white font-bold rounded-lg transition-colors text-sm"
+            >
+              {preview ? 'Regenerate' : 'Preview plan'}
+            </button>
+          </div>
+
+          {preview && preview.length > 0 && (
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+              <h3 className="text-sm font-bold text-gray-500 uppercase mb-3">
+                Preview • {preview.length} goals, {preview.reduce((sum, p) => sum + p.targetHours, 0)}h
+              </h3>
+              <div className="space-y-4 max-h-96 overflow-y-auto pr-1">
+                {previewDates.map(date => (
+                  <div key={date}>
+                    <div className="text-xs font-bold text-gray-500 dark:text-gray-400 mb-1">
+                      {formatDate(date, { weekday: 'short', day: 'numeric', month: 'short' }, 'en-GB')}
+                    </div>
+                    <div className="space-y-1">
+                      {preview.filter(p => p.date === date).map(p => (
+                        <div key={p.key} className={`flex items-center gap-2 p-2 rounded-lg text-sm ${p.kind === 'revision' ? 'bg-purple-50 dark:bg-purple-900/20' : 'bg-gray-50 dark:bg-gray-700/50'}`}>
+                          <span className="flex-1 dark:text-gray-200">{p.title}</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            value={p.targetHours}
+                            onChange={(e) => updatePlannedHours(p.key, Math.max(0, parseFloat(e.target.value) || 0))}
+                            className="w-16 p-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-xs text-center"
+                          />
+                          <span className="text-xs text-gray-400">h</span>
+                          <button onClick={() => removePlanned(p.key)} className="p-1 text-red-500 hover:bg-red-50 rounded" title="Remove"><Trash2 className="w-3.5 h-3.5" /></button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {existingPlanned > 0 && (
+                <label className="mt-4 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                  <input type="checkbox" checked={replaceExisting} onChange={(e) => setReplaceExisting(e.target.checked)} className="w-4 h-4" />
+                  Replace the {existingPlanned} unfinished goals from my previous plan
+                </label>
+              )}
+
+              <div className="flex gap-2 mt-4">
+                <button onClick={() => setPreview(null)} className="flex-1 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors text-sm">
+                  Discard
+                </button>
+                <button
+                  onClick={handleAccept}
+                  disabled={isSaving}
+                  className="flex-1 py-2 bg-brand-600 hover:bg-brand-700 text-white font-bold rounded-lg transition-colors text-sm"
+                >
+                  {isSaving ? 'Saving...' : `Accept ${preview.length} goals`}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {message && <p className="text-sm text-gray-600 dark:text-gray-300">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudyPlanGenerator;
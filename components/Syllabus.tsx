@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { SUBJECTS_LIST } from '../constants.ts';
+import { Chapter, ChapterStatus, Subject } from '../types.ts';
+import { api } from '../services/api';
+import { getCoverage } from '../services/syllabus';
+import { useData } from './DataContext';
+import { BookOpen, Plus, Trash2, Edit2, Check, X, RotateCcw, FileCheck } from 'lucide-react';
+
+const STATUS_STYLES: Record<ChapterStatus, string> = {
+  [ChapterStatus.NotStarted]: 'bg-gray-100 text-gray-600 border-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600',
+  [ChapterStatus.Learning]: 'bg-yellow-100 text-yellow-700 border-yellow-200 dark:bg-yellow-900/40 dark:text-yellow-200 dark:border-yellow-800',
+  [ChapterStatus.Done]: 'bg-green-100 text-green-700 border-green-200 dark:bg-green-900/40 dark:text-green-200 dark:border-green-800'
+};
+
+const Syllabus: React.FC = () => {
+  const { user: currentUser, chapters, progress } = useData();
+  const [minutesByChapter, setMinutesByChapter] = useState<Record<string, number>>({});
+  const [activeSubject, setActiveSubject] = useState<Subject>(SUBJECTS_LIST[0]);
+  const [newChapterName, setNewChapterName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  // Progress is rewritten once the rollups are up to date, so the totals follow every logged session
+  useEffect(() => {
+    if (currentUser) api.getChapterMinutes(currentUser.uid).then(setMinutesByChapter);
+  }, [currentUser, progress]);
+
+  // Queued writes reach the live chapter list straight away, so status clicks feel instant
+  const update = async (chapter: Chapter, updates: Partial<Chapter>) => {
+    if (!currentUser) return;
+    await api.updateChapter(currentUser.uid, chapter.id!, updates);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !newChapterName.trim()) return;
+    const subjectChapters = chapters.filter(c => c.subject === activeSubject);
+    const nextOrder = subjectChapters.reduce((max, c) => Math.max(max, c.order), 0) + 1;
+    await api.addChapter(currentUser.uid, { subject: activeSubject, name: newChapterName.trim(), order: nextOrder });
+    setNewChapterName('');
+  };
+
+  const handleDelete = async (chapter: Chapter) => {
+    if (!currentUser || !confirm(`Remove "${chapter.name}" from your syllabus?`)) return;
+    await api.deleteChapter(currentUser.uid, chapter.id!);
+  };
+
+  const saveRename = async (chapter: Chapter) => {
+    if (renameValue.trim()) await update(chapter, { name: renameValue.trim() });
+    setRenamingId(null);
+  };
+
+  const formatMinutes = (mins: number) => {
+    const h = Math.floor(mins / 60);
+    const m = Math.round(mins % 60);
+    return h > 0 ? `${h}h ${m}m` : `${m}m`;
+  };
+
+  const coverage = getCoverage(chapters);
+  const subjectChapters = chapters.filter(c => c.subject === activeSubject);
+  const activeCoverage = coverage.find(c => c.subject === activeSubject);
+  const totalChapters = chapters.length;
+  const totalDone = chapters.filter(c => c.status === ChapterStatus.Done).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="bg-gradient-to-r from-brand-600 to-brand-500 rounded-xl p-6 text-white shadow-lg">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2"><BookOpen className="w-6 h-6" /> Syllabus Tracker</h2>
+            <p className="opacity-90 mt-1 text-sm">{totalDone} of {totalChapters} chapters done across all subjects.</p>
+          </div>
+          <div className="text-4xl font-black">{totalChapters > 0 ? Math.round((totalDone / totalChapters) * 100) : 0}%</div>
+        </div>
+      </div>
+
+      {/* Subject Tabs */}
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {SUBJECTS_LIST.map(subject => {
+          const c = coverage.find(x => x.subject === subject);
+          return (
+            <button
+              key={subject}
+              onClick={() => setActiveSubject(subject)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap border transition-colors ${activeSubject === subject
+                ? 'bg-gray-900 text-white border-gray-900 dark:bg-white dark:text-gray-900'
+                : 'bg-white text-gray-600 border-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700'}`}
+            >
+              {subject} <span className="opacity-60 ml-1">{c ? `${c.percent}%` : '–'}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Chapter List */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        {activeCoverage && (
+          <div className="mb-6">
+            <div className="flex justify-between text-xs font-semibold mb-1 text-gray-500">
+              <span>{activeCoverage.done}/{activeCoverage.total} done • {activeCoverage.learning} in progress • {activeCoverage.revised} revised</span>
+              <span>{activeCoverage.percent}%</span>
+            </div>
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+              <div className="bg-green-500 h-2 rounded-full transition-all duration-500" style={{ width: `${activeCoverage.percent}%` }}></div>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {subjectChapters.length === 0 && <p className="text-sm text-gray-400 italic">No chapters for {activeSubject} yet.</p>}
+          {subjectChapters.map(chapter => (
+            <div key={chapter.id} className="group flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+              <div className="flex-1 min-w-0">
+                {renamingId === chapter.id ? (
+                  <div className="flex gap-2">
+                    <input
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      autoFocus
+                      className="flex-1 p-1.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+                    />
+                    <button onClick={() => saveRename(chapter)} className="p-1.5 text-green-600 hover:bg-green-50 rounded"><Check className="w-4 h-4" /></button>
+                    <button onClick={() => setRenamingId(null)} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"><X className="w-4 h-4" /></button>
+                  </div>
+                ) : (
+                  <div className="font-semibold text-sm dark:text-white truncate">
+                    <span className="text-gray-400 mr-2">{chapter.order}.</span>{chapter.name}
+                  </div>
+                )}
+                <div className="text-xs text-gray-500 mt-0.5">
+                  {minutesByChapter[chapter.id!] ? `${formatMinutes(minutesByChapter[chapter.id!])} studied` : 'No sessions logged'}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 flex-wrap">
+                {[ChapterStatus.NotStarted, ChapterStatus.Learning, ChapterStatus.Done].map(status => (
+                  <button
+                    key={status}
+                    onClick={() => update(chapter, { status })}
+                    className={`px-2 py-1 text-[10px] uppercase font-bold rounded border ${chapter.status === status ? STATUS_STYLES[status] : 'border-transparent text-gray-400 hover:text-gray-600'}`}
+                  >
+                    {status}
+                  </button>
+                ))}
+                <button
+                  onClick={() => update(chapter, { revisionCount: chapter.revisionCount + 1 })}
+                  disabled={chapter.status !== ChapterStatus.Done}
+                  className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+                  title="Log a revision"
+                >
+                  <RotateCcw className="w-3 h-3" /> {chapter.revisionCount}×
+                </button>
+                <button
+                  onClick={() => update(chapter, { pyqsSolved: !chapter.pyqsSolved })}
+                  className={`flex items-center gap-1 px-2 py-1 text-xs rounded border ${chapter.pyqsSolved ? 'bg-indigo-100 text-indigo-700 border-indigo-200 dark:bg-indigo-900/40 dark:text-indigo-200 dark:border-indigo-800' : 'border-gray-200 dark:border-gray-600 text-gray-400'}`}
+                  title="Previous year questions solved"
+                >
+                  <FileCheck className="w-3 h-3" /> PYQs
+                </button>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => { setRenamingId(chapter.id!); setRenameValue(chapter.name); }} className="p-1.5 text-blue-500 hover:bg-blue-50 rounded"><Edit2 className="w-4 h-4" /></button>
+                  <button onClick={() => handleDelete(chapter)} className="p-1.5 text-red-500 hover:bg-red-50 rounded"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="mt-4 flex gap-2">
+          <input
+            value={newChapterName}
+            onChange={(e) => setNewChapterName(e.target.value)}
+            placeholder={`Add a ${activeSubject} chapter`}
+            className="flex-1 p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white text-sm"
+          />
+          <button type="submit" className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg text-sm font-bold flex items-center gap-1">
+            <Plus className="w-4 h-4" /> Add
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default Syllabus;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { getCoverage } from '../services/syllabus';
+import { useData } from './DataContext';
+import { BookOpen } from 'lucide-react';
+
+interface Props {
+  onOpenSyllabus?: () => void;
+}
+
+const SyllabusCoverage: React.FC<Props> = ({ onOpenSyllabus }) => {
+  const { chapters } = useData();
+  const coverage = getCoverage(chapters);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold flex items-center gap-2 dark:text-white">
+          <BookOpen className="w-5 h-5 text-brand-600" />
+          Syllabus Coverage
+        </h2>
+        {onOpenSyllabus && (
+          <button onClick={onOpenSyllabus} className="text-sm font-medium text-brand-600 hover:text-brand-700">
+            Open Tracker
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {coverage.length === 0 && <p className="text-sm text-gray-400 italic">No chapters tracked yet.</p>}
+        {coverage.map(c => (
+          <div key={c.subject}>
+            <div className="flex justify-between text-xs font-semibold mb-1">
+              <span className="text-gray-700 dark:text-gray-200">{c.subject}</span>
+              <span className="text-gray-500">{c.done}/{c.total} done • {c.revised} revised • {c.percent}%</span>
+            </div>
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 flex overflow-hidden">
+              <div className="bg-green-500 h-2 transition-all duration-500" style={{ width: `${c.percent}%` }}></div>
+              <div className="bg-yellow-400 h-2 transition-all duration-500" style={{ width: `${c.total > 0 ? (c.learning / c.total) * 100 : 0}%` }}></div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {coverage.length > 0 && (
+        <div className="mt-4 flex gap-4 text-[10px] uppercase font-bold text-gray-400">
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-green-500"></span> Done</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-yellow-400"></span> Learning</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyllabusCoverage;
@@ -0,0 +1,58 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { SyncStatus } from '../types.ts';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, HardDrive } from 'lucide-react';
+
+const badge = 'px-3 py-1 rounded-full text-xs font-bold uppercase flex items-center gap-2 border';
+
+// Header badge for the offline write queue: synced, N pending, offline or a failed write
+const SyncIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>({ pending: 0, online: true, syncing: false, lastError: null });
+
+  useEffect(() => api.onSyncStatusChange(setStatus), []);
+
+  if (!status.online) {
+    return (
+      <span className={`${badge} bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-200 border-orange-200 dark:border-orange-800`}
+        title="Changes are saved on this device and will sync when you're back online">
+        <CloudOff className="w-4 h-4" /> Offline{status.pending > 0 && ` · ${status.pending} pending`}
+      </span>
+    );
+  }
+
+  if (status.pending > 0) {
+    return (
+      <button onClick={api.retrySync} title={status.lastError ? `Last attempt failed: ${status.lastError}. Click to retry now.` : 'Saving your changes'}
+        className={`${badge} bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200 border-blue-200 dark:border-blue-800`}>
+        <RefreshCw className={`w-4 h-4 ${status.syncing ? 'animate-spin' : ''}`} /> {status.pending} pending
+      </button>
+    );
+  }
+
+  if (status.lastError) {
+    return (
+      <span className={`${badge} bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200 border-red-200 dark:border-red-800`}
+        title={status.lastError}>
+        <AlertTriangle className="w-4 h-4" /> A change wasn't saved
+      </span>
+    );
+  }
+
+  // Demo data never leaves the browser; the Settings page has the backup export
+  if (api.backendName === 'local') {
+    return (
+      <span className={`${badge} bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400 border-gray-200 dark:border-gray-700`}
+        title="Demo mode keeps data in this browser only. Export a backup from Settings to keep it safe.">
+        <HardDrive className="w-4 h-4" /> This browser only
+      </span>
+    );
+  }
+
+  return (
+    <span className={`${badge} bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200 border-green-200 dark:border-green-800`}>
+      <Cloud className="w-4 h-4" /> Synced
+    </span>
+  );
+};
+
+export default SyncIndicator;
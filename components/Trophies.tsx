@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { UnlockedAchievement } from '../types.ts';
+import { useData } from './DataContext';
+import { formatDate } from '../services/dates';
+import { ACHIEVEMENTS, AchievementDef, levelFor, xpForLevel } from '../services/achievements';
+import { Trophy, Clock, Flame, Library, Sunrise, Target, Star, Lock, RefreshCw } from 'lucide-react';
+
+export const ACHIEVEMENT_ICONS: Record<AchievementDef['icon'], React.ComponentType<{ className?: string }>> = {
+  clock: Clock,
+  flame: Flame,
+  books: Library,
+  sunrise: Sunrise,
+  target: Target,
+  star: Star
+};
+
+// Trophy shelf: level progress plus every achievement, locked or not
+const Trophies: React.FC = () => {
+  const { user: currentUser, achievements, progress } = useData();
+  const [isRecomputing, setIsRecomputing] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const xp = progress?.xp || 0;
+  const level = levelFor(xp);
+  const levelStart = xpForLevel(level);
+  const levelEnd = xpForLevel(level + 1);
+  const unlockedById = new Map<string, UnlockedAchievement>(achievements.map(a => [a.id, a]));
+
+  const handleRecompute = async () => {
+    if (!currentUser) return;
+    setIsRecomputing(true);
+    setMessage('');
+    try {
+      const fresh = await api.recomputeAchievements(currentUser.uid);
+      setMessage(fresh.length > 0 ? `Unlocked ${fresh.length} from your history 🎉` : 'Everything is up to date.');
+    } catch (e) {
+      console.error("Failed to recompute achievements", e);
+      setMessage('Could not recompute. Please try again.');
+    } finally {
+      setIsRecomputing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold flex items-center gap-2 dark:text-white">
+        <Trophy className="w-6 h-6 text-amber-500" />
+        Trophies
+      </h2>
+
+      <div className="bg-gradient-to-r from-amber-500 to-orange-500 rounded-xl p-6 text-white shadow-lg">
+        <div className="flex items-end justify-between mb-3">
+          <div>
+            <div className="text-xs font-bold uppercase tracking-widest opacity-80">Level</div>
+            <div className="text-4xl font-black">{level}</div>
+          </div>
+          <div className="text-right">
+            <div className="text-2xl font-bold">{xp} XP</div>
+            <div className="text-xs opacity-80">{levelEnd - xp} XP to level {level + 1}</div>
+          </div>
+        </div>
+        <div className="h-3 bg-white/30 rounded-full overflow-hidden">
+          <div className="h-full bg-white rounded-full transition-all" style={{ width: `${((xp - levelStart) / (levelEnd - levelStart)) * 100}%` }} />
+        </div>
+        <p className="text-xs opacity-80 mt-3">10 XP per hour studied, 5 XP per goal completed, plus a bonus for every trophy.</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {ACHIEVEMENTS.map(def => {
+          const unlocked = unlockedById.get(def.id);
+          const Icon = unlocked ? ACHIEVEMENT_ICONS[def.icon] : Lock;
+          return (
+            <div
+              key={def.id}
+              className={`p-4 rounded-xl border flex items-start gap-3 ${unlocked
+                ? 'bg-white dark:bg-gray-800 border-amber-200 dark:border-amber-800 shadow-sm'
+                : 'bg-gray-50 dark:bg-gray-800/50 border-gray-200 dark:border-gray-700 opacity-60'}`}
+            >
+              <div className={`p-2 rounded-lg ${unlocked ? 'bg-amber-100 text-amber-600 dark:bg-amber-900/40 dark:text-amber-300' : 'bg-gray-200 text-gray-400 dark:bg-gray-700'}`}>
+                <Icon className="w-5 h-5" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-bold dark:text-white">{def.title}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">{def.description}</div>
+                <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400 mt-1">
+                  +{def.xp} XP{unlocked && ` · ${formatDate(unlocked.unlockedOn, { day: 'numeric', month: 'short', year: 'numeric' }, 'en-GB')}`}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleRecompute}
+          disabled={isRecomputing}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-700 dark:text-white hover:bg-gray-300 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${isRecomputing ? 'animate-spin' : ''}`} /> Recompute from history
+        </button>
+        {message && <span className="text-sm text-gray-600 dark:text-gray-300">{message}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default Trophies;
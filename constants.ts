@@ -1,4 +1,4 @@
-import { Subject, ExamDate } from './types.ts';
+import { Subject, ExamPreset } from './types.ts';
 
 export const MOTIVATIONAL_QUOTES = [
   "Success is the sum of small efforts, repeated day in and day out.",
@@ -13,14 +13,60 @@ export const MOTIVATIONAL_QUOTES = [
   "Study hard, for the well is deep, and our brains are shallow."
 ];
 
-// Based on the provided PDF/OCR content
-export const EXAM_SCHEDULE: ExamDate[] = [
-  { date: '17/02/2026', subject: 'Maths', daysLeft: 0 },
-  { date: '21/02/2026', subject: 'English', daysLeft: 0 },
-  { date: '25/02/2026', subject: 'Science', daysLeft: 0 },
-  { date: '27/02/2026', subject: 'IT', daysLeft: 0 },
-  { date: '02/03/2026', subject: 'Hindi', daysLeft: 0 },
-  { date: '07/03/2026', subject: 'Social Science', daysLeft: 0 },
+// Built-in timetables a student can import into their own exam list and then edit.
+// All are for the 2027 session and indicative until the boards publish their date
+// sheets; roll them forward each year once a session has passed.
+export const EXAM_PRESETS: ExamPreset[] = [
+  {
+    id: 'cbse-10-2027',
+    name: 'CBSE Class 10 (2027)',
+    tentative: true,
+    exams: [
+      { subject: Subject.Maths, date: '2027-02-17', startTime: '10:30', paperCode: '041', maxMarks: 80, syllabusNotes: '' },
+      { subject: Subject.English, date: '2027-02-22', startTime: '10:30', paperCode: '184', maxMarks: 80, syllabusNotes: '' },
+      { subject: Subject.Science, date: '2027-02-25', startTime: '10:30', paperCode: '086', maxMarks: 80, syllabusNotes: '' },
+      { subject: Subject.IT, date: '2027-02-27', startTime: '10:30', paperCode: '402', maxMarks: 50, syllabusNotes: '' },
+      { subject: Subject.Hindi, date: '2027-03-02', startTime: '10:30', paperCode: '002', maxMarks: 80, syllabusNotes: '' },
+      { subject: Subject.SST, date: '2027-03-08', startTime: '10:30', paperCode: '087', maxMarks: 80, syllabusNotes: '' },
+    ]
+  },
+  {
+    id: 'cbse-12-science-2027',
+    name: 'CBSE Class 12 Science (2027)',
+    tentative: true,
+    exams: [
+      { subject: 'Physics', date: '2027-02-20', startTime: '10:30', paperCode: '042', maxMarks: 70, syllabusNotes: '' },
+      { subject: 'Chemistry', date: '2027-03-01', startTime: '10:30', paperCode: '043', maxMarks: 70, syllabusNotes: '' },
+      { subject: 'Maths', date: '2027-03-09', startTime: '10:30', paperCode: '041', maxMarks: 80, syllabusNotes: '' },
+      { subject: 'English Core', date: '2027-03-12', startTime: '10:30', paperCode: '301', maxMarks: 80, syllabusNotes: '' },
+      { subject: 'Biology', date: '2027-03-27', startTime: '10:30', paperCode: '044', maxMarks: 70, syllabusNotes: '' },
+      { subject: 'Computer Science', date: '2027-03-25', startTime: '10:30', paperCode: '083', maxMarks: 70, syllabusNotes: '' },
+    ]
+  },
+  {
+    id: 'state-10-2027',
+    name: 'State Board Class 10 (2027 template)',
+    tentative: true,
+    exams: [
+      { subject: Subject.English, date: '2027-03-03', startTime: '10:00', paperCode: '', maxMarks: 100, syllabusNotes: '' },
+      { subject: Subject.Hindi, date: '2027-03-05', startTime: '10:00', paperCode: '', maxMarks: 100, syllabusNotes: '' },
+      { subject: Subject.Maths, date: '2027-03-09', startTime: '10:00', paperCode: '', maxMarks: 100, syllabusNotes: '' },
+      { subject: Subject.Science, date: '2027-03-12', startTime: '10:00', paperCode: '', maxMarks: 100, syllabusNotes: '' },
+      { subject: Subject.SST, date: '2027-03-16', startTime: '10:00', paperCode: '', maxMarks: 100, syllabusNotes: '' },
+    ]
+  },
+  {
+    id: 'state-12-science-2027',
+    name: 'State Board Class 12 Science (2027 template)',
+    tentative: true,
+    exams: [
+      { subject: 'English', date: '2027-02-24', startTime: '10:00', paperCode: '', maxMarks: 100, syllabusNotes: '' },
+      { subject: 'Physics', date: '2027-03-02', startTime: '10:00', paperCode: '', maxMarks: 70, syllabusNotes: '' },
+      { subject: 'Chemistry', date: '2027-03-05', startTime: '10:00', paperCode: '', maxMarks: 70, syllabusNotes: '' },
+      { subject: 'Maths', date: '2027-03-09', startTime: '10:00', paperCode: '', maxMarks: 80, syllabusNotes: '' },
+      { subject: 'Biology', date: '2027-03-12', startTime: '10:00', paperCode: '', maxMarks: 70, syllabusNotes: '' },
+    ]
+  }
 ];
 
 export const SUBJECTS_LIST = [
@@ -30,4 +76,47 @@ export const SUBJECTS_LIST = [
   Subject.English,
   Subject.Hindi,
   Subject.IT
-];
\ No newline at end of file
+];
+
+// NCERT Class 10 chapter lists (rationalised syllabus) used to seed each student's editable catalogue
+export const NCERT_CLASS10_CHAPTERS: Record<string, string[]> = {
+  [Subject.Maths]: [
+    'Real Numbers', 'Polynomials', 'Pair of Linear Equations in Two Variables', 'Quadratic Equations',
+    'Arithmetic Progressions', 'Triangles', 'Coordinate Geometry', 'Introduction to Trigonometry',
+    'Some Applications of Trigonometry', 'Circles', 'Areas Related to Circles', 'Surface Areas and Volumes',
+    'Statistics', 'Probability'
+  ],
+  [Subject.Science]: [
+    'Chemical Reactions and Equations', 'Acids, Bases and Salts', 'Metals and Non-metals', 'Carbon and its Compounds',
+    'Life Processes', 'Control and Coordination', 'How do Organisms Reproduce?', 'Heredity',
+    'Light – Reflection and Refraction', 'The Human Eye and the Colourful World', 'Electricity',
+    'Magnetic Effects of Electric Current', 'Our Environment'
+  ],
+  [Subject.SST]: [
+    'History: The Rise of Nationalism in Europe', 'History: Nationalism in India', 'History: The Making of a Global World',
+    'History: The Age of Industrialisation', 'History: Print Culture and the Modern World',
+    'Geography: Resources and Development', 'Geography: Forest and Wildlife Resources', 'Geography: Water Resources',
+    'Geography: Agriculture', 'Geography: Minerals and Energy Resources', 'Geography: Manufacturing Industries',
+    'Geography: Lifelines of National Economy',
+    'Civics: Power Sharing', 'Civics: Federalism', 'Civics: Gender, Religion and Caste', 'Civics: Political Parties',
+    'Civics: Outcomes of Democracy',
+    'Economics: Development', 'Economics: Sectors of the Indian Economy', 'Economics: Money and Credit',
+    'Economics: Globalisation and the Indian Economy'
+  ],
+  [Subject.English]: [
+    'A Letter to God', 'Nelson Mandela: Long Walk to Freedom', 'Two Stories about Flying', 'From the Diary of Anne Frank',
+    'Glimpses of India', 'Mijbil the Otter', 'Madam Rides the Bus', 'The Sermon at Benares', 'The Proposal',
+    'A Triumph of Surgery', "The Thief's Story", 'The Midnight Visitor', 'A Question of Trust', 'Footprints without Feet',
+    'The Making of a Scientist', 'The Necklace', 'Bholi', 'The Book That Saved the Earth'
+  ],
+  [Subject.Hindi]: [
+    'सूरदास के पद', 'राम-लक्ष्मण-परशुराम संवाद', 'आत्मकथ्य', 'उत्साह और अट नहीं रही है', 'यह दंतुरित मुसकान और फसल',
+    'संगतकार', 'नेताजी का चश्मा', 'बालगोबिन भगत', 'लखनवी अंदाज़', 'एक कहानी यह भी', 'नौबतखाने में इबादत', 'संस्कृति',
+    'माता का अँचल', 'साना-साना हाथ जोड़ि', 'मैं क्यों लिखता हूँ?'
+  ],
+  [Subject.IT]: [
+    'Communication Skills', 'Self-Management Skills', 'ICT Skills', 'Entrepreneurial Skills', 'Green Skills',
+    'Digital Documentation (Advanced)', 'Electronic Spreadsheet (Advanced)', 'Database Management System',
+    'Web Applications and Security'
+  ]
+};
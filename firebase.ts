@@ -24,7 +24,8 @@ if (!getApps().length) {
 
         // Attempt persistence only if in a browser environment
         if (typeof window !== 'undefined') {
-            enableIndexedDbPersistence(db).catch(() => { });
+            // Fails when another tab already holds the cache; writes are still kept by the sync queue
+            enableIndexedDbPersistence(db).catch((e) => console.warn("Offline cache unavailable:", e.code));
         }
     } catch (e) {
         console.warn("Firebase initialization failed or running in Demo Mode.");
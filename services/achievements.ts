@@ -0,0 +1,108 @@
+import { DailySummary } from '../types.ts';
+import { SUBJECTS_LIST } from '../constants.ts';
+import { addDays } from './dates';
+import { StreakDay } from './streaks';
+
+// Achievements and XP, derived entirely from the daily rollups so they can be
+// re-evaluated after any write and recomputed from history for existing users.
+// Once unlocked an achievement stays unlocked, even if the data behind it is
+// later deleted.
+
+export interface AchievementDef {
+  id: string;
+  title: string;
+  description: string;
+  xp: number;
+  icon: 'clock' | 'flame' | 'books' | 'sunrise' | 'target' | 'star';
+}
+
+export const ACHIEVEMENTS: AchievementDef[] = [
+  { id: 'first-session', title: 'First Step', description: 'Log your first study session', xp: 20, icon: 'star' },
+  { id: 'hours-10', title: 'Warming Up', description: 'Study for 10 hours in total', xp: 50, icon: 'clock' },
+  { id: 'hours-50', title: 'Committed', description: 'Study for 50 hours in total', xp: 150, icon: 'clock' },
+  { id: 'hours-100', title: 'Century', description: 'Study for 100 hours in total', xp: 300, icon: 'clock' },
+  { id: 'hours-250', title: 'Marathoner', description: 'Study for 250 hours in total', xp: 600, icon: 'clock' },
+  { id: 'streak-7', title: 'On a Roll', description: 'Reach a 7-day streak', xp: 100, icon: 'flame' },
+  { id: 'streak-30', title: 'Unstoppable', description: 'Reach a 30-day streak', xp: 400, icon: 'flame' },
+  { id: 'all-subjects-week', title: 'All-Rounder', description: 'Touch every subject within 7 days', xp: 100, icon: 'books' },
+  { id: 'early-bird', title: 'Early Bird', description: 'Start a session before 7 AM', xp: 30, icon: 'sunrise' },
+  { id: 'early-bird-10', title: 'Dawn Patrol', description: 'Start before 7 AM on 10 different days', xp: 150, icon: 'sunrise' },
+  { id: 'perfect-week', title: 'Perfect Week', description: 'Complete every goal for 7 days in a row', xp: 250, icon: 'target' },
+  { id: 'goals-50', title: 'Goal Getter', description: 'Complete 50 goals', xp: 150, icon: 'target' }
+];
+
+const XP_PER_STUDY_HOUR = 10;
+const XP_PER_GOAL = 5;
+const XP_PER_LEVEL_STEP = 100; // Each level needs this much more XP than the one before
+
+// Level 1 starts at 0 XP, level 2 at 100, level 3 at 300, level 4 at 600...
+export const xpForLevel = (level: number) => (XP_PER_LEVEL_STEP * level * (level - 1)) / 2;
+
+export const levelFor = (xp: number) => {
+  let level = 1;
+  while (xp >= xpForLevel(level + 1)) level++;
+  return level;
+};
+
+// Study day on which each achievement's condition was first met. Streak trophies
+// follow the streak engine's timeline, so rest days and freezes count there too.
+export const evaluateAchievements = (summaries: DailySummary[], streakDays: StreakDay[]): Record<string, string> => {
+  const unlocked: Record<string, string> = {};
+  const unlock = (id: string, date: string) => { if (!unlocked[id]) unlocked[id] = date; };
+
+  const days = summaries.slice().sort((a, b) => a.date.localeCompare(b.date));
+  const byDate = new Map(days.map(d => [d.date, d]));
+  const perfect = (date: string) => {
+    const d = byDate.get(date);
+    return !!d && d.goalsSet > 0 && d.goalsCompleted === d.goalsSet;
+  };
+
+  let totalMinutes = 0;
+  let goalsCompleted = 0;
+  let earlyDays = 0;
+  let perfectRun = 0;
+  let previous: string | null = null;
+
+  days.forEach(d => {
+    const consecutive = previous !== null && addDays(previous, 1) === d.date;
+    totalMinutes += d.totalMinutes;
+    goalsCompleted += d.goalsCompleted;
+
+    if (d.sessionCount > 0) unlock('first-session', d.date);
+    [10, 50, 100, 250].forEach(hours => { if (totalMinutes >= hours * 60) unlock(`hours-${hours}`, d.date); });
+
+    perfectRun = perfect(d.date) ? (consecutive && perfect(previous!) ? perfectRun + 1 : 1) : 0;
+    if (perfectRun >= 7) unlock('perfect-week', d.date);
+
+    if ((d.earlyStarts || 0) > 0) {
+      earlyDays++;
+      unlock('early-bird', d.date);
+      if (earlyDays >= 10) unlock('early-bird-10', d.date);
+    }
+
+    if (goalsCompleted >= 50) unlock('goals-50', d.date);
+
+    const weekSubjects = new Set<string>();
+    for (let i = 0; i < 7; i++) {
+      Object.keys(byDate.get(addDays(d.date, -i))?.minutesBySubject || {}).forEach(s => weekSubjects.add(s));
+    }
+    if (SUBJECTS_LIST.every(s => weekSubjects.has(s))) unlock('all-subjects-week', d.date);
+
+    previous = d.date;
+  });
+
+  streakDays.forEach(d => {
+    if (d.streak >= 7) unlock('streak-7', d.date);
+    if (d.streak >= 30) unlock('streak-30', d.date);
+  });
+
+  return unlocked;
+};
+
+// XP from study time and finished goals, plus the bonus for each unlocked achievement
+export const totalXp = (summaries: DailySummary[], unlockedIds: string[]) => {
+  const minutes = summaries.reduce((sum, d) => sum + d.totalMinutes, 0);
+  const goals = summaries.reduce((sum, d) => sum + d.goalsCompleted, 0);
+  const bonus = ACHIEVEMENTS.filter(a => unlockedIds.includes(a.id)).reduce((sum, a) => sum + a.xp, 0);
+  return Math.floor((minutes / 60) * XP_PER_STUDY_HOUR) + goals * XP_PER_GOAL + bonus;
+};
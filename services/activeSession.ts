@@ -0,0 +1,100 @@
+import { ActiveSession } from '../types.ts';
+import { api } from './api';
+
+// Persistence and cross-tab coordination for the running study timer.
+// localStorage is the fast path for reloads and sibling tabs; the copy in the
+// user's settings lets another device see (and take over) the session.
+
+export const HEARTBEAT_MS = 5000;
+const STALE_AFTER_MS = 3 * HEARTBEAT_MS;
+
+const storageKey = (userId: string) => `activeSession_${userId}`;
+
+// sessionStorage survives a reload of the same tab but is unique per tab
+export const TAB_ID = (() => {
+  const existing = sessionStorage.getItem('tab_id');
+  if (existing) return existing;
+  const id = 't_' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+  sessionStorage.setItem('tab_id', id);
+  return id;
+})();
+
+const readLocal = (userId: string): ActiveSession | null =>
+  JSON.parse(localStorage.getItem(storageKey(userId)) || 'null');
+
+export const isSameSession = (a: ActiveSession, b: ActiveSession) => a.startTime === b.startTime && a.tabId === b.tabId;
+
+// Prefers this device's copy, which has the latest heartbeat, but only while the shared copy
+// still agrees with it: if the session was ended or taken over on another device meanwhile,
+// the local copy is stale and is dropped in favour of whatever the shared copy says.
+export const loadActiveSession = async (userId: string): Promise<{ session: ActiveSession | null, local: boolean }> => {
+  const local = readLocal(userId);
+  let remote: ActiveSession | null;
+  try {
+    remote = (await api.getSettings(userId)).activeSession || null;
+  } catch (e) {
+    // Nothing to compare against, so this device's copy is the best there is
+    console.error("Could not load the shared active session", e);
+    return { session: local, local: !!local };
+  }
+  if (local && remote && isSameSession(local, remote)) return { session: local, local: true };
+  if (local) localStorage.removeItem(storageKey(userId));
+  return { session: remote, local: false };
+};
+
+// The shared copy as it is right now, or undefined when it can't be read
+export const readSharedActiveSession = async (userId: string): Promise<ActiveSession | null | undefined> => {
+  try {
+    return (await api.getSettings(userId)).activeSession || null;
+  } catch (e) {
+    console.error("Could not load the shared active session", e);
+    return undefined;
+  }
+};
+
+export const saveActiveSession = async (userId: string, session: ActiveSession) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(session));
+  await api.saveSettings(userId, { activeSession: session });
+};
+
+// Heartbeats stay local: other tabs need them, other devices don't need a write every few seconds
+export const touchActiveSession = (userId: string, session: ActiveSession) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify({ ...session, heartbeatAt: Date.now() }));
+};
+
+export const clearActiveSession = async (userId: string) => {
+  localStorage.removeItem(storageKey(userId));
+  await api.saveSettings(userId, { activeSession: null });
+};
+
+// Drops this device's copy of `session` but leaves the shared one, which belongs to another device now
+export const forgetActiveSession = (userId: string, session: ActiveSession) => {
+  const local = readLocal(userId);
+  if (local && isSameSession(local, session)) localStorage.removeItem(storageKey(userId));
+};
+
+// True when a live tab other than this one is driving the timer
+export const isRunningInOtherTab = (session: ActiveSession) =>
+  session.tabId !== TAB_ID && Date.now() - session.heartbeatAt < STALE_AFTER_MS;
+
+export const isPaused = (session: ActiveSession) =>
+  session.pauses.length > 0 && session.pauses[session.pauses.length - 1].end === null;
+
+// Milliseconds of actual study time, excluding pauses
+export const activeElapsedMs = (session: ActiveSession, now = Date.now()) => {
+  const paused = session.pauses.reduce((sum, p) => sum + ((p.end ?? now) - p.start), 0);
+  return Math.max(0, now - session.startTime - paused);
+};
+
+// Fires when the shared copy changes, including from another device
+export const onSharedActiveSessionChange = (userId: string, callback: (session: ActiveSession | null) => void) =>
+  api.subscribeSettings(userId, settings => callback(settings.activeSession || null));
+
+// Fires when another tab starts, takes over, updates or ends the session
+export const onActiveSessionChange = (userId: string, callback: (session: ActiveSession | null) => void) => {
+  const handler = (e: StorageEvent) => {
+    if (e.key === storageKey(userId)) callback(e.newValue ? JSON.parse(e.newValue) : null);
+  };
+  window.addEventListener('storage', handler);
+  return () => window.removeEventListener('storage', handler);
+};
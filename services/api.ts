@@ -1,325 +1,880 @@
-import { db, auth } from '../firebase';
-import {
-  collection, addDoc, getDocs, query, where, updateDoc, doc, Timestamp, orderBy, limit, setDoc, getDoc, deleteDoc
-} from 'firebase/firestore';
-import {
-  signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut, onAuthStateChanged, updateProfile, User
-} from 'firebase/auth';
-import { DailyGoal, StudySession, Subject, Priority } from '../types.ts';
-
-// Check if Firebase is configured with real keys
-const isFirebaseConfigured = auth && auth.app.options.apiKey !== "YOUR_API_KEY_HERE";
-
-// --- MOCK DATA STORE ---
-const MOCK_DELAY = 400; // Simulate network latency
-
-interface MockUser {
-  uid: string;
-  email: string;
-  displayName: string;
-}
-
-let currentMockUser: MockUser | null = JSON.parse(localStorage.getItem('mock_user') || 'null');
-
-// Helper to seed data for Demo Account
-const seedMockData = (uid: string) => {
-  if (localStorage.getItem(`goals_${uid}`)) return;
-
-  const today = new Date().toISOString().split('T')[0];
-  const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-
-  const initialGoals: DailyGoal[] = [
-    {
-      id: 'g1', userId: uid, date: today, title: 'Science - Electricity Numericals',
-      subject: Subject.Science, targetHours: 2, completed: false, priority: Priority.High, createdAt: Date.now()
-    },
-    {
-      id: 'g2', userId: uid, date: today, title: 'Maths - Quadratic Equations',
-      subject: Subject.Maths, targetHours: 1.5, completed: true, priority: Priority.Medium, createdAt: Date.now()
-    },
-    {
-      id: 'g3', userId: uid, date: yesterday, title: 'SST - Nationalism in Europe',
-      subject: Subject.SST, targetHours: 1, completed: false, priority: Priority.High, createdAt: Date.now()
+import { DailyGoal, StudySession, SessionQuery, DailySummary, DailySummaryPage, Exam, GoalSeries, Chapter, ChapterStatus, UserSettings, RolloverSettings, RecallRating, ConfidenceEntry, MockTest, Mistake, UnlockedAchievement, Progress, Invite, ObserverGrant, ObservedStudent, GroupMember, GroupChallenge, MyGroup, StudyGroup, Priority } from '../types.ts';
+import { EXAM_PRESETS, NCERT_CLASS10_CHAPTERS } from '../constants.ts';
+import { backend, userPath } from './storage';
+import { AuthUser, QueryOptions, WhereClause } from './storage/backend';
+import { occurrencesBetween } from './recurrence';
+import { seedChapterId } from './syllabus';
+import { runMigrations } from './migrations';
+import { addDays, studyToday, weekStartOf } from './dates';
+import { refreshDailySummaries, rebuildDailySummaries } from './rollups';
+import { confidenceId } from './confidence';
+import { ACHIEVEMENTS, evaluateAchievements, levelFor, totalXp } from './achievements';
+import { DEFAULT_STREAK_SETTINGS, computeStreak } from './streaks';
+import { DEFAULT_ROLLOVER_SETTINGS, isAbandoned, isOverdue, isVisibleOn, lowerTarget, splitGoal } from './rollover';
+import { INVITES, INVITE_TTL_DAYS, generateInviteCode, inviteProblem, normalizeCode } from './sharing';
+import { ReportRange, buildReport } from './reports';
+import { GROUPS, GROUP_CODES, groupPath, simulatedMember, weekTotals } from './groups';
+import { DEFAULT_REVISION_SETTINGS, buildRevisionGoal, intervalsFor, nextExamFor, nextRevisionDate, revisionId } from './revision';
+
+// Accepts epoch ms, Date or ISO string and hands the backend a Date to store as a timestamp
+const toDate = (value: any) => (value instanceof Date ? value : new Date(value));
+
+// Firestore caps `in` filters at 30 values
+const IN_QUERY_LIMIT = 30;
+
+// Occurrence ids are deterministic so concurrent fetches never materialize a day twice
+const occurrenceId = (seriesId: string, date: string) => `${seriesId}_${date}`;
+
+// Creates the DailyGoal for every series occurrence up to `through`. Each series remembers how far
+// it has got, so days the app was never opened on still get their goal for the rollups, and an
+// occurrence deleted by hand is not brought back. Occurrences are only ever created, never
+// overwritten, so one completed or edited on another device is left alone.
+const materializeOccurrences = async (userId: string, through: string, existing: DailyGoal[]) => {
+  const series = await backend.list(userPath(userId, 'goalSeries')) as GoalSeries[];
+  // A rescheduled occurrence still counts for the day it was made for
+  const made = new Set(existing.filter(g => g.seriesId).map(g => occurrenceId(g.seriesId!, g.originalDate || g.date)));
+  const created: DailyGoal[] = [];
+
+  for (const s of series) {
+    if (s.materializedThrough && s.materializedThrough >= through) continue;
+    const from = s.materializedThrough ? addDays(s.materializedThrough, 1) : s.recurrence.startDate;
+
+    for (const date of occurrencesBetween(s.recurrence, from, through, s.skippedDates || [])) {
+      if (made.has(occurrenceId(s.id!, date))) continue;
+      const goal: DailyGoal = {
+        id: occurrenceId(s.id!, date),
+        userId,
+        date,
+        title: s.title,
+        subject: s.subject,
+        targetHours: s.targetHours,
+        priority: s.priority,
+        chapterId: s.chapterId || null,
+        completed: false,
+        seriesId: s.id,
+        createdAt: Date.now()
+      };
+      const { id, ...data } = goal;
+      await backend.create(userPath(userId, 'dailyGoals'), id!, { ...data, createdAt: new Date() });
+      created.push(goal);
     }
-  ];
-
-  const initialSessions: StudySession[] = [
-    {
-      id: 's1', userId: uid, date: today, subject: Subject.Maths, topic: 'Quadratic Eq Ex 4.1',
-      startTime: Date.now() - 3600000, endTime: Date.now(), durationMinutes: 60
-    },
-    {
-      id: 's2', userId: uid, date: yesterday, subject: Subject.Science, topic: 'Ohm Law',
-      startTime: Date.now() - 90000000, endTime: Date.now() - 86400000, durationMinutes: 120
-    }
-  ];
+    await backend.update(userPath(userId, 'goalSeries'), s.id!, { materializedThrough: through });
+  }
+  return created;
+};
+
+const sortExams = (exams: Exam[]) =>
+  exams.sort((a, b) => a.date.localeCompare(b.date) || (a.startTime || '').localeCompare(b.startTime || ''));
+
+const sortChapters = (chapters: Chapter[]) =>
+  chapters.sort((a, b) => a.subject.localeCompare(b.subject) || a.order - b.order);
+
+// Copies the NCERT chapter lists into the user's catalogue the first time it is opened
+const seedChapters = async (userId: string) => {
+  const settings = await backend.get(userPath(userId, 'settings'), 'config');
+  if (settings?.chaptersSeeded) return;
+
+  const writes = Object.entries(NCERT_CLASS10_CHAPTERS).flatMap(([subject, names]) =>
+    names.map((name, i) => backend.set(userPath(userId, 'chapters'), seedChapterId(subject, i + 1), {
+      userId, subject, name, order: i + 1,
+      status: ChapterStatus.NotStarted, revisionCount: 0, pyqsSolved: false, updatedAt: new Date()
+    }))
+  );
+  await Promise.all(writes);
+  await backend.set(userPath(userId, 'settings'), 'config', { chaptersSeeded: true }, { merge: true });
+};
+
+// Creates the next revision of a goal completed on `doneOn`, if the schedule has one left before the exam
+const scheduleNextRevision = async (userId: string, goal: DailyGoal, doneOn: string, rating: RecallRating) => {
+  const stored = await backend.get(userPath(userId, 'settings'), 'config');
+  const settings = { ...DEFAULT_REVISION_SETTINGS, ...stored?.revision };
+  if (!settings.enabled) return null;
+
+  const root = goal.revisionOf ? await backend.get(userPath(userId, 'dailyGoals'), goal.revisionOf) as DailyGoal | null : goal;
+  if (!root) return null;
+  const step = (goal.revisionStep || 0) + 1;
+  // Re-ticking must not reset a revision that was already done
+  if (await backend.get(userPath(userId, 'dailyGoals'), revisionId(root.id!, step))) return null;
+
+  const exams = await backend.list(userPath(userId, 'exams')) as Exam[];
+  const exam = nextExamFor(exams, goal.subject, doneOn);
+  // Recall is only rated on revisions; finishing the original goal uses the plain interval
+  const date = nextRevisionDate(intervalsFor(settings, goal.subject), step, doneOn, goal.revisionOf ? rating : 'ok', exam?.date);
+  if (!date) return null;
+
+  const { id, ...revision } = buildRevisionGoal(root, step, date);
+  await backend.set(userPath(userId, 'dailyGoals'), id!, { ...revision, createdAt: new Date() });
+  return date;
+};
 
-  localStorage.setItem(`goals_${uid}`, JSON.stringify(initialGoals));
-  localStorage.setItem(`sessions_${uid}`, JSON.stringify(initialSessions));
-  localStorage.setItem(`settings_${uid}`, JSON.stringify({ motivationNote: "I will top the boards!" }));
+// Un-ticking a goal withdraws the revision it scheduled, unless that was already done
+const cancelNextRevision = async (userId: string, goal: DailyGoal) => {
+  const id = revisionId(goal.revisionOf || goal.id!, (goal.revisionStep || 0) + 1);
+  const next = await backend.get(userPath(userId, 'dailyGoals'), id) as DailyGoal | null;
+  if (!next || next.completed) return null;
+  await backend.remove(userPath(userId, 'dailyGoals'), id);
+  return next.date;
+};
+
+// Unlocks anything newly earned and stores the XP total; call after writes that change the rollups.
+// Achievements are never taken back, so deleting history only lowers XP.
+const checkAchievements = async (userId: string) => {
+  const summaries = await backend.list(userPath(userId, 'dailySummaries')) as DailySummary[];
+  const existing = await backend.list(userPath(userId, 'achievements')) as UnlockedAchievement[];
+  const have = new Set(existing.map(a => a.id));
+  const stored = await backend.get(userPath(userId, 'settings'), 'config');
+  const streak = computeStreak(summaries, { ...DEFAULT_STREAK_SETTINGS, ...stored?.streak }, studyToday());
+  const earned = evaluateAchievements(summaries, streak.days);
+
+  const fresh = ACHIEVEMENTS.filter(a => earned[a.id] && !have.has(a.id));
+  for (const a of fresh) {
+    await backend.set(userPath(userId, 'achievements'), a.id, { unlockedOn: earned[a.id], xp: a.xp });
+  }
+
+  const xp = totalXp(summaries, [...have, ...fresh.map(a => a.id)]);
+  await backend.set(userPath(userId, 'progress'), 'xp', { xp, level: levelFor(xp), updatedAt: new Date() });
+  return fresh;
+};
+
+// The join code travels on the member entry so the security rules can check it
+const joinAs = async (user: AuthUser, groupId: string, name: string, code: string) => {
+  await backend.set(groupPath(groupId, 'members'), user.uid, {
+    name: user.displayName || user.email || 'Student',
+    joinedAt: new Date(),
+    shareStats: false,
+    weekStart: null,
+    weekMinutes: null,
+    weekGoalsCompleted: null,
+    completedChallenges: [],
+    joinCode: code
+  });
+  await backend.set(userPath(user.uid, 'groups'), groupId, { name, joinedAt: new Date() });
+};
+
+// Refreshes this week's totals on every group membership that shares them
+const publishGroupStats = async (userId: string) => {
+  const groups = await backend.list(userPath(userId, 'groups')) as MyGroup[];
+  if (groups.length === 0) return;
+  const today = studyToday();
+  const summaries = await backend.list(userPath(userId, 'dailySummaries'), { where: [['date', '>=', weekStartOf(today)]] }) as DailySummary[];
+  const totals = weekTotals(summaries, today);
+  for (const group of groups) {
+    const member = await backend.get(groupPath(group.id!, 'members'), userId) as GroupMember | null;
+    if (member?.shareStats) await backend.update(groupPath(group.id!, 'members'), userId, totals);
+  }
 };
 
 // --- API EXPORTS ---
 
 export const api = {
+  backendName: backend.name,
+
   // AUTH
-  onAuthStateChanged: (callback: (user: any) => void) => {
-    if (isFirebaseConfigured) {
-      return onAuthStateChanged(auth, callback);
-    } else {
-      callback(currentMockUser);
-      // Return dummy unsubscribe
-      return () => { };
+  onAuthStateChanged: backend.onAuthStateChanged,
+  signIn: backend.signIn,
+  signUp: backend.signUp,
+  signOut: backend.signOut,
+
+  // Brings a user's stored data up to the current schema; call once after sign-in
+  runMigrations,
+
+  // SYNC - writes are queued on this device and confirmed in the background
+  onSyncStatusChange: backend.onSyncStatusChange,
+  retrySync: backend.retryNow,
+
+  // DATA - GOALS
+  getGoals: async (userId: string, date: string): Promise<DailyGoal[]> => {
+    const [all, settings] = await Promise.all([backend.list(userPath(userId, 'dailyGoals')) as Promise<DailyGoal[]>, api.getSettings(userId)]);
+    const occurrences = await materializeOccurrences(userId, date > studyToday() ? date : studyToday(), all);
+    if (occurrences.length > 0) await refreshDailySummaries(userId, occurrences.map(g => g.date));
+    const rollover = { ...DEFAULT_ROLLOVER_SETTINGS, ...settings.rollover };
+    return [...all, ...occurrences].filter(g => isVisibleOn(g, date, rollover));
+  },
+
+  // Live version of getGoals: calls back now and whenever a goal changes on any device
+  subscribeGoals: (userId: string, date: string, rollover: RolloverSettings, callback: (goals: DailyGoal[]) => void) => {
+    // Occurrences up to the day are written once; the listener picks them up
+    backend.list(userPath(userId, 'dailyGoals'))
+      .then(all => materializeOccurrences(userId, date > studyToday() ? date : studyToday(), all as DailyGoal[]))
+      .then(created => created.length > 0 && refreshDailySummaries(userId, created.map(g => g.date)))
+      .catch(e => console.error("Failed to create recurring goals", e));
+    return backend.subscribe(userPath(userId, 'dailyGoals'), {}, docs =>
+      callback((docs as DailyGoal[]).filter(g => isVisibleOn(g, date, rollover)))
+    );
+  },
+
+  // Every goal regardless of date or status, e.g. to resolve session -> goal links
+  getAllGoals: async (userId: string): Promise<DailyGoal[]> => {
+    return await backend.list(userPath(userId, 'dailyGoals')) as DailyGoal[];
+  },
+
+  // Returns the new goal's id
+  addGoal: async (userId: string, goal: Partial<DailyGoal>) => {
+    const id = await backend.add(userPath(userId, 'dailyGoals'), { ...goal, createdAt: new Date() });
+    await refreshDailySummaries(userId, [goal.date]);
+    return id;
+  },
+
+  updateGoal: async (userId: string, goalId: string, updates: Partial<DailyGoal>) => {
+    const before = await backend.get(userPath(userId, 'dailyGoals'), goalId) as DailyGoal | null;
+    await backend.update(userPath(userId, 'dailyGoals'), goalId, updates);
+
+    const dates = [before?.date, updates.date];
+    // A renamed goal renames the topic on every day it was studied
+    if (updates.title && updates.title !== before?.title) {
+      const sessions = await backend.list(userPath(userId, 'studySessions'), { where: [['goalId', '==', goalId]] }) as StudySession[];
+      dates.push(...sessions.map(s => s.date));
     }
+    await refreshDailySummaries(userId, dates);
   },
 
-  signIn: async (email: string, pass: string) => {
-    if (isFirebaseConfigured) {
-      await signInWithEmailAndPassword(auth, email, pass);
-    } else {
-      // Mock Login
-      if (email === 'satyam@demo.com' && pass === 'demo123') {
-        currentMockUser = { uid: 'demo-satyam', email, displayName: 'Satyam' };
-        localStorage.setItem('mock_user', JSON.stringify(currentMockUser));
-        seedMockData('demo-satyam');
-        window.location.reload(); // Force refresh to trigger auth state
-      } else {
-        throw new Error('Invalid demo credentials. Use satyam@demo.com / demo123');
-      }
+  deleteGoal: async (userId: string, goalId: string) => {
+    const goal = await backend.get(userPath(userId, 'dailyGoals'), goalId) as DailyGoal | null;
+    // Deleting one occurrence skips that day so it is not materialized again
+    if (goal?.seriesId) await api.skipOccurrence(userId, goal.seriesId, goal.date);
+    await backend.remove(userPath(userId, 'dailyGoals'), goalId);
+    await refreshDailySummaries(userId, [goal?.date]);
+  },
+
+  // `rating` is how well a revision goal was recalled and shapes when the next revision falls
+  toggleGoal: async (userId: string, goalId: string, currentStatus: boolean, rating: RecallRating = 'ok') => {
+    const goal = await backend.get(userPath(userId, 'dailyGoals'), goalId) as DailyGoal | null;
+    if (!goal) return;
+    const newStatus = !currentStatus;
+    const today = studyToday();
+    await backend.update(userPath(userId, 'dailyGoals'), goalId, {
+      completed: newStatus,
+      completedAt: newStatus ? today : null,
+      ...(goal.revisionOf ? { recallRating: newStatus ? rating : null } : {})
+    });
+
+    const revisionDate = newStatus
+      ? await scheduleNextRevision(userId, goal, today, rating)
+      : await cancelNextRevision(userId, goal);
+    if (goal.groupChallenge) await api.setChallengeDone(userId, goal.groupChallenge.groupId, goal.groupChallenge.challengeId, newStatus);
+    await refreshDailySummaries(userId, [goal.date, revisionDate]);
+    await checkAchievements(userId);
+    await publishGroupStats(userId);
+  },
+
+  // DATA - OVERDUE GOALS
+  // Unfinished goals from before `today`, oldest first, whether or not they still roll over
+  getOverdueGoals: async (userId: string, today: string): Promise<DailyGoal[]> => {
+    const goals = await backend.list(userPath(userId, 'dailyGoals'), { where: [['date', '<', today]], orderBy: { field: 'date', direction: 'asc' } }) as DailyGoal[];
+    return goals.filter(g => isOverdue(g, today));
+  },
+
+  rescheduleGoals: async (userId: string, goals: DailyGoal[], date: string) => {
+    for (const g of goals) {
+      await backend.update(userPath(userId, 'dailyGoals'), g.id!, { date, originalDate: g.originalDate || g.date });
     }
+    await refreshDailySummaries(userId, [...goals.map(g => g.date), date]);
+    await checkAchievements(userId);
   },
 
-  signUp: async (email: string, pass: string, name: string) => {
-    if (isFirebaseConfigured) {
-      const cred = await createUserWithEmailAndPassword(auth, email, pass);
-      if (name) await updateProfile(cred.user, { displayName: name });
-      return cred.user;
-    } else {
-      // Mock Signup
-      const uid = 'user_' + Date.now();
-      currentMockUser = { uid, email, displayName: name || email.split('@')[0] };
-      localStorage.setItem('mock_user', JSON.stringify(currentMockUser));
-      seedMockData(uid);
-      window.location.reload();
-      return currentMockUser;
+  // Each goal becomes `parts` smaller goals on consecutive days from `startDate`
+  splitGoals: async (userId: string, goals: DailyGoal[], parts: number, startDate: string) => {
+    const dates: string[] = [];
+    for (const g of goals) {
+      const { first, rest } = splitGoal(g, parts, startDate);
+      await backend.update(userPath(userId, 'dailyGoals'), g.id!, first);
+      for (const part of rest) await backend.add(userPath(userId, 'dailyGoals'), { ...part, createdAt: new Date() });
+      dates.push(g.date, first.date!, ...rest.map(p => p.date!));
     }
+    await refreshDailySummaries(userId, dates);
+    await checkAchievements(userId);
   },
 
-  signOut: async () => {
-    if (isFirebaseConfigured) {
-      await signOut(auth);
-    } else {
-      currentMockUser = null;
-      localStorage.removeItem('mock_user');
-      window.location.reload();
+  lowerGoalTargets: async (userId: string, goals: DailyGoal[], fraction: number) => {
+    for (const g of goals) {
+      await backend.update(userPath(userId, 'dailyGoals'), g.id!, { targetHours: lowerTarget(g.targetHours, fraction) });
     }
   },
 
-  // DATA - GOALS
-  getGoals: async (userId: string, date: string): Promise<DailyGoal[]> => {
-    // Logic: Get goals for TODAY OR (Goals from PAST that are NOT COMPLETED) OR (Goals from PAST that were COMPLETED TODAY)
-    const shouldIncludeGoal = (g: DailyGoal) => {
-      const isToday = g.date === date;
-      // Incomplete goals from the past stay visible (rollover)
-      const isPastIncomplete = g.date < date && !g.completed;
-      // Completed goals from the past stay visible ONLY if they were completed today
-      const isPastCompletedToday = g.date < date && g.completed && g.completedAt === date;
-
-      return isToday || isPastIncomplete || isPastCompletedToday;
-    };
+  // Abandoned goals stay in history but no longer count as set or missed
+  abandonGoals: async (userId: string, goals: DailyGoal[], today: string) => {
+    for (const g of goals) {
+      await backend.update(userPath(userId, 'dailyGoals'), g.id!, { abandonedAt: today });
+    }
+    await refreshDailySummaries(userId, goals.map(g => g.date));
+    await checkAchievements(userId);
+  },
 
-    if (isFirebaseConfigured) {
-      const q = query(collection(db, `users/${userId}/dailyGoals`));
-      const snap = await getDocs(q);
-      const all = snap.docs.map(d => ({ id: d.id, ...d.data() as any } as DailyGoal));
+  // DATA - RECURRING GOALS
+  getGoalSeries: async (userId: string): Promise<GoalSeries[]> => {
+    return await backend.list(userPath(userId, 'goalSeries'), { orderBy: { field: 'createdAt', direction: 'asc' } }) as GoalSeries[];
+  },
 
-      return all.filter(shouldIncludeGoal);
-    } else {
-      await new Promise(r => setTimeout(r, MOCK_DELAY));
-      const all = JSON.parse(localStorage.getItem(`goals_${userId}`) || '[]');
-      return all.filter(shouldIncludeGoal);
-    }
+  addGoalSeries: async (userId: string, series: Partial<GoalSeries>) => {
+    await backend.add(userPath(userId, 'goalSeries'), { skippedDates: [], ...series, userId, createdAt: new Date() });
   },
 
-  addGoal: async (userId: string, goal: Partial<DailyGoal>) => {
-    if (isFirebaseConfigured) {
-      await addDoc(collection(db, `users/${userId}/dailyGoals`), { ...goal, createdAt: Timestamp.now() });
-    } else {
-      const all = JSON.parse(localStorage.getItem(`goals_${userId}`) || '[]');
-      const newGoal = { ...goal, id: 'g_' + Date.now(), createdAt: Date.now() };
-      all.push(newGoal);
-      localStorage.setItem(`goals_${userId}`, JSON.stringify(all));
+  // Changes apply from tomorrow: later occurrences created ahead of time (for a report covering
+  // future days) are dropped and made again from the new template; earlier days keep their own edits
+  updateGoalSeries: async (userId: string, seriesId: string, updates: Partial<GoalSeries>) => {
+    const today = studyToday();
+    const goals = await backend.list(userPath(userId, 'dailyGoals'), { where: [['seriesId', '==', seriesId]] }) as DailyGoal[];
+    const ahead = goals.filter(g => g.date > today && !g.completed && !g.originalDate);
+    for (const g of ahead) {
+      await backend.remove(userPath(userId, 'dailyGoals'), g.id!);
     }
+    const series = await backend.get(userPath(userId, 'goalSeries'), seriesId) as GoalSeries | null;
+    const rewind = series?.materializedThrough && series.materializedThrough > today ? { materializedThrough: today } : {};
+    await backend.update(userPath(userId, 'goalSeries'), seriesId, { ...updates, ...rewind });
+    await refreshDailySummaries(userId, ahead.map(g => g.date));
   },
 
-  updateGoal: async (userId: string, goalId: string, updates: Partial<DailyGoal>) => {
-    if (isFirebaseConfigured) {
-      await updateDoc(doc(db, `users/${userId}/dailyGoals`, goalId), updates);
-    } else {
-      const all = JSON.parse(localStorage.getItem(`goals_${userId}`) || '[]');
-      const idx = all.findIndex((g: DailyGoal) => g.id === goalId);
-      if (idx !== -1) {
-        all[idx] = { ...all[idx], ...updates };
-        localStorage.setItem(`goals_${userId}`, JSON.stringify(all));
-      }
+  // Removes the series and its pending occurrences; completed days stay in history
+  deleteGoalSeries: async (userId: string, seriesId: string) => {
+    const goals = await backend.list(userPath(userId, 'dailyGoals'), { where: [['seriesId', '==', seriesId]] }) as DailyGoal[];
+    const pending = goals.filter(g => !g.completed);
+    for (const g of pending) {
+      await backend.remove(userPath(userId, 'dailyGoals'), g.id!);
     }
+    await backend.remove(userPath(userId, 'goalSeries'), seriesId);
+    await refreshDailySummaries(userId, pending.map(g => g.date));
   },
 
-  deleteGoal: async (userId: string, goalId: string) => {
-    if (isFirebaseConfigured) {
-      await deleteDoc(doc(db, `users/${userId}/dailyGoals`, goalId));
-    } else {
-      const all = JSON.parse(localStorage.getItem(`goals_${userId}`) || '[]');
-      const filtered = all.filter((g: DailyGoal) => g.id !== goalId);
-      localStorage.setItem(`goals_${userId}`, JSON.stringify(filtered));
+  skipOccurrence: async (userId: string, seriesId: string, date: string) => {
+    const series = await backend.get(userPath(userId, 'goalSeries'), seriesId) as GoalSeries | null;
+    if (!series) return;
+    const skippedDates = Array.from(new Set([...(series.skippedDates || []), date])).sort();
+    await backend.update(userPath(userId, 'goalSeries'), seriesId, { skippedDates });
+
+    const occurrence = await backend.get(userPath(userId, 'dailyGoals'), occurrenceId(seriesId, date)) as DailyGoal | null;
+    if (occurrence && !occurrence.completed) {
+      await backend.remove(userPath(userId, 'dailyGoals'), occurrence.id!);
+      await refreshDailySummaries(userId, [date]);
     }
   },
 
-  toggleGoal: async (userId: string, goalId: string, currentStatus: boolean) => {
-    const newStatus = !currentStatus;
-    const today = new Date().toISOString().split('T')[0];
-    const updates = {
-      completed: newStatus,
-      completedAt: newStatus ? today : null
-    };
-
-    if (isFirebaseConfigured) {
-      await updateDoc(doc(db, `users/${userId}/dailyGoals`, goalId), updates);
-    } else {
-      const all = JSON.parse(localStorage.getItem(`goals_${userId}`) || '[]');
-      const idx = all.findIndex((g: DailyGoal) => g.id === goalId);
-      if (idx !== -1) {
-        all[idx] = { ...all[idx], ...updates };
-        localStorage.setItem(`goals_${userId}`, JSON.stringify(all));
+  // DATA - STUDY PLAN
+  // Adds an accepted plan in one go; `replace` first clears unfinished goals left from earlier plans
+  acceptStudyPlan: async (userId: string, goals: Partial<DailyGoal>[], replace: boolean) => {
+    const planId = `plan_${Date.now()}`;
+    const dates = goals.map(g => g.date);
+    if (replace) {
+      const upcoming = await backend.list(userPath(userId, 'dailyGoals'), { where: [['date', '>=', studyToday()]] }) as DailyGoal[];
+      for (const g of upcoming.filter(g => g.planId && !g.completed)) {
+        await backend.remove(userPath(userId, 'dailyGoals'), g.id!);
+        dates.push(g.date);
       }
     }
+    for (const goal of goals) {
+      await backend.add(userPath(userId, 'dailyGoals'), { ...goal, userId, completed: false, planId, createdAt: new Date() });
+    }
+    await refreshDailySummaries(userId, dates);
+  },
+
+  // Unfinished goals from accepted plans, today onwards
+  getPlannedGoals: async (userId: string): Promise<DailyGoal[]> => {
+    const upcoming = await backend.list(userPath(userId, 'dailyGoals'), { where: [['date', '>=', studyToday()]] }) as DailyGoal[];
+    return upcoming.filter(g => g.planId && !g.completed);
   },
 
   // DATA - SESSIONS
-  getSessions: async (userId: string, date?: string): Promise<StudySession[]> => {
-    if (isFirebaseConfigured) {
-      let q;
-      if (date) {
-        q = query(collection(db, `users/${userId}/studySessions`), where("date", "==", date));
-      } else {
-        q = query(collection(db, `users/${userId}/studySessions`), orderBy("endTime", "desc"), limit(200));
-      }
-      const snap = await getDocs(q);
-      return snap.docs.map(d => ({ id: d.id, ...d.data() as any } as StudySession));
-    } else {
-      await new Promise(r => setTimeout(r, MOCK_DELAY));
-      const all = JSON.parse(localStorage.getItem(`sessions_${userId}`) || '[]');
-      if (date) return all.filter((s: StudySession) => s.date === date);
-      return all.sort((a: StudySession, b: StudySession) => new Date(b.endTime).getTime() - new Date(a.endTime).getTime());
+  // One day's sessions; use querySessions for anything wider
+  getSessions: async (userId: string, date: string): Promise<StudySession[]> => {
+    return await backend.list(userPath(userId, 'studySessions'), { where: [['date', '==', date]] }) as StudySession[];
+  },
+
+  // Unbounded range query. The date range runs on the backend; subject/goal filters join it
+  // there only when no range is given, so Firestore never needs a composite index.
+  querySessions: async (userId: string, q: SessionQuery = {}): Promise<StudySession[]> => {
+    const where: WhereClause[] = [];
+    if (q.from) where.push(['date', '>=', q.from]);
+    if (q.to) where.push(['date', '<=', q.to]);
+    const hasRange = where.length > 0;
+    if (!hasRange && q.subject) where.push(['subject', '==', q.subject]);
+    if (!hasRange && q.goalId) where.push(['goalId', '==', q.goalId]);
+
+    const sessions = await backend.list(userPath(userId, 'studySessions'), { where }) as StudySession[];
+    return sessions
+      .filter(s => (!q.subject || s.subject === q.subject) && (!q.goalId || s.goalId === q.goalId))
+      .sort((a, b) => b.endTime - a.endTime);
+  },
+
+  // Live sessions for one day, or all sessions when no date is given (newest first)
+  subscribeSessions: (userId: string, date: string | undefined, callback: (sessions: StudySession[]) => void) => {
+    const options: QueryOptions = date ? { where: [['date', '==', date]] } : { orderBy: { field: 'endTime', direction: 'desc' } };
+    return backend.subscribe(userPath(userId, 'studySessions'), options, docs =>
+      callback((docs as StudySession[]).sort((a, b) => b.endTime - a.endTime))
+    );
+  },
+
+  getRecentSessions: async (userId: string, count: number): Promise<StudySession[]> => {
+    return await backend.list(userPath(userId, 'studySessions'), { orderBy: { field: 'endTime', direction: 'desc' }, limit: count }) as StudySession[];
+  },
+
+  // Lifetime minutes logged against each goal
+  getGoalMinutes: async (userId: string, goalIds: string[]): Promise<Record<string, number>> => {
+    const minutes: Record<string, number> = {};
+    for (let i = 0; i < goalIds.length; i += IN_QUERY_LIMIT) {
+      const chunk = goalIds.slice(i, i + IN_QUERY_LIMIT);
+      const sessions = await backend.list(userPath(userId, 'studySessions'), { where: [['goalId', 'in', chunk]] }) as StudySession[];
+      sessions.forEach(s => { minutes[s.goalId!] = (minutes[s.goalId!] || 0) + s.durationMinutes; });
     }
+    return minutes;
   },
 
+  // Returns the new session's id
   addSession: async (userId: string, session: Partial<StudySession>) => {
-    if (isFirebaseConfigured) {
-      await addDoc(collection(db, `users/${userId}/studySessions`), {
-        ...session,
-        startTime: Timestamp.fromDate(new Date(session.startTime)),
-        endTime: Timestamp.fromDate(new Date(session.endTime))
-      });
-    } else {
-      const all = JSON.parse(localStorage.getItem(`sessions_${userId}`) || '[]');
-      const newSession = { ...session, id: 's_' + Date.now() };
-      all.push(newSession);
-      localStorage.setItem(`sessions_${userId}`, JSON.stringify(all));
+    const id = await backend.add(userPath(userId, 'studySessions'), {
+      ...session,
+      startTime: toDate(session.startTime),
+      endTime: toDate(session.endTime)
+    });
+    await refreshDailySummaries(userId, [session.date]);
+    await checkAchievements(userId);
+    await publishGroupStats(userId);
+
+    // First session on a chapter moves it into Learning
+    if (session.chapterId) {
+      const chapter = await backend.get(userPath(userId, 'chapters'), session.chapterId) as Chapter | null;
+      if (chapter?.status === ChapterStatus.NotStarted) {
+        await api.updateChapter(userId, session.chapterId, { status: ChapterStatus.Learning });
+      }
     }
+    return id;
   },
 
   deleteSession: async (userId: string, sessionId: string) => {
-    if (isFirebaseConfigured) {
-      await deleteDoc(doc(db, `users/${userId}/studySessions`, sessionId));
-    } else {
-      const all = JSON.parse(localStorage.getItem(`sessions_${userId}`) || '[]');
-      const filtered = all.filter((s: StudySession) => s.id !== sessionId);
-      localStorage.setItem(`sessions_${userId}`, JSON.stringify(filtered));
-    }
+    const session = await backend.get(userPath(userId, 'studySessions'), sessionId);
+    await backend.remove(userPath(userId, 'studySessions'), sessionId);
+    await refreshDailySummaries(userId, [session?.date]);
+    await checkAchievements(userId);
+    await publishGroupStats(userId);
   },
 
   updateSession: async (userId: string, sessionId: string, updates: Partial<StudySession>) => {
-    if (isFirebaseConfigured) {
-      const updateData: any = { ...updates };
-      if (updates.startTime) {
-        updateData.startTime = Timestamp.fromDate(new Date(updates.startTime));
-      }
-      if (updates.endTime) {
-        updateData.endTime = Timestamp.fromDate(new Date(updates.endTime));
-      }
-      await updateDoc(doc(db, `users/${userId}/studySessions`, sessionId), updateData);
-    } else {
-      const all = JSON.parse(localStorage.getItem(`sessions_${userId}`) || '[]');
-      const idx = all.findIndex((s: StudySession) => s.id === sessionId);
-      if (idx !== -1) {
-        all[idx] = { ...all[idx], ...updates };
-        localStorage.setItem(`sessions_${userId}`, JSON.stringify(all));
-      }
-    }
+    const updateData: Record<string, any> = { ...updates };
+    if (updates.startTime) updateData.startTime = toDate(updates.startTime);
+    if (updates.endTime) updateData.endTime = toDate(updates.endTime);
+    const before = await backend.get(userPath(userId, 'studySessions'), sessionId);
+    await backend.update(userPath(userId, 'studySessions'), sessionId, updateData);
+    await refreshDailySummaries(userId, [before?.date, updates.date]);
+    await checkAchievements(userId);
+    await publishGroupStats(userId);
+  },
+
+  // DATA - DAILY SUMMARIES
+  // Rollups for every study day in [from, to], oldest first
+  getDailySummaries: async (userId: string, from?: string, to?: string): Promise<DailySummary[]> => {
+    const where: WhereClause[] = [];
+    if (from) where.push(['date', '>=', from]);
+    if (to) where.push(['date', '<=', to]);
+    return await backend.list(userPath(userId, 'dailySummaries'), { where, orderBy: { field: 'date', direction: 'asc' } }) as DailySummary[];
   },
 
+  // Study days older than `before` (newest first). Pass the returned cursor back for the next page.
+  getDailySummaryPage: async (userId: string, before?: string, days = 7): Promise<DailySummaryPage> => {
+    const page = await backend.list(userPath(userId, 'dailySummaries'), {
+      where: before ? [['date', '<', before]] : [], orderBy: { field: 'date', direction: 'desc' }, limit: days
+    }) as DailySummary[];
+    // Days with only goals or a confidence score have nothing to show, but still move the cursor
+    return {
+      summaries: page.filter(s => s.sessionCount > 0),
+      nextCursor: page.length === days ? page[page.length - 1].date : null
+    };
+  },
+
+  rebuildDailySummaries,
+
   // SETTINGS
-  getNote: async (userId: string) => {
-    if (isFirebaseConfigured) {
-      const snap = await getDoc(doc(db, `users/${userId}/settings/config`));
-      return snap.exists() ? snap.data().motivationNote : "";
-    } else {
-      const settings = JSON.parse(localStorage.getItem(`settings_${userId}`) || '{}');
-      return settings.motivationNote || "";
-    }
+  getSettings: async (userId: string): Promise<Partial<UserSettings>> => {
+    return ((await backend.get(userPath(userId, 'settings'), 'config')) || {}) as Partial<UserSettings>;
+  },
+
+  saveSettings: async (userId: string, updates: Partial<UserSettings>) => {
+    await backend.set(userPath(userId, 'settings'), 'config', updates, { merge: true });
+  },
+
+  subscribeSettings: (userId: string, callback: (settings: Partial<UserSettings>) => void) => {
+    return backend.subscribe(userPath(userId, 'settings'), {}, docs =>
+      callback((docs as (Partial<UserSettings> & { id: string })[]).find(d => d.id === 'config') || {})
+    );
+  },
+
+  getNote: async (userId: string): Promise<string> => {
+    const settings = await backend.get(userPath(userId, 'settings'), 'config');
+    return settings?.motivationNote || "";
   },
 
   saveNote: async (userId: string, note: string) => {
-    if (isFirebaseConfigured) {
-      await setDoc(doc(db, `users/${userId}/settings/config`), { motivationNote: note }, { merge: true });
-    } else {
-      const settings = JSON.parse(localStorage.getItem(`settings_${userId}`) || '{}');
-      settings.motivationNote = note;
-      localStorage.setItem(`settings_${userId}`, JSON.stringify(settings));
-    }
+    await backend.set(userPath(userId, 'settings'), 'config', { motivationNote: note }, { merge: true });
   },
 
   // DATA - CONFIDENCE
-  logConfidence: async (userId: string, date: string, score: number) => {
-    if (isFirebaseConfigured) {
-      await setDoc(doc(db, `users/${userId}/confidence/${date}`), { score, date }, { merge: true });
-    } else {
-      const all = JSON.parse(localStorage.getItem(`confidence_${userId}`) || '{}');
-      all[date] = score;
-      localStorage.setItem(`confidence_${userId}`, JSON.stringify(all));
+  // Rates a subject, or one chapter of it, for a day; rating it again that day replaces the score
+  logConfidence: async (userId: string, date: string, subject: string, score: number, chapterId?: string | null) => {
+    await backend.set(userPath(userId, 'confidence'), confidenceId(date, subject, chapterId), {
+      date,
+      subject,
+      chapterId: chapterId || null,
+      score
+    });
+    await refreshDailySummaries(userId, [date]);
+  },
+
+  // Raw per-subject ratings, newest first
+  getConfidenceEntries: async (userId: string, from?: string, to?: string): Promise<ConfidenceEntry[]> => {
+    const where: WhereClause[] = [];
+    if (from) where.push(['date', '>=', from]);
+    if (to) where.push(['date', '<=', to]);
+    return await backend.list(userPath(userId, 'confidence'), { where, orderBy: { field: 'date', direction: 'desc' } }) as ConfidenceEntry[];
+  },
+
+  // Live confidence log, newest first
+  subscribeConfidence: (userId: string, callback: (entries: ConfidenceEntry[]) => void) => {
+    return backend.subscribe(userPath(userId, 'confidence'), { orderBy: { field: 'date', direction: 'desc' } }, docs =>
+      callback(docs as ConfidenceEntry[])
+    );
+  },
+
+  // DATA - STREAK
+  getStreak: async (userId: string, today = studyToday()) => {
+    const [summaries, settings] = await Promise.all([api.getDailySummaries(userId), api.getSettings(userId)]);
+    return computeStreak(summaries, { ...DEFAULT_STREAK_SETTINGS, ...settings.streak }, today);
+  },
+
+  // DATA - ACHIEVEMENTS
+  // Live list of unlocked achievements, oldest first
+  subscribeAchievements: (userId: string, callback: (achievements: UnlockedAchievement[]) => void) => {
+    return backend.subscribe(userPath(userId, 'achievements'), { orderBy: { field: 'unlockedOn', direction: 'asc' } }, docs =>
+      callback(docs as UnlockedAchievement[])
+    );
+  },
+
+  subscribeProgress: (userId: string, callback: (progress: Progress | null) => void) => {
+    return backend.subscribe(userPath(userId, 'progress'), {}, docs =>
+      callback((docs as (Progress & { id: string })[]).find(d => d.id === 'xp') || null)
+    );
+  },
+
+  checkAchievements,
+
+  // For history that predates achievements: rebuild the rollups, then award everything already earned
+  recomputeAchievements: async (userId: string) => {
+    await rebuildDailySummaries(userId);
+    return await checkAchievements(userId);
+  },
+
+  // DATA - EXAMS
+  getExams: async (userId: string): Promise<Exam[]> => {
+    return sortExams(await backend.list(userPath(userId, 'exams'), { orderBy: { field: 'date', direction: 'asc' } }) as Exam[]);
+  },
+
+  subscribeExams: (userId: string, callback: (exams: Exam[]) => void) => {
+    return backend.subscribe(userPath(userId, 'exams'), { orderBy: { field: 'date', direction: 'asc' } }, docs =>
+      callback(sortExams(docs as Exam[]))
+    );
+  },
+
+  addExam: async (userId: string, exam: Partial<Exam>) => {
+    await backend.add(userPath(userId, 'exams'), { ...exam, userId });
+  },
+
+  updateExam: async (userId: string, examId: string, updates: Partial<Exam>) => {
+    await backend.update(userPath(userId, 'exams'), examId, updates);
+  },
+
+  deleteExam: async (userId: string, examId: string) => {
+    await backend.remove(userPath(userId, 'exams'), examId);
+  },
+
+  // Copies a built-in timetable into the user's exams, skipping papers already present
+  importExamPreset: async (userId: string, presetId: string): Promise<number> => {
+    const preset = EXAM_PRESETS.find(p => p.id === presetId);
+    if (!preset) throw new Error(`Unknown exam preset: ${presetId}`);
+
+    const existing = await api.getExams(userId);
+    const existingKeys = new Set(existing.map(e => `${e.subject}|${e.date}`));
+    const toAdd = preset.exams.filter(e => !existingKeys.has(`${e.subject}|${e.date}`));
+
+    for (const exam of toAdd) {
+      await api.addExam(userId, exam);
     }
+    return toAdd.length;
+  },
+
+  // DATA - MOCK TESTS
+  getMockTests: async (userId: string, subject?: string): Promise<MockTest[]> => {
+    const tests = await backend.list(userPath(userId, 'mockTests'), subject ? { where: [['subject', '==', subject]] } : {}) as MockTest[];
+    return tests.sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+  },
+
+  addMockTest: async (userId: string, test: Partial<MockTest>) => {
+    await backend.add(userPath(userId, 'mockTests'), { sections: [], mistakes: [], ...test, userId, createdAt: new Date() });
+  },
+
+  updateMockTest: async (userId: string, testId: string, updates: Partial<MockTest>) => {
+    await backend.update(userPath(userId, 'mockTests'), testId, updates);
+  },
+
+  deleteMockTest: async (userId: string, testId: string) => {
+    await backend.remove(userPath(userId, 'mockTests'), testId);
+  },
+
+  // DATA - MISTAKES
+  getMistakes: async (userId: string, filters: { subject?: string; resolved?: boolean } = {}): Promise<Mistake[]> => {
+    const where: WhereClause[] = [];
+    if (filters.subject) where.push(['subject', '==', filters.subject]);
+    if (filters.resolved !== undefined) where.push(['resolved', '==', filters.resolved]);
+    const mistakes = await backend.list(userPath(userId, 'mistakes'), { where }) as Mistake[];
+    return mistakes.sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  addMistake: async (userId: string, mistake: Partial<Mistake>) => {
+    return await backend.add(userPath(userId, 'mistakes'), {
+      chapterId: null, topic: '', sourceType: null, sourceId: null, ...mistake, userId, resolved: false, createdAt: new Date()
+    });
+  },
+
+  setMistakeResolved: async (userId: string, mistakeId: string, resolved: boolean) => {
+    await backend.update(userPath(userId, 'mistakes'), mistakeId, { resolved, resolvedAt: resolved ? studyToday() : null });
   },
 
-  getConfidence: async (userId: string, date?: string) => {
-    if (isFirebaseConfigured) {
-      if (date) {
-        const snap = await getDoc(doc(db, `users/${userId}/confidence/${date}`));
-        return snap.exists() ? snap.data().score : null;
-      } else {
-        // Get all for average (return array of scores)
-        const q = query(collection(db, `users/${userId}/confidence`), orderBy("date", "desc"));
-        const snap = await getDocs(q);
-        return snap.docs.map(d => d.data().score);
+  deleteMistake: async (userId: string, mistakeId: string) => {
+    await backend.remove(userPath(userId, 'mistakes'), mistakeId);
+  },
+
+  // Adds the re-attempt goals and remembers on each mistake which goal covers it
+  scheduleReattempts: async (userId: string, goals: Partial<DailyGoal>[]) => {
+    for (const goal of goals) {
+      const goalId = await api.addGoal(userId, { ...goal, userId, completed: false });
+      for (const mistakeId of goal.mistakeIds || []) {
+        await backend.update(userPath(userId, 'mistakes'), mistakeId, { reattemptGoalId: goalId });
       }
-    } else {
-      const all = JSON.parse(localStorage.getItem(`confidence_${userId}`) || '{}');
-      if (date) return all[date] || null;
-      return Object.values(all);
     }
   },
 
-  getConfidenceHistory: async (userId: string) => {
-    if (isFirebaseConfigured) {
-      const q = query(collection(db, `users/${userId}/confidence`), orderBy("date", "desc"), limit(7));
-      const snap = await getDocs(q);
-      return snap.docs.map(d => ({ date: d.data().date, score: d.data().score }));
+  // DATA - SHARING
+  // Returns the invite code to hand to the observer
+  createInvite: async (student: AuthUser, email?: string) => {
+    const code = generateInviteCode();
+    const now = Date.now();
+    await backend.set(INVITES, code, {
+      studentId: student.uid,
+      studentName: student.displayName || student.email || 'A student',
+      email: email?.trim().toLowerCase() || null,
+      createdAt: new Date(now),
+      expiresAt: new Date(now + INVITE_TTL_DAYS * 86400000),
+      acceptedBy: null
+    });
+    return code;
+  },
+
+  // Unused invites, newest first
+  getInvites: async (userId: string): Promise<Invite[]> => {
+    const invites = await backend.list(INVITES, { where: [['studentId', '==', userId]] }) as Invite[];
+    return invites.filter(i => !i.acceptedBy).sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  deleteInvite: async (code: string) => {
+    await backend.remove(INVITES, code);
+  },
+
+  getObservers: async (userId: string): Promise<ObserverGrant[]> => {
+    return await backend.list(userPath(userId, 'observers'), { orderBy: { field: 'grantedAt', direction: 'asc' } }) as ObserverGrant[];
+  },
+
+  // Takes effect on the observer's next read; their dashboard then shows the access as revoked
+  revokeObserver: async (userId: string, observerId: string) => {
+    await backend.remove(userPath(userId, 'observers'), observerId);
+  },
+
+  // Checked here as well as in the security rules, since a rejected queued write would only fail later
+  acceptInvite: async (observer: AuthUser, codeText: string) => {
+    const code = normalizeCode(codeText);
+    const invite = code ? await backend.get(INVITES, code) as Invite | null : null;
+    const problem = inviteProblem(invite, observer);
+    if (problem) throw new Error(problem);
+
+    // The rules only accept the grant together with the claim on the code
+    await backend.batch([
+      {
+        op: 'set', path: userPath(invite!.studentId, 'observers'), id: observer.uid, data: {
+          name: observer.displayName || observer.email || 'Observer',
+          email: observer.email,
+          inviteCode: code,
+          grantedAt: new Date()
+        }
+      },
+      { op: 'update', path: INVITES, id: code, data: { acceptedBy: observer.uid } }
+    ]);
+    await backend.set(userPath(observer.uid, 'observing'), invite!.studentId, { studentName: invite!.studentName, since: new Date() });
+    return invite!.studentName;
+  },
+
+  getObservedStudents: async (userId: string): Promise<ObservedStudent[]> => {
+    return await backend.list(userPath(userId, 'observing'), { orderBy: { field: 'since', direction: 'asc' } }) as ObservedStudent[];
+  },
+
+  // Drops the student from this observer's list and gives up the grant
+  stopObserving: async (userId: string, studentId: string) => {
+    await backend.remove(userPath(studentId, 'observers'), userId);
+    await backend.remove(userPath(userId, 'observing'), studentId);
+  },
+
+  // Everything an observer sees for one student; rejects once access is revoked
+  getStudentProgress: async (studentId: string, today: string, days = 14) => {
+    const from = addDays(today, -(days - 1));
+    const [summaries, goals, confidence, mockTests] = await Promise.all([
+      api.getDailySummaries(studentId, from, today),
+      backend.list(userPath(studentId, 'dailyGoals'), { where: [['date', '==', today]] }) as Promise<DailyGoal[]>,
+      api.getConfidenceEntries(studentId, from, today),
+      api.getMockTests(studentId)
+    ]);
+    return { summaries, goals: goals.filter(g => !isAbandoned(g)), confidence, mockTests };
+  },
+
+  // DATA - GROUPS
+  getMyGroups: async (userId: string): Promise<MyGroup[]> => {
+    return await backend.list(userPath(userId, 'groups'), { orderBy: { field: 'joinedAt', direction: 'asc' } }) as MyGroup[];
+  },
+
+  // Returns the new group's id
+  createGroup: async (user: AuthUser, name: string) => {
+    const code = generateInviteCode();
+    const groupId = await backend.add(GROUPS, { name, code, ownerId: user.uid, createdAt: new Date() });
+    await backend.set(GROUP_CODES, code, { groupId, name });
+    await joinAs(user, groupId, name, code);
+    return groupId;
+  },
+
+  // Returns the group's name
+  joinGroup: async (user: AuthUser, codeText: string) => {
+    const code = normalizeCode(codeText);
+    const entry = code ? await backend.get(GROUP_CODES, code) : null;
+    if (!entry) throw new Error('No group uses that code. Check it with whoever shared it.');
+    if (await backend.get(userPath(user.uid, 'groups'), entry.groupId)) throw new Error(`You're already in ${entry.name}.`);
+    await joinAs(user, entry.groupId, entry.name, code);
+    return entry.name as string;
+  },
+
+  leaveGroup: async (userId: string, groupId: string) => {
+    await backend.remove(groupPath(groupId, 'members'), userId);
+    await backend.remove(userPath(userId, 'groups'), groupId);
+  },
+
+  getGroup: async (groupId: string) => {
+    return await backend.get(GROUPS, groupId) as StudyGroup | null;
+  },
+
+  subscribeGroupMembers: (groupId: string, callback: (members: GroupMember[]) => void) => {
+    return backend.subscribe(groupPath(groupId, 'members'), {}, docs => callback(docs as GroupMember[]));
+  },
+
+  subscribeGroupChallenges: (groupId: string, callback: (challenges: GroupChallenge[]) => void) => {
+    return backend.subscribe(groupPath(groupId, 'challenges'), { orderBy: { field: 'dueDate', direction: 'asc' } }, docs =>
+      callback(docs as GroupChallenge[])
+    );
+  },
+
+  // Opting out clears the shared totals rather than leaving a stale week behind
+  setShareStats: async (userId: string, groupId: string, share: boolean) => {
+    if (share) {
+      await backend.update(groupPath(groupId, 'members'), userId, { shareStats: true });
+      await publishGroupStats(userId);
     } else {
-      const all = JSON.parse(localStorage.getItem(`confidence_${userId}`) || '{}');
-      return Object.entries(all)
-        .map(([date, score]) => ({ date, score: score as number }))
-        .sort((a, b) => b.date.localeCompare(a.date))
-        .slice(0, 7);
+      await backend.update(groupPath(groupId, 'members'), userId, { shareStats: false, weekStart: null, weekMinutes: null, weekGoalsCompleted: null });
+    }
+  },
+
+  addChallenge: async (userId: string, groupId: string, challenge: Pick<GroupChallenge, 'title' | 'subject' | 'dueDate'>) => {
+    await backend.add(groupPath(groupId, 'challenges'), { ...challenge, createdBy: userId, createdAt: new Date() });
+  },
+
+  deleteChallenge: async (groupId: string, challengeId: string) => {
+    await backend.remove(groupPath(groupId, 'challenges'), challengeId);
+  },
+
+  setChallengeDone: async (userId: string, groupId: string, challengeId: string, done: boolean) => {
+    const member = await backend.get(groupPath(groupId, 'members'), userId) as GroupMember | null;
+    if (!member) return;
+    const others = (member.completedChallenges || []).filter(id => id !== challengeId);
+    await backend.update(groupPath(groupId, 'members'), userId, { completedChallenges: done ? [...others, challengeId] : others });
+  },
+
+  // Puts the challenge on today's list; ticking that goal off completes the challenge
+  addChallengeGoal: async (userId: string, groupId: string, challenge: GroupChallenge) => {
+    return await api.addGoal(userId, {
+      userId,
+      date: studyToday(),
+      title: challenge.title,
+      subject: challenge.subject,
+      targetHours: 1,
+      completed: false,
+      priority: Priority.High,
+      groupChallenge: { groupId, challengeId: challenge.id! }
+    });
+  },
+
+  // Demo backend only: a classmate with made-up totals, so the leaderboard can be tried on one device
+  addSimulatedMember: async (groupId: string) => {
+    const [members, challenges] = await Promise.all([
+      backend.list(groupPath(groupId, 'members')) as Promise<GroupMember[]>,
+      backend.list(groupPath(groupId, 'challenges')) as Promise<GroupChallenge[]>
+    ]);
+    const member = simulatedMember(members.map(m => m.name), studyToday(), challenges.map(c => c.id!));
+    await backend.add(groupPath(groupId, 'members'), { ...member, joinedAt: new Date(member.joinedAt) });
+  },
+
+  // DATA - REPORTS
+  // Everything a weekly or monthly report covers, with the streak as of `today`
+  getReport: async (user: AuthUser, range: ReportRange, today = studyToday()) => {
+    // Recurring goals for the rest of the period count as still open, like goals from a plan
+    if (range.end > today) {
+      const created = await materializeOccurrences(user.uid, range.end, await backend.list(userPath(user.uid, 'dailyGoals')) as DailyGoal[]);
+      if (created.length > 0) await refreshDailySummaries(user.uid, created.map(g => g.date));
     }
+    const [summaries, settings, goals, confidence, mockTests, exams] = await Promise.all([
+      api.getDailySummaries(user.uid),
+      api.getSettings(user.uid),
+      backend.list(userPath(user.uid, 'dailyGoals'), { where: [['date', '>=', range.start], ['date', '<=', range.end]] }) as Promise<DailyGoal[]>,
+      api.getConfidenceEntries(user.uid, range.start, range.end),
+      api.getMockTests(user.uid),
+      api.getExams(user.uid)
+    ]);
+    const streak = computeStreak(summaries, { ...DEFAULT_STREAK_SETTINGS, ...settings.streak }, today);
+    return buildReport(range, { summaries, goals, confidence, mockTests, exams, streak }, user.displayName || user.email || 'Student', today);
+  },
+
+  // DATA - SYLLABUS
+  getChapters: async (userId: string, subject?: string): Promise<Chapter[]> => {
+    await seedChapters(userId);
+    return sortChapters(await backend.list(userPath(userId, 'chapters'), subject ? { where: [['subject', '==', subject]] } : {}) as Chapter[]);
+  },
+
+  // Live catalogue; a first-time seed shows up through the listener
+  subscribeChapters: (userId: string, callback: (chapters: Chapter[]) => void) => {
+    seedChapters(userId).catch(e => console.error("Failed to seed chapters", e));
+    return backend.subscribe(userPath(userId, 'chapters'), {}, docs => callback(sortChapters(docs as Chapter[])));
+  },
+
+  // Lifetime minutes logged against each chapter, added up from the daily rollups
+  getChapterMinutes: async (userId: string): Promise<Record<string, number>> => {
+    const minutes: Record<string, number> = {};
+    (await api.getDailySummaries(userId)).forEach(summary => {
+      (Object.entries(summary.minutesByChapter || {}) as [string, number][]).forEach(([chapterId, mins]) => {
+        minutes[chapterId] = (minutes[chapterId] || 0) + mins;
+      });
+    });
+    return minutes;
+  },
+
+  addChapter: async (userId: string, chapter: Partial<Chapter>) => {
+    await backend.add(userPath(userId, 'chapters'), {
+      status: ChapterStatus.NotStarted, revisionCount: 0, pyqsSolved: false,
+      ...chapter, userId, updatedAt: new Date()
+    });
+  },
+
+  updateChapter: async (userId: string, chapterId: string, updates: Partial<Chapter>) => {
+    await backend.update(userPath(userId, 'chapters'), chapterId, { ...updates, updatedAt: new Date() });
+  },
+
+  deleteChapter: async (userId: string, chapterId: string) => {
+    await backend.remove(userPath(userId, 'chapters'), chapterId);
   }
-};
\ No newline at end of file
+};
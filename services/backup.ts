@@ -0,0 +1,177 @@
+import { Exam, StudySession } from '../types.ts';
+import { backend, userPath } from './storage';
+import { StoredDoc } from './storage/backend';
+import { runMigrations } from './migrations';
+import { rebuildDailySummaries } from './rollups';
+import { api } from './api';
+import { studyToday } from './dates';
+
+// Backups, spreadsheet and calendar exports of a user's data. A backup is one
+// JSON file holding every per-user collection, and can be imported into either
+// backend, which is how demo-mode data moves to a real account.
+
+export const BACKUP_FORMAT = 'preptracker-backup';
+export const BACKUP_VERSION = 1;
+
+// Daily summaries and XP (`progress`) are derived data and are recomputed after an import rather than backed up
+const BACKUP_COLLECTIONS = ['dailyGoals', 'goalSeries', 'studySessions', 'confidence', 'exams', 'chapters', 'mockTests', 'mistakes', 'achievements', 'settings'];
+
+// Stored as Dates, exported as epoch ms; converted back on import so Firestore keeps Timestamps
+const TIMESTAMP_FIELDS = ['startTime', 'endTime', 'createdAt', 'updatedAt'];
+
+// Device-local state that must not travel with a backup
+const SETTINGS_EXCLUDED = ['activeSession', 'schemaVersion'];
+
+// Conflict stamps written by the sync queue; they describe this account's devices, not the data
+const SYNC_FIELDS = ['fieldStamps', 'updatedBy'];
+
+const withoutFields = (doc: Record<string, any>, keys: string[]) => {
+  const copy = { ...doc };
+  keys.forEach(key => delete copy[key]);
+  return copy;
+};
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  schemaVersion: number;
+  collections: Record<string, StoredDoc[]>;
+}
+
+export const exportBackup = async (userId: string): Promise<Backup> => {
+  const collections: Record<string, StoredDoc[]> = {};
+  for (const name of BACKUP_COLLECTIONS) {
+    collections[name] = (await backend.list(userPath(userId, name))).map(doc => withoutFields(doc, SYNC_FIELDS) as StoredDoc);
+  }
+  const settings = collections.settings.find(d => d.id === 'config');
+  collections.settings = collections.settings.map(doc => withoutFields(doc, SETTINGS_EXCLUDED) as StoredDoc);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    schemaVersion: settings?.schemaVersion || 0,
+    collections
+  };
+};
+
+// Throws with a readable message when `raw` is not a backup this build can import
+export const validateBackup = (raw: any): Backup => {
+  if (!raw || typeof raw !== 'object' || raw.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a PrepTracker backup.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+  if (!raw.collections || typeof raw.collections !== 'object') {
+    throw new Error('The backup has no data.');
+  }
+  for (const [name, docs] of Object.entries(raw.collections)) {
+    if (!BACKUP_COLLECTIONS.includes(name)) throw new Error(`Unknown collection "${name}" in backup.`);
+    if (!Array.isArray(docs) || docs.some(d => !d || typeof d !== 'object' || typeof d.id !== 'string' || !d.id)) {
+      throw new Error(`The "${name}" data in this backup is damaged.`);
+    }
+  }
+  return { ...raw, schemaVersion: raw.schemaVersion || 0 } as Backup;
+};
+
+export const countBackupDocs = (backup: Backup) =>
+  Object.fromEntries(Object.entries(backup.collections).map(([name, docs]) => [name, docs.length]));
+
+// Merges a backup into the user's data: documents with the same id are overwritten, nothing is deleted
+export const importBackup = async (userId: string, backup: Backup) => {
+  let imported = 0;
+  for (const [name, docs] of Object.entries(backup.collections)) {
+    for (const { id, ...doc } of docs) {
+      // Older backups carry the sync stamps; the queue writes fresh ones for this device
+      const data = withoutFields(doc, name === 'settings' ? [...SYNC_FIELDS, ...SETTINGS_EXCLUDED] : SYNC_FIELDS);
+      // Documents follow the account they are imported into
+      if ('userId' in data) data.userId = userId;
+      TIMESTAMP_FIELDS.forEach(key => {
+        if (typeof data[key] === 'number') data[key] = new Date(data[key]);
+      });
+      await backend.set(userPath(userId, name), id, data, { merge: true });
+      imported++;
+    }
+  }
+
+  // Older backups may predate some migrations; re-run them from the backup's version
+  const settings = await backend.get(userPath(userId, 'settings'), 'config');
+  if ((settings?.schemaVersion || 0) > backup.schemaVersion) {
+    await backend.set(userPath(userId, 'settings'), 'config', { schemaVersion: backup.schemaVersion }, { merge: true });
+  }
+  await runMigrations(userId);
+  await rebuildDailySummaries(userId);
+  // Awards anything the imported history has earned and recomputes XP and level
+  await api.checkAchievements(userId);
+  return imported;
+};
+
+const csvCell = (value: any) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sessionsToCsv = (sessions: StudySession[]) => {
+  const header = ['date', 'subject', 'topic', 'start', 'end', 'duration_minutes', 'goal_id', 'chapter_id'];
+  const rows = sessions
+    .slice()
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(s => [
+      s.date,
+      s.subject,
+      s.topic,
+      new Date(s.startTime).toISOString(),
+      new Date(s.endTime).toISOString(),
+      s.durationMinutes.toFixed(1),
+      s.goalId || '',
+      s.chapterId || ''
+    ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+export const exportSessionsCsv = async (userId: string) =>
+  sessionsToCsv(await api.querySessions(userId));
+
+// Board papers run three hours
+const EXAM_DURATION = 'PT3H';
+
+const icsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/([,;])/g, '\\$1').replace(/\n/g, '\\n');
+
+const icsStamp = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+// Exam times are local wall-clock times, so they are written as floating times without a zone
+export const examsToIcs = (exams: Exam[]) => {
+  const stamp = icsStamp(Date.now());
+  const events = exams.map(exam => [
+    'BEGIN:VEVENT',
+    `UID:${exam.id || `${exam.subject}-${exam.date}`}@preptracker`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${exam.date.replace(/-/g, '')}T${(exam.startTime || '10:30').replace(':', '')}00`,
+    `DURATION:${EXAM_DURATION}`,
+    `SUMMARY:${icsText(`${exam.subject} exam`)}`,
+    `DESCRIPTION:${icsText([
+      exam.paperCode && `Paper code: ${exam.paperCode}`,
+      exam.maxMarks && `Max marks: ${exam.maxMarks}`,
+      exam.syllabusNotes
+    ].filter(Boolean).join('\n'))}`,
+    'END:VEVENT'
+  ].join('\r\n'));
+
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//PrepTracker//Exams//EN', 'CALSCALE:GREGORIAN', ...events, 'END:VCALENDAR'].join('\r\n');
+};
+
+export const exportExamsIcs = async (userId: string) =>
+  examsToIcs(await backend.list(userPath(userId, 'exams')) as Exam[]);
+
+export const backupFileName = (extension: string) => `preptracker-${studyToday()}.${extension}`;
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,59 @@
+import { ConfidenceEntry } from '../types.ts';
+
+// Confidence is logged per subject (and optionally per chapter) as 0-100.
+// The single daily score shown on the dashboard is derived from those entries.
+
+// Subject used for entries migrated from the old one-score-per-day log
+export const OVERALL_SUBJECT = 'overall';
+
+// One entry per day, subject and chapter, so re-rating replaces the earlier score
+export const confidenceId = (date: string, subject: string, chapterId?: string | null) =>
+  [date, subject.toLowerCase().replace(/[^a-z0-9]+/g, '-'), chapterId].filter(Boolean).join('_');
+
+const average = (scores: number[]) => Math.round(scores.reduce((a, b) => a + b, 0) / scores.length);
+
+// Subject -> score for one day's entries. A subject-level rating wins over its chapter ratings.
+export const subjectScores = (entries: ConfidenceEntry[]): Record<string, number> => {
+  const scores: Record<string, number> = {};
+  const bySubject = new Map<string, ConfidenceEntry[]>();
+  entries
+    .filter(e => e.subject !== OVERALL_SUBJECT)
+    .forEach(e => bySubject.set(e.subject, [...(bySubject.get(e.subject) || []), e]));
+
+  bySubject.forEach((subjectEntries, subject) => {
+    const direct = subjectEntries.find(e => !e.chapterId);
+    scores[subject] = direct ? direct.score : average(subjectEntries.map(e => e.score));
+  });
+  return scores;
+};
+
+// The day's overall score: the mean of its subjects, or a migrated overall score when nothing else was logged
+export const dailyScore = (entries: ConfidenceEntry[]): number | null => {
+  const scores = Object.values(subjectScores(entries));
+  if (scores.length > 0) return average(scores);
+  const overall = entries.find(e => e.subject === OVERALL_SUBJECT);
+  return overall ? overall.score : null;
+};
+
+// Derived daily scores, newest first
+export const dailyScores = (entries: ConfidenceEntry[]): { date: string, score: number }[] => {
+  const byDate = new Map<string, ConfidenceEntry[]>();
+  entries.forEach(e => byDate.set(e.date, [...(byDate.get(e.date) || []), e]));
+  return Array.from(byDate.entries())
+    .map(([date, dayEntries]) => ({ date, score: dailyScore(dayEntries) }))
+    .filter((d): d is { date: string, score: number } => d.score !== null)
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Each subject's most recent score, e.g. to seed the study planner
+export const latestSubjectScores = (entries: ConfidenceEntry[]): Record<string, number> => {
+  const latest: Record<string, { date: string, score: number }> = {};
+  const byDate = new Map<string, ConfidenceEntry[]>();
+  entries.forEach(e => byDate.set(e.date, [...(byDate.get(e.date) || []), e]));
+  byDate.forEach((dayEntries, date) => {
+    Object.entries(subjectScores(dayEntries)).forEach(([subject, score]) => {
+      if (!latest[subject] || latest[subject].date < date) latest[subject] = { date, score };
+    });
+  });
+  return Object.fromEntries(Object.entries(latest).map(([subject, { score }]) => [subject, score]));
+};
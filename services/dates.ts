@@ -0,0 +1,64 @@
+// Study-day handling. Dates are stored as "YYYY-MM-DD" in the student's local
+// timezone, and the day only turns over at `dayStartHour` so a session at 1 AM
+// can still count towards the evening before.
+
+export const DEFAULT_DAY_START_HOUR = 0;
+
+let dayStartHour = DEFAULT_DAY_START_HOUR;
+
+// Loaded from UserSettings once the user signs in
+export const setDayStartHour = (hour: number) => {
+  dayStartHour = hour;
+};
+
+export const getDayStartHour = () => dayStartHour;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Local calendar date of a moment, ignoring dayStartHour
+export const toDateString = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+// The study day a moment belongs to
+export const studyDate = (at: number | Date = Date.now()) => {
+  const d = new Date(typeof at === 'number' ? at : at.getTime());
+  d.setHours(d.getHours() - dayStartHour);
+  return toDateString(d);
+};
+
+export const studyToday = () => studyDate();
+
+// Epoch ms for a wall-clock time on a study day; times before dayStartHour fall on the next calendar day
+export const timeOnStudyDay = (date: string, time: string) => {
+  const d = new Date(`${date}T${time}`);
+  if (d.getHours() < dayStartHour) d.setDate(d.getDate() + 1);
+  return d.getTime();
+};
+
+// Calendar arithmetic on YYYY-MM-DD strings, done in UTC so DST never shifts a day
+export const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const addDays = (date: string, days: number) => {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / 86400000);
+
+// 0 = Sunday
+export const weekdayOf = (date: string) => parseDate(date).getUTCDay();
+
+// Weeks run Monday to Sunday
+export const weekStartOf = (date: string) => addDays(date, -((weekdayOf(date) + 6) % 7));
+
+// Formats a stored date without letting the browser's timezone move it a day
+export const formatDate = (date: string, options: Intl.DateTimeFormatOptions, locale = 'en-US') =>
+  parseDate(date).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+
+// "4 AM" style label for the day-start picker
+export const formatHour = (hour: number) =>
+  hour === 0 ? 'Midnight' : `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
@@ -0,0 +1,19 @@
+import { Exam, ExamPreset } from '../types.ts';
+import { daysBetween, formatDate, studyToday } from './dates';
+
+// Whole days from today until the exam date (0 on the day of the paper, negative once it has passed)
+export const daysUntil = (isoDate: string) => daysBetween(studyToday(), isoDate);
+
+export const getUpcomingExams = (exams: Exam[]) =>
+  exams
+    .map(e => ({ ...e, daysLeft: daysUntil(e.date) }))
+    .filter(e => e.daysLeft >= 0)
+    .sort((a, b) => a.daysLeft - b.daysLeft || a.startTime.localeCompare(b.startTime));
+
+// True once every paper in a built-in timetable is before `today`
+export const isPresetPast = (preset: ExamPreset, today = studyToday()) =>
+  preset.exams.every(e => e.date < today);
+
+// "17 Feb 2026"
+export const formatExamDate = (isoDate: string) =>
+  formatDate(isoDate, { day: 'numeric', month: 'short', year: 'numeric' }, 'en-GB');
@@ -0,0 +1,69 @@
+import { DailySummary, GroupMember } from '../types.ts';
+import { weekStartOf, weekdayOf } from './dates';
+
+// Study groups: members share only their weekly totals (and only if they opt
+// in), group challenges are ticked off per member on their own member entry,
+// and a join code maps to the group through `groupCodes/{code}`.
+
+export const GROUPS = 'groups';
+export const GROUP_CODES = 'groupCodes';
+
+export const groupPath = (groupId: string, name: string) => `${GROUPS}/${groupId}/${name}`;
+
+export const weekTotals = (summaries: DailySummary[], today: string) => {
+  const start = weekStartOf(today);
+  const week = summaries.filter(s => s.date >= start && s.date <= today);
+  return {
+    weekStart: start,
+    weekMinutes: Math.round(week.reduce((sum, s) => sum + s.totalMinutes, 0)),
+    weekGoalsCompleted: week.reduce((sum, s) => sum + s.goalsCompleted, 0)
+  };
+};
+
+export interface LeaderboardRow {
+  member: GroupMember;
+  hours: number;
+  goals: number;
+  rank: number;
+}
+
+// Opted-in members ranked by hours this week, then goals; totals from an earlier week count as zero
+export const leaderboard = (members: GroupMember[], today: string): LeaderboardRow[] => {
+  const start = weekStartOf(today);
+  const rows = members
+    .filter(m => m.shareStats)
+    .map(m => {
+      const current = m.weekStart === start;
+      return {
+        member: m,
+        hours: current ? Math.round(((m.weekMinutes || 0) / 60) * 10) / 10 : 0,
+        goals: current ? m.weekGoalsCompleted || 0 : 0,
+        rank: 0
+      };
+    })
+    .sort((a, b) => b.hours - a.hours || b.goals - a.goals);
+  rows.forEach((row, i) => {
+    const prev = rows[i - 1];
+    row.rank = prev && prev.hours === row.hours && prev.goals === row.goals ? prev.rank : i + 1;
+  });
+  return rows;
+};
+
+const SIMULATED_NAMES = ['Aarav', 'Diya', 'Kabir', 'Ishita', 'Vihaan', 'Ananya', 'Reyansh', 'Meera', 'Arjun', 'Saanvi'];
+
+// Demo-mode stand-in with plausible weekly totals, for trying groups out on one device
+export const simulatedMember = (taken: string[], today: string, challengeIds: string[]): Omit<GroupMember, 'id'> => {
+  const free = SIMULATED_NAMES.filter(n => !taken.includes(n));
+  const name = free.length > 0 ? free[Math.floor(Math.random() * free.length)] : `Student ${taken.length + 1}`;
+  const daysIn = ((weekdayOf(today) + 6) % 7) + 1;
+  return {
+    name,
+    joinedAt: Date.now(),
+    shareStats: Math.random() > 0.15,
+    weekStart: weekStartOf(today),
+    weekMinutes: Math.round(daysIn * (30 + Math.random() * 150)),
+    weekGoalsCompleted: Math.floor(daysIn * Math.random() * 3),
+    completedChallenges: challengeIds.filter(() => Math.random() > 0.5),
+    simulated: true
+  };
+};
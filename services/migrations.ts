@@ -0,0 +1,65 @@
+import { DailyGoal, StudySession } from '../types.ts';
+import { backend, userPath } from './storage';
+import { rebuildDailySummaries } from './rollups';
+import { OVERALL_SUBJECT, confidenceId } from './confidence';
+
+// Per-user data migrations. Each runs once, in order, and the highest applied
+// version is recorded as `schemaVersion` on the user's settings document.
+
+interface Migration {
+  version: number;
+  description: string;
+  run: (userId: string) => Promise<void>;
+}
+
+// Sessions used to be tied to goals only by subject + title. Link each one to the
+// goal it most likely belonged to: the latest matching goal dated on or before it.
+const backfillSessionGoalIds = async (userId: string) => {
+  const goals = await backend.list(userPath(userId, 'dailyGoals')) as DailyGoal[];
+  const sessions = await backend.list(userPath(userId, 'studySessions')) as StudySession[];
+
+  for (const session of sessions) {
+    if (session.goalId !== undefined) continue;
+
+    const candidates = goals
+      .filter(g => g.subject === session.subject && g.title === session.topic)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    const match = candidates.find(g => g.date <= session.date) || candidates[candidates.length - 1];
+
+    await backend.update(userPath(userId, 'studySessions'), session.id!, { goalId: match ? match.id : null });
+  }
+};
+
+// Confidence used to be one `{ date, score }` document per day, keyed by date.
+// Each becomes that day's "overall" entry in the per-subject log.
+const splitDailyConfidence = async (userId: string) => {
+  const entries = await backend.list(userPath(userId, 'confidence'));
+  for (const entry of entries.filter(e => !e.subject)) {
+    await backend.set(userPath(userId, 'confidence'), confidenceId(entry.date, OVERALL_SUBJECT), {
+      date: entry.date,
+      subject: OVERALL_SUBJECT,
+      chapterId: null,
+      score: entry.score
+    });
+    await backend.remove(userPath(userId, 'confidence'), entry.id);
+  }
+};
+
+const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Link study sessions to goals by id', run: backfillSessionGoalIds },
+  { version: 2, description: 'Build daily summaries from existing data', run: rebuildDailySummaries },
+  { version: 3, description: 'Move daily confidence scores into the per-subject log', run: splitDailyConfidence },
+  { version: 4, description: 'Add per-chapter minutes to daily summaries', run: rebuildDailySummaries }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = async (userId: string) => {
+  const settings = await backend.get(userPath(userId, 'settings'), 'config');
+  const applied: number = settings?.schemaVersion || 0;
+
+  for (const migration of MIGRATIONS.filter(m => m.version > applied)) {
+    await migration.run(userId);
+    await backend.set(userPath(userId, 'settings'), 'config', { schemaVersion: migration.version }, { merge: true });
+  }
+};
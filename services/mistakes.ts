@@ -0,0 +1,49 @@
+import { Chapter, DailyGoal, Mistake, MistakeType, Priority } from '../types.ts';
+
+// Error-log helpers: labels, and turning unresolved mistakes into goals to
+// re-attempt them, one goal per chapter (or per subject for mistakes without one).
+
+export const MISTAKE_TYPE_LABELS: Record<MistakeType, string> = {
+  calculation: 'Calculation',
+  concept: 'Concept gap',
+  reading: 'Misread question',
+  time: 'Ran out of time'
+};
+
+export const MISTAKE_TYPE_STYLES: Record<MistakeType, string> = {
+  calculation: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-200',
+  concept: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-200',
+  reading: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200',
+  time: 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-200'
+};
+
+const MINUTES_PER_MISTAKE = 15;
+
+// Unresolved mistakes not already waiting on an open re-attempt goal
+export const needsReattempt = (mistakes: Mistake[], goals: DailyGoal[]) => {
+  const openGoalIds = new Set(goals.filter(g => !g.completed).map(g => g.id));
+  return mistakes.filter(m => !m.resolved && !(m.reattemptGoalId && openGoalIds.has(m.reattemptGoalId)));
+};
+
+export const buildReattemptGoals = (mistakes: Mistake[], chapters: Chapter[], date: string): Partial<DailyGoal>[] => {
+  const groups = new Map<string, Mistake[]>();
+  mistakes.forEach(m => {
+    const key = m.chapterId || m.subject;
+    groups.set(key, [...(groups.get(key) || []), m]);
+  });
+
+  return [...groups.values()].map(group => {
+    const { subject, chapterId } = group[0];
+    const chapter = chapterId ? chapters.find(c => c.id === chapterId) : null;
+    return {
+      date,
+      subject,
+      chapterId: chapterId || null,
+      title: `Re-attempt ${group.length} mistake${group.length === 1 ? '' : 's'}: ${chapter ? chapter.name : subject}`,
+      targetHours: Math.max(0.5, Math.ceil((group.length * MINUTES_PER_MISTAKE) / 30) / 2),
+      // Concept gaps tend to resurface in the paper, so they come first
+      priority: group.some(m => m.type === 'concept') ? Priority.High : Priority.Medium,
+      mistakeIds: group.map(m => m.id!)
+    };
+  });
+};
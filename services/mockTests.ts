@@ -0,0 +1,59 @@
+import { MockTest, MockTestSection, MockTestSource } from '../types.ts';
+
+// Scoring helpers for mock tests and practice papers, and the board percentage
+// projected from them.
+
+export const SOURCE_LABELS: Record<MockTestSource, string> = {
+  sample: 'Sample paper',
+  pyq: 'Previous year paper',
+  mock: 'Mock test',
+  other: 'Other'
+};
+
+// Tests per subject that feed the projection, most recent first, with falling weights
+const PROJECTION_WEIGHTS = [3, 2, 1];
+// Board percentages are computed over the best five subjects
+const BEST_OF = 5;
+
+export const testPercent = (test: Pick<MockTest, 'marksObtained' | 'maxMarks'>) =>
+  test.maxMarks > 0 ? Math.round((test.marksObtained / test.maxMarks) * 1000) / 10 : 0;
+
+// Returns a readable problem with the entered marks, or null when they add up
+export const validateMockTest = (test: Pick<MockTest, 'marksObtained' | 'maxMarks' | 'sections'>): string | null => {
+  if (!(test.maxMarks > 0)) return 'Maximum marks must be more than zero.';
+  if (test.marksObtained < 0 || test.marksObtained > test.maxMarks) return 'Marks obtained must be between 0 and the maximum.';
+  const bad = test.sections.find((s: MockTestSection) => s.maxMarks <= 0 || s.marksObtained < 0 || s.marksObtained > s.maxMarks);
+  if (bad) return `Check the marks for "${bad.name || 'a section'}".`;
+  if (test.sections.reduce((sum, s) => sum + s.maxMarks, 0) > test.maxMarks) return 'Section maximums add up to more than the paper.';
+  return null;
+};
+
+export interface BoardProjection {
+  bySubject: Record<string, number>; // Projected percentage per subject
+  overall: number | null; // Mean of the best five subjects
+  subjectsCounted: string[];
+}
+
+// Weighted average of each subject's most recent tests, recent ones counting more
+export const projectBoardPercentage = (tests: MockTest[]): BoardProjection => {
+  const bySubject: Record<string, number> = {};
+  const grouped = new Map<string, MockTest[]>();
+  tests.forEach(t => grouped.set(t.subject, [...(grouped.get(t.subject) || []), t]));
+
+  grouped.forEach((subjectTests, subject) => {
+    const recent = subjectTests
+      .slice()
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt)
+      .slice(0, PROJECTION_WEIGHTS.length);
+    const weightSum = recent.reduce((sum, _, i) => sum + PROJECTION_WEIGHTS[i], 0);
+    const weighted = recent.reduce((sum, t, i) => sum + testPercent(t) * PROJECTION_WEIGHTS[i], 0);
+    bySubject[subject] = Math.round((weighted / weightSum) * 10) / 10;
+  });
+
+  const best = Object.entries(bySubject).sort((a, b) => b[1] - a[1]).slice(0, BEST_OF);
+  return {
+    bySubject,
+    overall: best.length > 0 ? Math.round((best.reduce((sum, [, pct]) => sum + pct, 0) / best.length) * 10) / 10 : null,
+    subjectsCounted: best.map(([subject]) => subject)
+  };
+};
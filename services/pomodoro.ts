@@ -0,0 +1,67 @@
+import { PomodoroPreset } from '../types.ts';
+
+export type PomodoroPhase = 'focus' | 'shortBreak' | 'longBreak';
+
+export const DEFAULT_POMODORO: PomodoroPreset = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4
+};
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  focus: 'Focus',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break'
+};
+
+export const phaseMinutes = (phase: PomodoroPhase, preset: PomodoroPreset) =>
+  phase === 'focus' ? preset.focusMinutes : phase === 'shortBreak' ? preset.shortBreakMinutes : preset.longBreakMinutes;
+
+// After a focus block comes a break (long every N blocks); after any break comes focus
+export const nextPhase = (phase: PomodoroPhase, completedFocusBlocks: number, preset: PomodoroPreset): PomodoroPhase => {
+  if (phase !== 'focus') return 'focus';
+  return completedFocusBlocks > 0 && completedFocusBlocks % Math.max(1, preset.cyclesBeforeLongBreak) === 0
+    ? 'longBreak'
+    : 'shortBreak';
+};
+
+// Older Safari only has the prefixed constructor
+type PrefixedAudioWindow = Window & { webkitAudioContext: typeof AudioContext };
+
+// Short three-note chime; silently does nothing where Web Audio is unavailable
+export const playChime = () => {
+  try {
+    const AudioCtx = window.AudioContext
+      || ('webkitAudioContext' in window ? (window as PrefixedAudioWindow).webkitAudioContext : undefined);
+    if (!AudioCtx) return;
+    const ctx = new AudioCtx();
+    [660, 880, 990].forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = freq;
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      const start = ctx.currentTime + i * 0.2;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+      osc.start(start);
+      osc.stop(start + 0.4);
+    });
+    setTimeout(() => ctx.close(), 1500);
+  } catch (e) {
+    console.warn("Chime unavailable", e);
+  }
+};
+
+// System notification when the tab is in the background and permission was granted
+export const notify = (title: string, body: string) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || !document.hidden) return;
+  new Notification(title, { body, icon: '/logo.jpg' });
+};
+
+export const requestNotificationPermission = () => {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => { });
+  }
+};
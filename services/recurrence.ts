@@ -0,0 +1,72 @@
+import { RecurrenceRule } from '../types.ts';
+import { addDays, daysBetween, weekdayOf } from './dates';
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Whether the weekly/interval pattern lands on `date`, ignoring start/end bounds
+const matchesPattern = (rule: RecurrenceRule, date: string) => {
+  const weekday = weekdayOf(date);
+  switch (rule.frequency) {
+    case 'daily': return true;
+    case 'weekdays': return weekday >= 1 && weekday <= 5;
+    case 'weekly': return (rule.daysOfWeek || []).includes(weekday);
+    case 'interval': return daysBetween(rule.startDate, date) % Math.max(1, rule.interval || 1) === 0;
+  }
+};
+
+// 1-based position of `date` among the rule's occurrences (0 if it is not one)
+const occurrenceNumber = (rule: RecurrenceRule, date: string) => {
+  if (date < rule.startDate || !matchesPattern(rule, date)) return 0;
+  let n = 0;
+  for (let d = rule.startDate; d <= date; d = addDays(d, 1)) {
+    if (matchesPattern(rule, d)) n++;
+  }
+  return n;
+};
+
+export const occursOn = (rule: RecurrenceRule, date: string) => {
+  if (date < rule.startDate) return false;
+  if (rule.endDate && date > rule.endDate) return false;
+  if (!matchesPattern(rule, date)) return false;
+  if (rule.count) return occurrenceNumber(rule, date) <= rule.count;
+  return true;
+};
+
+// Every occurrence in [from, to] except `skippedDates`, oldest first
+export const occurrencesBetween = (rule: RecurrenceRule, from: string, to: string, skippedDates: string[] = []) => {
+  const dates: string[] = [];
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to;
+  let n = 0;
+  for (let d = rule.startDate; d <= last; d = addDays(d, 1)) {
+    if (!matchesPattern(rule, d)) continue;
+    if (rule.count && ++n > rule.count) break;
+    if (d >= from && !skippedDates.includes(d)) dates.push(d);
+  }
+  return dates;
+};
+
+// Next occurrence on or after `from`, skipping `skippedDates`; null once the series has ended
+export const nextOccurrence = (rule: RecurrenceRule, from: string, skippedDates: string[] = []) => {
+  let d = from < rule.startDate ? rule.startDate : from;
+  // A year is enough to find the next hit of any pattern we support
+  for (let i = 0; i < 366; i++, d = addDays(d, 1)) {
+    if (rule.endDate && d > rule.endDate) return null;
+    if (occursOn(rule, d) && !skippedDates.includes(d)) return d;
+    if (rule.count && occurrenceNumber(rule, d) >= rule.count) return null;
+  }
+  return null;
+};
+
+// "Every weekday until 2026-02-10", "Sun, Wed · 5 times"
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  let text = '';
+  switch (rule.frequency) {
+    case 'daily': text = 'Every day'; break;
+    case 'weekdays': text = 'Every weekday'; break;
+    case 'weekly': text = (rule.daysOfWeek || []).slice().sort().map(d => WEEKDAY_NAMES[d]).join(', ') || 'Weekly'; break;
+    case 'interval': text = `Every ${rule.interval || 1} days`; break;
+  }
+  if (rule.endDate) text += ` until ${rule.endDate}`;
+  if (rule.count) text += ` · ${rule.count} times`;
+  return text;
+};
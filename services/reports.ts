@@ -0,0 +1,221 @@
+import { ConfidenceEntry, DailyGoal, DailySummary, Exam, MockTest } from '../types.ts';
+import { addDays, daysBetween, formatDate, weekStartOf } from './dates';
+import { dailyScores } from './confidence';
+import { SOURCE_LABELS, projectBoardPercentage, testPercent } from './mockTests';
+import { StreakState } from './streaks';
+import { isAbandoned } from './rollover';
+
+// Weekly and monthly progress reports for parents: one summary of a period
+// built from the same rollups, goals, ratings and tests the Analytics page
+// reads, rendered on screen for printing or saved as a standalone HTML file.
+
+export type ReportPeriod = 'week' | 'month';
+
+export interface ReportRange {
+  period: ReportPeriod;
+  start: string; // Inclusive YYYY-MM-DD
+  end: string; // Inclusive YYYY-MM-DD
+  label: string;
+}
+
+export interface SubjectHours {
+  subject: string;
+  hours: number;
+  targetHours: number; // Sum of the period's goal targets for the subject
+}
+
+export interface ReportGoals {
+  set: number; // Abandoned goals are not counted as set
+  completed: number; // Done on or before the day they were set for
+  rolledOver: number; // Carried past their day and done later
+  missed: number; // Day has passed and still not done
+  open: number; // Set for today or later in the period
+  abandoned: number;
+}
+
+export interface ProgressReport {
+  range: ReportRange;
+  studentName: string;
+  generatedOn: string;
+  totalHours: number;
+  studyDays: number;
+  daysElapsed: number;
+  subjects: SubjectHours[];
+  goals: ReportGoals;
+  confidence: { date: string, score: number }[]; // Oldest first
+  confidenceChange: number | null;
+  streak: { current: number; longest: number; atPeriodEnd: number; qualifiedDays: number; missedDays: number };
+  mockTests: { date: string, subject: string, source: string, percent: number }[];
+  projectedPercent: number | null;
+  exams: { subject: string, date: string, daysLeft: number }[];
+}
+
+export interface ReportData {
+  summaries: DailySummary[];
+  goals: DailyGoal[];
+  confidence: ConfidenceEntry[];
+  mockTests: MockTest[];
+  exams: Exam[];
+  streak: StreakState | null;
+}
+
+const hours = (minutes: number) => Math.round((minutes / 60) * 10) / 10;
+
+const monthEnd = (monthStart: string) => addDays(`${addDays(monthStart, 31).slice(0, 7)}-01`, -1);
+
+// The week (Monday to Sunday) or calendar month containing `anchor`
+export const reportRange = (period: ReportPeriod, anchor: string): ReportRange => {
+  if (period === 'week') {
+    const start = weekStartOf(anchor);
+    const end = addDays(start, 6);
+    return {
+      period,
+      start,
+      end,
+      label: `${formatDate(start, { day: 'numeric', month: 'short' }, 'en-GB')} – ${formatDate(end, { day: 'numeric', month: 'short', year: 'numeric' }, 'en-GB')}`
+    };
+  }
+  const start = `${anchor.slice(0, 7)}-01`;
+  return { period, start, end: monthEnd(start), label: formatDate(start, { month: 'long', year: 'numeric' }, 'en-GB') };
+};
+
+export const shiftRange = (range: ReportRange, step: 1 | -1) =>
+  reportRange(range.period, step > 0 ? addDays(range.end, 1) : addDays(range.start, -1));
+
+export const buildReport = (range: ReportRange, data: ReportData, studentName: string, today: string): ProgressReport => {
+  const inRange = (date: string) => date >= range.start && date <= range.end;
+  const lastDay = range.end < today ? range.end : today;
+
+  const summaries = data.summaries.filter(s => inRange(s.date));
+  const minutesBySubject: Record<string, number> = {};
+  summaries.forEach(s => {
+    (Object.entries(s.minutesBySubject) as [string, number][]).forEach(([subject, mins]) => {
+      minutesBySubject[subject] = (minutesBySubject[subject] || 0) + mins;
+    });
+  });
+
+  const abandoned = data.goals.filter(g => inRange(g.date) && isAbandoned(g));
+  const goals = data.goals.filter(g => inRange(g.date) && !isAbandoned(g));
+  const targetBySubject: Record<string, number> = {};
+  goals.forEach(g => { targetBySubject[g.subject] = (targetBySubject[g.subject] || 0) + (g.targetHours || 0); });
+  const subjects = Array.from(new Set([...Object.keys(minutesBySubject), ...Object.keys(targetBySubject)]))
+    .map(subject => ({
+      subject,
+      hours: hours(minutesBySubject[subject] || 0),
+      targetHours: Math.round((targetBySubject[subject] || 0) * 10) / 10
+    }))
+    .sort((a, b) => b.hours - a.hours || b.targetHours - a.targetHours);
+
+  const goalCounts: ReportGoals = { set: goals.length, completed: 0, rolledOver: 0, missed: 0, open: 0, abandoned: abandoned.length };
+  goals.forEach(g => {
+    if (g.completed) {
+      if ((g.completedAt || g.date) <= g.date) goalCounts.completed++;
+      else goalCounts.rolledOver++;
+    } else if (g.date < today) {
+      goalCounts.missed++;
+    } else {
+      goalCounts.open++;
+    }
+  });
+
+  const confidence = dailyScores(data.confidence.filter(c => inRange(c.date))).reverse();
+
+  const streakDays = (data.streak?.days || []).filter(d => inRange(d.date));
+  const endDay = streakDays.filter(d => d.date <= lastDay).pop();
+
+  const mockTests = data.mockTests
+    .filter(t => inRange(t.date))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(t => ({ date: t.date, subject: t.subject, source: SOURCE_LABELS[t.source] || t.source, percent: testPercent(t) }));
+  // Projected from everything taken up to the end of the period
+  const projection = projectBoardPercentage(data.mockTests.filter(t => t.date <= range.end));
+
+  return {
+    range,
+    studentName,
+    generatedOn: today,
+    totalHours: hours(summaries.reduce((sum, s) => sum + s.totalMinutes, 0)),
+    studyDays: summaries.filter(s => s.sessionCount > 0).length,
+    daysElapsed: lastDay < range.start ? 0 : daysBetween(range.start, lastDay) + 1,
+    subjects,
+    goals: goalCounts,
+    confidence,
+    confidenceChange: confidence.length > 1 ? confidence[confidence.length - 1].score - confidence[0].score : null,
+    streak: {
+      current: data.streak?.current || 0,
+      longest: data.streak?.longest || 0,
+      atPeriodEnd: endDay?.streak || 0,
+      qualifiedDays: streakDays.filter(d => d.status === 'qualified').length,
+      missedDays: streakDays.filter(d => d.status === 'missed').length
+    },
+    mockTests,
+    projectedPercent: projection.overall,
+    exams: data.exams
+      .map(e => ({ subject: e.subject, date: e.date, daysLeft: daysBetween(today, e.date) }))
+      .filter(e => e.daysLeft >= 0)
+      .sort((a, b) => a.daysLeft - b.daysLeft)
+  };
+};
+
+// HTML export
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const shortDate = (date: string) => formatDate(date, { day: 'numeric', month: 'short' }, 'en-GB');
+
+const REPORT_CSS = `
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #111827; max-width: 800px; margin: 24px auto; padding: 0 24px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 15px; margin: 24px 0 8px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .muted { color: #6b7280; font-size: 12px; }
+  .stats { display: flex; gap: 12px; margin-top: 16px; }
+  .stat { flex: 1; border: 1px solid #e5e7eb; border-radius: 8px; padding: 8px 12px; }
+  .stat b { display: block; font-size: 20px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #f3f4f6; }
+  th { color: #6b7280; font-weight: 600; }
+  @media print { body { margin: 0; } .stat, table { break-inside: avoid; } }
+`;
+
+// Standalone page with inline styles, so the file opens and prints anywhere
+export const reportToHtml = (report: ProgressReport) => {
+  const { goals, streak } = report;
+  const rows = (cells: string[][]) => cells.map(row => `<tr>${row.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('');
+  const table = (head: string[], body: string[][], empty: string) => body.length === 0
+    ? `<p class="muted">${escapeHtml(empty)}</p>`
+    : `<table><thead><tr>${head.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${rows(body)}</tbody></table>`;
+  const stat = (label: string, value: string) => `<div class="stat"><span class="muted">${escapeHtml(label)}</span><b>${escapeHtml(value)}</b></div>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${report.studentName} – ${report.range.label}`)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.studentName)}'s ${report.range.period === 'week' ? 'weekly' : 'monthly'} report</h1>
+<div class="muted">${escapeHtml(report.range.label)} · generated ${escapeHtml(shortDate(report.generatedOn))}</div>
+<div class="stats">
+${stat('Study time', `${report.totalHours}h`)}
+${stat('Study days', `${report.studyDays}/${report.daysElapsed}`)}
+${stat('Goals done', `${goals.completed + goals.rolledOver}/${goals.set}`)}
+${stat('Current streak', `${streak.current} days`)}
+</div>
+<h2>Hours by subject</h2>
+${table(['Subject', 'Studied', 'Goal target'], report.subjects.map(s => [s.subject, `${s.hours}h`, s.targetHours > 0 ? `${s.targetHours}h` : '–']), 'No study logged in this period.')}
+<h2>Goals</h2>
+${table(['Completed on time', 'Rolled over, done later', 'Missed', 'Still open', 'Abandoned'], goals.set + goals.abandoned > 0 ? [[goals.completed, goals.rolledOver, goals.missed, goals.open, goals.abandoned].map(String)] : [], 'No goals set in this period.')}
+<h2>Confidence</h2>
+${report.confidence.length === 0 ? '<p class="muted">No check-ins in this period.</p>' : `<p>${report.confidence.map(c => `${escapeHtml(shortDate(c.date))}: ${c.score}%`).join(' · ')}</p>${report.confidenceChange !== null ? `<p class="muted">Change over the period: ${report.confidenceChange > 0 ? '+' : ''}${report.confidenceChange} points</p>` : ''}`}
+<h2>Streak</h2>
+<p>${streak.qualifiedDays} qualifying day${streak.qualifiedDays === 1 ? '' : 's'}, ${streak.missedDays} missed · ${streak.atPeriodEnd} days at the end of the period · longest ever ${streak.longest}</p>
+<h2>Mock tests</h2>
+${table(['Date', 'Subject', 'Paper', 'Score'], report.mockTests.map(t => [shortDate(t.date), t.subject, t.source, `${t.percent}%`]), 'No mock tests in this period.')}
+${report.projectedPercent !== null ? `<p class="muted">Projected board percentage: ${report.projectedPercent}%</p>` : ''}
+<h2>Exam countdown</h2>
+${table(['Subject', 'Date', 'Days left'], report.exams.map(e => [e.subject, formatDate(e.date, { day: 'numeric', month: 'short', year: 'numeric' }, 'en-GB'), String(e.daysLeft)]), 'No upcoming exams.')}
+</body>
+</html>`;
+};
@@ -0,0 +1,66 @@
+import { DailyGoal, Exam, Priority, RecallRating, RevisionSettings } from '../types.ts';
+import { addDays } from './dates';
+
+// Spaced-repetition planning for revision goals. Finishing a goal schedules its
+// first revision; finishing a revision schedules the next one, stretched or
+// shrunk by how well the student recalled it. Every revision lands before the
+// subject's exam.
+
+export const DEFAULT_REVISION_INTERVALS = [1, 3, 7, 21];
+
+export const DEFAULT_REVISION_SETTINGS: RevisionSettings = {
+  enabled: false,
+  intervals: DEFAULT_REVISION_INTERVALS,
+  subjectIntervals: {}
+};
+
+const RATING_FACTOR: Record<RecallRating, number> = { easy: 1.5, ok: 1, hard: 0.5 };
+
+// Revision ids are deterministic so re-ticking a goal never schedules a duplicate
+export const revisionId = (rootId: string, step: number) => `${rootId}_rev${step}`;
+
+export const intervalsFor = (settings: RevisionSettings, subject: string) => {
+  const custom = settings.subjectIntervals?.[subject];
+  return custom && custom.length > 0 ? custom : settings.intervals;
+};
+
+// "1, 3, 7, 21" -> [1, 3, 7, 21]; null when the text is not a list of positive whole days
+export const parseIntervals = (text: string): number[] | null => {
+  const parts = text.split(',').map(p => p.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+  const days = parts.map(Number);
+  return days.every(d => Number.isInteger(d) && d > 0) ? days : null;
+};
+
+// The earliest exam for `subject` after `date`
+export const nextExamFor = (exams: Exam[], subject: string, date: string) =>
+  exams
+    .filter(e => e.subject === subject && e.date > date)
+    .sort((a, b) => a.date.localeCompare(b.date))[0] || null;
+
+// Date of revision `step` (1-based) when the previous one was finished on `doneOn`.
+// Returns null once the schedule is exhausted or no day is left before the exam.
+export const nextRevisionDate = (intervals: number[], step: number, doneOn: string, rating: RecallRating, examDate?: string) => {
+  const base = intervals[step - 1];
+  if (!base) return null;
+  const days = Math.max(1, Math.round(base * RATING_FACTOR[rating]));
+  let date = addDays(doneOn, days);
+  if (examDate && date >= examDate) date = addDays(examDate, -1);
+  return date > doneOn ? date : null;
+};
+
+export const buildRevisionGoal = (root: DailyGoal, step: number, date: string): DailyGoal => ({
+  id: revisionId(root.id!, step),
+  userId: root.userId,
+  date,
+  title: `Revise: ${root.title}`,
+  subject: root.subject,
+  // Revisiting is quicker than first-time study
+  targetHours: Math.max(0.5, Math.ceil(root.targetHours) / 2),
+  completed: false,
+  priority: Priority.Medium,
+  chapterId: root.chapterId || null,
+  revisionOf: root.id,
+  revisionStep: step,
+  createdAt: Date.now()
+});
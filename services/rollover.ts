@@ -0,0 +1,61 @@
+import { DailyGoal, RolloverSettings } from '../types.ts';
+import { addDays, daysBetween } from './dates';
+
+// Which goals follow the student onto later days. An unfinished goal past its
+// date is overdue; the rollover policy decides how long it keeps showing up,
+// and triage in the Planner reschedules, splits, trims or abandons it.
+
+// Matches the behaviour before rollover was configurable
+export const DEFAULT_ROLLOVER_SETTINGS: RolloverSettings = { mode: 'always', days: 3 };
+
+// Smallest target a split or lowered goal is given, in hours
+const MIN_TARGET_HOURS = 0.25;
+
+export const isAbandoned = (g: DailyGoal) => !!g.abandonedAt;
+
+export const isOverdue = (g: DailyGoal, today: string) => g.date < today && !g.completed && !isAbandoned(g);
+
+const rollsOver = (g: DailyGoal, date: string, settings: RolloverSettings) =>
+  settings.mode === 'always' || (settings.mode === 'days' && daysBetween(g.date, date) <= settings.days);
+
+// Goals shown for `date`: that day's goals, incomplete ones rolled over from earlier days
+// as the policy allows, and earlier goals that were completed on `date`. Abandoned goals never show.
+export const isVisibleOn = (g: DailyGoal, date: string, settings: RolloverSettings) => {
+  if (isAbandoned(g)) return false;
+  const isToday = g.date === date;
+  const isPastIncomplete = g.date < date && !g.completed && rollsOver(g, date, settings);
+  // Completed goals from the past stay visible ONLY if they were completed today
+  const isPastCompletedToday = g.date < date && g.completed && g.completedAt === date;
+
+  return isToday || isPastIncomplete || isPastCompletedToday;
+};
+
+export const describeRollover = (settings: RolloverSettings) =>
+  settings.mode === 'always' ? 'Unfinished goals roll over until you finish or abandon them'
+    : settings.mode === 'never' ? 'Unfinished goals stay on their own day; find them under overdue goals in the Planner'
+      : `Unfinished goals roll over for ${settings.days} day${settings.days === 1 ? '' : 's'}, then wait under overdue goals in the Planner`;
+
+const roundTarget = (hours: number) => Math.max(MIN_TARGET_HOURS, Math.round(hours * 4) / 4);
+
+export const lowerTarget = (targetHours: number, fraction: number) => roundTarget(targetHours * fraction);
+
+// Spreads a goal's target over `parts` goals on consecutive days from `startDate`. The
+// first part stays the same goal, so sessions already logged against it keep counting.
+export const splitGoal = (goal: DailyGoal, parts: number, startDate: string) => {
+  const baseTitle = goal.title.replace(/ \(\d+\/\d+\)$/, '');
+  const targetHours = roundTarget(goal.targetHours / parts);
+  const originalDate = goal.originalDate || goal.date;
+  const first: Partial<DailyGoal> = { title: `${baseTitle} (1/${parts})`, date: startDate, originalDate, targetHours };
+  const rest: Partial<DailyGoal>[] = Array.from({ length: parts - 1 }, (_, i) => ({
+    userId: goal.userId,
+    date: addDays(startDate, i + 1),
+    originalDate,
+    title: `${baseTitle} (${i + 2}/${parts})`,
+    subject: goal.subject,
+    chapterId: goal.chapterId || null,
+    targetHours,
+    priority: goal.priority,
+    completed: false
+  }));
+  return { first, rest };
+};
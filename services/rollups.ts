@@ -0,0 +1,109 @@
+import { ConfidenceEntry, DailyGoal, DailySummary, StudySession } from '../types.ts';
+import { backend, userPath } from './storage';
+import { dailyScore } from './confidence';
+import { isEarlyStart } from './sessions';
+import { isAbandoned } from './rollover';
+
+// Per-day rollups of a user's study data, one `dailySummaries` document per
+// study date. They are recomputed from the source documents whenever anything
+// on that day changes, so they can never drift from the sessions they summarize.
+
+const SUMMARIES = 'dailySummaries';
+
+export const buildDailySummary = (
+  userId: string,
+  date: string,
+  sessions: StudySession[],
+  goals: DailyGoal[],
+  goalsById: Map<string, DailyGoal>,
+  confidence: number | null
+): DailySummary => {
+  const minutesBySubject: Record<string, number> = {};
+  const minutesByChapter: Record<string, number> = {};
+  const topicsBySubject: Record<string, string[]> = {};
+  const topicKeys = new Set<string>();
+
+  sessions.forEach(s => {
+    // Linked sessions follow the goal's current title, so renames don't split a topic
+    const goal = s.goalId ? goalsById.get(s.goalId) : undefined;
+    const topic = goal ? goal.title : s.topic;
+
+    minutesBySubject[s.subject] = (minutesBySubject[s.subject] || 0) + s.durationMinutes;
+    if (s.chapterId) minutesByChapter[s.chapterId] = (minutesByChapter[s.chapterId] || 0) + s.durationMinutes;
+    topicsBySubject[s.subject] = topicsBySubject[s.subject] || [];
+    if (!topicsBySubject[s.subject].includes(topic)) topicsBySubject[s.subject].push(topic);
+    topicKeys.add(goal ? `goal-${goal.id}` : `${s.subject}-${s.topic}`);
+  });
+
+  return {
+    id: date,
+    userId,
+    date,
+    totalMinutes: sessions.reduce((sum, s) => sum + s.durationMinutes, 0),
+    sessionCount: sessions.length,
+    minutesBySubject,
+    minutesByChapter,
+    topicsBySubject,
+    topicKeys: Array.from(topicKeys),
+    // Abandoned goals stay in history without counting as set
+    goalsSet: goals.filter(g => !isAbandoned(g)).length,
+    goalsCompleted: goals.filter(g => g.completed && !isAbandoned(g)).length,
+    confidence,
+    earlyStarts: sessions.filter(s => isEarlyStart(s.startTime)).length,
+    updatedAt: Date.now()
+  };
+};
+
+const isEmpty = (summary: DailySummary) => summary.sessionCount === 0 && summary.goalsSet === 0 && summary.confidence === null;
+
+const writeSummary = async (userId: string, summary: DailySummary) => {
+  const { id, ...data } = summary;
+  if (isEmpty(summary)) await backend.remove(userPath(userId, SUMMARIES), id!);
+  else await backend.set(userPath(userId, SUMMARIES), id!, { ...data, updatedAt: new Date(data.updatedAt) });
+};
+
+// Recomputes the rollup for each given date; call after any write that touches those days
+export const refreshDailySummaries = async (userId: string, dates: (string | undefined | null)[]) => {
+  for (const date of new Set(dates.filter(Boolean) as string[])) {
+    const sessions = await backend.list(userPath(userId, 'studySessions'), { where: [['date', '==', date]] }) as StudySession[];
+    const goals = await backend.list(userPath(userId, 'dailyGoals'), { where: [['date', '==', date]] }) as DailyGoal[];
+    const confidence = await backend.list(userPath(userId, 'confidence'), { where: [['date', '==', date]] }) as ConfidenceEntry[];
+
+    // Sessions can count towards goals set on earlier days
+    const goalsById = new Map(goals.map(g => [g.id!, g]));
+    for (const goalId of new Set(sessions.map(s => s.goalId).filter(Boolean) as string[])) {
+      if (goalsById.has(goalId)) continue;
+      const goal = await backend.get(userPath(userId, 'dailyGoals'), goalId) as DailyGoal | null;
+      if (goal) goalsById.set(goalId, goal);
+    }
+
+    await writeSummary(userId, buildDailySummary(userId, date, sessions, goals, goalsById, dailyScore(confidence)));
+  }
+};
+
+// Rebuilds every rollup from scratch, e.g. for data that predates them or after an import
+export const rebuildDailySummaries = async (userId: string) => {
+  const sessions = await backend.list(userPath(userId, 'studySessions')) as StudySession[];
+  const goals = await backend.list(userPath(userId, 'dailyGoals')) as DailyGoal[];
+  const confidence = await backend.list(userPath(userId, 'confidence')) as ConfidenceEntry[];
+  const existing = await backend.list(userPath(userId, SUMMARIES));
+
+  const goalsById = new Map(goals.map(g => [g.id!, g]));
+  const dates = new Set([...sessions.map(s => s.date), ...goals.map(g => g.date), ...confidence.map(c => c.date)]);
+
+  for (const date of dates) {
+    await writeSummary(userId, buildDailySummary(
+      userId,
+      date,
+      sessions.filter(s => s.date === date),
+      goals.filter(g => g.date === date),
+      goalsById,
+      dailyScore(confidence.filter(c => c.date === date))
+    ));
+  }
+
+  // Drop rollups for days that no longer have any data
+  for (const summary of existing.filter(s => !dates.has(s.id))) {
+    await backend.remove(userPath(userId, SUMMARIES), summary.id);
+  }
+};
@@ -0,0 +1,17 @@
+import { StudySession } from '../types.ts';
+
+// The first existing session that shares any time with [start, end), if one does
+export const findOverlap = (sessions: StudySession[], start: number, end: number) =>
+  sessions.find(s => start < s.endTime && end > s.startTime) || null;
+
+// Sessions started between 4 and 7 AM count as early-bird study
+const EARLY_BIRD_FROM_HOUR = 4;
+const EARLY_BIRD_TO_HOUR = 7;
+
+export const isEarlyStart = (startTime: number) => {
+  const hour = new Date(startTime).getHours();
+  return hour >= EARLY_BIRD_FROM_HOUR && hour < EARLY_BIRD_TO_HOUR;
+};
+
+export const formatClock = (ms: number) =>
+  new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,34 @@
+import { Invite } from '../types.ts';
+import { AuthUser } from './storage/backend';
+
+// Read-only sharing with parents and tutors. A student creates a one-time
+// invite code, optionally locked to the observer's email; accepting it records
+// the observer under the student (which the security rules check on every read)
+// and the student under the observer (which drives their dashboard).
+
+export const INVITES = 'invites';
+export const INVITE_TTL_DAYS = 7;
+
+// Collections an observer may read; must match firestore.rules
+export const OBSERVABLE_COLLECTIONS = ['dailyGoals', 'studySessions', 'confidence', 'mockTests', 'dailySummaries'];
+
+// No 0/O or 1/I, so codes survive being read out over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export const generateInviteCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+};
+
+export const normalizeCode = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Why `user` can't accept `invite`, or null when they can
+export const inviteProblem = (invite: Invite | null, user: AuthUser, now = Date.now()): string | null => {
+  if (!invite) return 'That code does not exist. Check it with the student.';
+  if (invite.studentId === user.uid) return "That's your own invite. Share it with a parent or tutor instead.";
+  if (invite.acceptedBy) return 'That code has already been used. Ask the student for a new one.';
+  if (invite.expiresAt <= now) return 'That code has expired. Ask the student for a new one.';
+  if (invite.email && invite.email !== (user.email || '').toLowerCase()) return `That code is for ${invite.email}. Sign in with that account to accept it.`;
+  return null;
+};
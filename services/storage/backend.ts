@@ -0,0 +1,97 @@
+// Storage backend contract shared by every persistence implementation.
+//
+// Backends are deliberately dumb document stores: all domain logic (rollover
+// rules, sorting, derived fields) lives in `services/api.ts` so that every
+// backend behaves identically. A new backend (IndexedDB, REST server, ...)
+// only has to implement the primitives below.
+//
+// Value conventions every backend must follow:
+// - `Date` values are persisted as the backend's native timestamp type and
+//   are ALWAYS read back as epoch milliseconds (number).
+// - Documents are read back as plain objects with their `id` merged in.
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+}
+
+export type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+export type WhereClause = [field: string, op: WhereOp, value: unknown];
+
+export interface QueryOptions {
+  where?: WhereClause[];
+  orderBy?: { field: string; direction?: 'asc' | 'desc' };
+  limit?: number;
+}
+
+export type StoredDoc = { id: string } & Record<string, any>;
+
+export type BatchWrite =
+  | { op: 'set'; path: string; id: string; data: Record<string, any>; merge?: boolean }
+  | { op: 'update'; path: string; id: string; data: Record<string, any> };
+
+export interface StorageBackend {
+  readonly name: 'firestore' | 'local' | string;
+
+  // AUTH
+  onAuthStateChanged: (callback: (user: AuthUser | null) => void) => () => void;
+  signIn: (email: string, pass: string) => Promise<void>;
+  signUp: (email: string, pass: string, name: string) => Promise<AuthUser>;
+  signOut: () => Promise<void>;
+
+  // DOCUMENTS - `path` is a collection path such as `users/{uid}/dailyGoals`
+  list: (path: string, options?: QueryOptions) => Promise<StoredDoc[]>;
+  get: (path: string, id: string) => Promise<StoredDoc | null>;
+  add: (path: string, data: Record<string, any>) => Promise<string>;
+  set: (path: string, id: string, data: Record<string, any>, options?: { merge?: boolean }) => Promise<void>;
+  // Writes the document only if none with this id exists yet; an existing one is left untouched
+  create: (path: string, id: string, data: Record<string, any>) => Promise<void>;
+  update: (path: string, id: string, updates: Record<string, any>) => Promise<void>;
+  remove: (path: string, id: string) => Promise<void>;
+  // Applies every write or none of them
+  batch: (writes: BatchWrite[]) => Promise<void>;
+
+  // LIVE QUERIES - calls back with the current results now and after every change,
+  // including changes made from other tabs or devices. Returns an unsubscribe function.
+  subscribe: (path: string, options: QueryOptions, callback: (docs: StoredDoc[]) => void) => () => void;
+}
+
+// Shared query evaluation for backends without a native query engine.
+const compareValues = (a: any, b: any) => {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const matchesClause = (doc: StoredDoc, [field, op, value]: WhereClause) => {
+  const v = doc[field];
+  switch (op) {
+    case '==': return v === value;
+    case '!=': return v !== value && v !== undefined;
+    case '<': return v !== undefined && compareValues(v, value) < 0;
+    case '<=': return v !== undefined && compareValues(v, value) <= 0;
+    case '>': return v !== undefined && compareValues(v, value) > 0;
+    case '>=': return v !== undefined && compareValues(v, value) >= 0;
+    case 'in': return Array.isArray(value) && value.includes(v);
+  }
+};
+
+export const applyQuery = (docs: StoredDoc[], options: QueryOptions = {}): StoredDoc[] => {
+  let result = docs.filter(d => (options.where || []).every(clause => matchesClause(d, clause)));
+
+  if (options.orderBy) {
+    const { field, direction = 'asc' } = options.orderBy;
+    // Like Firestore, ordering by a field excludes documents that lack it
+    result = result.filter(d => d[field] !== undefined);
+    result.sort((a, b) => {
+      const cmp = compareValues(a[field], b[field]);
+      return direction === 'desc' ? -cmp : cmp;
+    });
+  }
+
+  if (options.limit !== undefined) result = result.slice(0, options.limit);
+  return result;
+};
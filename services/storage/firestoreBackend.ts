@@ -0,0 +1,113 @@
+import {
+  Firestore, collection, addDoc, getDocs, getDoc, query, where, orderBy, limit, updateDoc, doc, setDoc, deleteDoc,
+  onSnapshot, runTransaction, writeBatch, Timestamp, QueryConstraint
+} from 'firebase/firestore';
+import {
+  Auth, User, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut, onAuthStateChanged, updateProfile
+} from 'firebase/auth';
+import { AuthUser, QueryOptions, StorageBackend, StoredDoc } from './backend';
+
+const toAuthUser = (user: User | null): AuthUser | null =>
+  user ? { uid: user.uid, email: user.email, displayName: user.displayName } : null;
+
+// Date -> Timestamp on the way in
+const serialize = (data: Record<string, any>) => {
+  const out: Record<string, any> = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) return; // Firestore rejects undefined fields
+    out[key] = value instanceof Date ? Timestamp.fromDate(value) : value;
+  });
+  return out;
+};
+
+// Timestamp -> epoch ms on the way out
+const deserialize = (id: string, data: Record<string, any>): StoredDoc => {
+  const out: StoredDoc = { id };
+  Object.entries(data).forEach(([key, value]) => {
+    out[key] = value instanceof Timestamp ? value.toMillis() : value;
+  });
+  return out;
+};
+
+const buildQuery = (db: Firestore, path: string, options: QueryOptions = {}) => {
+  const constraints: QueryConstraint[] = [];
+  (options.where || []).forEach(([field, op, value]) => {
+    constraints.push(where(field, op, value instanceof Date ? Timestamp.fromDate(value) : value));
+  });
+  if (options.orderBy) constraints.push(orderBy(options.orderBy.field, options.orderBy.direction || 'asc'));
+  if (options.limit !== undefined) constraints.push(limit(options.limit));
+  return query(collection(db, path), ...constraints);
+};
+
+export const createFirestoreBackend = (db: Firestore, auth: Auth): StorageBackend => ({
+  name: 'firestore',
+
+  // AUTH
+  onAuthStateChanged: (callback) => onAuthStateChanged(auth, (user) => callback(toAuthUser(user))),
+
+  signIn: async (email, pass) => {
+    await signInWithEmailAndPassword(auth, email, pass);
+  },
+
+  signUp: async (email, pass, name) => {
+    const cred = await createUserWithEmailAndPassword(auth, email, pass);
+    if (name) await updateProfile(cred.user, { displayName: name });
+    return toAuthUser(cred.user)!;
+  },
+
+  signOut: async () => {
+    await signOut(auth);
+  },
+
+  // DOCUMENTS
+  list: async (path, options = {}) => {
+    const snap = await getDocs(buildQuery(db, path, options));
+    return snap.docs.map(d => deserialize(d.id, d.data()));
+  },
+
+  get: async (path, id) => {
+    const snap = await getDoc(doc(db, path, id));
+    return snap.exists() ? deserialize(snap.id, snap.data()) : null;
+  },
+
+  add: async (path, data) => {
+    const ref = await addDoc(collection(db, path), serialize(data));
+    return ref.id;
+  },
+
+  set: async (path, id, data, options = {}) => {
+    await setDoc(doc(db, path, id), serialize(data), { merge: !!options.merge });
+  },
+
+  create: async (path, id, data) => {
+    const ref = doc(db, path, id);
+    await runTransaction(db, async (t) => {
+      if (!(await t.get(ref)).exists()) t.set(ref, serialize(data));
+    });
+  },
+
+  update: async (path, id, updates) => {
+    await updateDoc(doc(db, path, id), serialize(updates));
+  },
+
+  remove: async (path, id) => {
+    await deleteDoc(doc(db, path, id));
+  },
+
+  batch: async (writes) => {
+    const batch = writeBatch(db);
+    writes.forEach(w => {
+      const ref = doc(db, w.path, w.id);
+      if (w.op === 'update') batch.update(ref, serialize(w.data));
+      else batch.set(ref, serialize(w.data), { merge: !!w.merge });
+    });
+    await batch.commit();
+  },
+
+  subscribe: (path, options, callback) =>
+    onSnapshot(
+      buildQuery(db, path, options),
+      (snap) => callback(snap.docs.map(d => deserialize(d.id, d.data()))),
+      (error) => console.error(`Live query on ${path} failed`, error)
+    )
+});
@@ -0,0 +1,16 @@
+import { db, auth } from '../../firebase';
+import { StorageBackend } from './backend';
+import { createFirestoreBackend } from './firestoreBackend';
+import { createLocalBackend } from './localBackend';
+import { QueuedBackend, createQueuedBackend } from './queuedBackend';
+
+// Check if Firebase is configured with real keys
+const isFirebaseConfigured = auth && auth.app.options.apiKey !== "YOUR_API_KEY_HERE";
+
+// Backend is selected once at startup; everything built on top of it is backend-agnostic.
+// All writes go through the offline queue whichever backend is in use.
+const baseBackend: StorageBackend = isFirebaseConfigured ? createFirestoreBackend(db, auth) : createLocalBackend();
+
+export const backend: QueuedBackend = createQueuedBackend(baseBackend);
+
+export const userPath = (userId: string, name: string) => `users/${userId}/${name}`;
@@ -0,0 +1,235 @@
+import { AuthUser, StorageBackend, StoredDoc, applyQuery } from './backend';
+import { DailyGoal, StudySession, Subject, Priority } from '../../types.ts';
+import { EXAM_PRESETS } from '../../constants.ts';
+import { addDays, studyToday } from '../dates';
+
+// --- MOCK DATA STORE ---
+// Demo-mode backend that keeps every collection as a JSON array in localStorage.
+const MOCK_DELAY = 400; // Simulate network latency
+
+// Keys predating the backend abstraction are kept so existing demo data survives
+const LEGACY_KEYS: Record<string, string> = {
+  dailyGoals: 'goals',
+  studySessions: 'sessions'
+};
+
+// `users/{uid}/dailyGoals` -> `goals_{uid}`, anything else -> `store_{path}`
+const storageKey = (path: string) => {
+  const parts = path.split('/');
+  if (parts.length === 3 && parts[0] === 'users') {
+    const name = parts[2];
+    return `${LEGACY_KEYS[name] || name}_${parts[1]}`;
+  }
+  return `store_${parts.join('_')}`;
+};
+
+// Older demo builds stored `confidence` as a { date: score } map and `settings`
+// as a single object; both are read as document arrays and rewritten on save.
+const normalize = (path: string, raw: any): StoredDoc[] => {
+  if (Array.isArray(raw)) return raw;
+  if (!raw || typeof raw !== 'object') return [];
+  if (path.endsWith('/settings')) return [{ id: 'config', ...raw }];
+  return Object.entries(raw).map(([key, value]) =>
+    value && typeof value === 'object'
+      ? { id: key, ...(value as object) }
+      : { id: key, date: key, score: value }
+  );
+};
+
+const readCollection = (path: string): StoredDoc[] =>
+  normalize(path, JSON.parse(localStorage.getItem(storageKey(path)) || 'null'));
+
+// Live-query listeners by storage key. Writes in this tab notify them directly;
+// writes in other tabs arrive through the browser's `storage` event.
+const listeners = new Map<string, Set<() => void>>();
+
+const notify = (key: string) => {
+  listeners.get(key)?.forEach(listener => listener());
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key) notify(e.key);
+  });
+}
+
+const writeCollection = (path: string, docs: StoredDoc[]) => {
+  localStorage.setItem(storageKey(path), JSON.stringify(docs));
+  notify(storageKey(path));
+};
+
+// Date -> epoch ms, mirroring how Firestore Timestamps are read back
+const serialize = (data: Record<string, any>) => {
+  const out: Record<string, any> = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) return;
+    out[key] = value instanceof Date ? value.getTime() : value;
+  });
+  return out;
+};
+
+const setDocument = (path: string, id: string, data: Record<string, any>, merge?: boolean) => {
+  const all = readCollection(path);
+  const idx = all.findIndex(d => d.id === id);
+  const next = { ...(merge && idx !== -1 ? all[idx] : {}), ...serialize(data), id };
+  if (idx === -1) all.push(next);
+  else all[idx] = next;
+  writeCollection(path, all);
+};
+
+// Same contract as Firestore's updateDoc: the document must exist
+const missingDocument = (path: string, id: string) =>
+  Object.assign(new Error(`No document to update: ${path}/${id}`), { code: 'not-found' });
+
+const updateDocument = (path: string, id: string, updates: Record<string, any>) => {
+  const all = readCollection(path);
+  const idx = all.findIndex(d => d.id === id);
+  if (idx === -1) throw missingDocument(path, id);
+  all[idx] = { ...all[idx], ...serialize(updates) };
+  writeCollection(path, all);
+};
+
+const generateId = (path: string) => {
+  const name = path.split('/').pop() || 'd';
+  return `${name.charAt(0)}_${Date.now()}${Math.random().toString(36).slice(2, 6)}`;
+};
+
+const delay = () => new Promise(r => setTimeout(r, MOCK_DELAY));
+
+let currentMockUser: AuthUser | null = JSON.parse(localStorage.getItem('mock_user') || 'null');
+
+// Helper to seed data for Demo Account
+const seedMockData = (uid: string) => {
+  if (localStorage.getItem(`goals_${uid}`)) return;
+
+  const today = studyToday();
+  const yesterday = addDays(today, -1);
+
+  const initialGoals: DailyGoal[] = [
+    {
+      id: 'g1', userId: uid, date: today, title: 'Science - Electricity Numericals',
+      subject: Subject.Science, targetHours: 2, completed: false, priority: Priority.High, createdAt: Date.now()
+    },
+    {
+      id: 'g2', userId: uid, date: today, title: 'Maths - Quadratic Equations',
+      subject: Subject.Maths, targetHours: 1.5, completed: true, priority: Priority.Medium, createdAt: Date.now()
+    },
+    {
+      id: 'g3', userId: uid, date: yesterday, title: 'SST - Nationalism in Europe',
+      subject: Subject.SST, targetHours: 1, completed: false, priority: Priority.High, createdAt: Date.now()
+    }
+  ];
+
+  const initialSessions: StudySession[] = [
+    {
+      id: 's1', userId: uid, date: today, subject: Subject.Maths, topic: 'Quadratic Eq Ex 4.1', goalId: 'g2',
+      startTime: Date.now() - 3600000, endTime: Date.now(), durationMinutes: 60
+    },
+    {
+      id: 's2', userId: uid, date: yesterday, subject: Subject.Science, topic: 'Ohm Law', goalId: null,
+      startTime: Date.now() - 90000000, endTime: Date.now() - 86400000, durationMinutes: 120
+    }
+  ];
+
+  const initialExams = EXAM_PRESETS[0].exams.map((exam, idx) => ({ ...exam, id: `e${idx + 1}`, userId: uid }));
+
+  localStorage.setItem(`goals_${uid}`, JSON.stringify(initialGoals));
+  localStorage.setItem(`sessions_${uid}`, JSON.stringify(initialSessions));
+  localStorage.setItem(`exams_${uid}`, JSON.stringify(initialExams));
+  localStorage.setItem(`settings_${uid}`, JSON.stringify([{ id: 'config', motivationNote: "I will top the boards!" }]));
+};
+
+export const createLocalBackend = (): StorageBackend => ({
+  name: 'local',
+
+  // AUTH
+  onAuthStateChanged: (callback) => {
+    callback(currentMockUser);
+    // Return dummy unsubscribe
+    return () => { };
+  },
+
+  signIn: async (email, pass) => {
+    if (email === 'satyam@demo.com' && pass === 'demo123') {
+      currentMockUser = { uid: 'demo-satyam', email, displayName: 'Satyam' };
+      localStorage.setItem('mock_user', JSON.stringify(currentMockUser));
+      seedMockData('demo-satyam');
+      window.location.reload(); // Force refresh to trigger auth state
+    } else {
+      throw new Error('Invalid demo credentials. Use satyam@demo.com / demo123');
+    }
+  },
+
+  signUp: async (email, pass, name) => {
+    const uid = 'user_' + Date.now();
+    currentMockUser = { uid, email, displayName: name || email.split('@')[0] };
+    localStorage.setItem('mock_user', JSON.stringify(currentMockUser));
+    seedMockData(uid);
+    window.location.reload();
+    return currentMockUser;
+  },
+
+  signOut: async () => {
+    currentMockUser = null;
+    localStorage.removeItem('mock_user');
+    window.location.reload();
+  },
+
+  // DOCUMENTS
+  list: async (path, options) => {
+    await delay();
+    return applyQuery(readCollection(path), options);
+  },
+
+  get: async (path, id) => {
+    return readCollection(path).find(d => d.id === id) || null;
+  },
+
+  add: async (path, data) => {
+    const all = readCollection(path);
+    const id = generateId(path);
+    all.push({ ...serialize(data), id });
+    writeCollection(path, all);
+    return id;
+  },
+
+  set: async (path, id, data, options = {}) => {
+    setDocument(path, id, data, options.merge);
+  },
+
+  create: async (path, id, data) => {
+    const all = readCollection(path);
+    if (all.some(d => d.id === id)) return;
+    all.push({ ...serialize(data), id });
+    writeCollection(path, all);
+  },
+
+  update: async (path, id, updates) => {
+    updateDocument(path, id, updates);
+  },
+
+  remove: async (path, id) => {
+    writeCollection(path, readCollection(path).filter(d => d.id !== id));
+  },
+
+  // Nothing else runs between the writes, so checking the updates up front makes it all or nothing
+  batch: async (writes) => {
+    const missing = writes.find(w => w.op === 'update' && !readCollection(w.path).some(d => d.id === w.id));
+    if (missing) throw missingDocument(missing.path, missing.id);
+    writes.forEach(w => {
+      if (w.op === 'update') updateDocument(w.path, w.id, w.data);
+      else setDocument(w.path, w.id, w.data, w.merge);
+    });
+  },
+
+  subscribe: (path, options, callback) => {
+    const key = storageKey(path);
+    const listener = () => callback(applyQuery(readCollection(path), options));
+    if (!listeners.has(key)) listeners.set(key, new Set());
+    listeners.get(key)!.add(listener);
+    listener();
+    return () => {
+      listeners.get(key)?.delete(listener);
+    };
+  }
+});
@@ -0,0 +1,379 @@
+import { QueryOptions, StorageBackend, StoredDoc, applyQuery } from './backend';
+import { SyncStatus } from '../../types.ts';
+
+// Offline-first write queue wrapped around any backend.
+//
+// Every write is recorded in localStorage before it is sent, so a session
+// logged on patchy mobile data survives a dropped connection or a closed tab.
+// Reads see queued writes straight away. The queue drains strictly in order:
+// transient failures are retried with exponential backoff, permanent ones
+// (permissions, bad data) are dropped and reported through the sync status.
+//
+// Conflicts: planning documents carry a per-field stamp of when, and on which
+// device, each field was last written. A queued edit only overwrites fields
+// whose stored stamp is older, with the device id breaking ties, so two devices
+// that edited the same goal offline settle on the same result whichever of
+// them reconnects first.
+//
+// Each account has its own queue, and only the signed-in account's queue is
+// drained, so writes made by one user are never sent with another's credentials.
+
+const queueKey = (uid: string) => `syncQueue:${uid}`;
+// Before queues were per account; adopted by whoever signs in next
+const LEGACY_QUEUE_KEY = 'syncQueue';
+const WRITE_TIMEOUT_MS = 20000;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// Collections edited from more than one device and therefore conflict-checked
+const CONFLICT_CHECKED = ['dailyGoals', 'goalSeries', 'exams', 'chapters', 'mockTests', 'mistakes'];
+const META_FIELDS = ['updatedAt', 'updatedBy', 'fieldStamps'];
+
+// Error codes that retrying cannot fix; anything else, coded or not, is retried with backoff
+const PERMANENT_ERRORS = ['permission-denied', 'invalid-argument', 'not-found', 'already-exists', 'failed-precondition', 'out-of-range', 'unimplemented'];
+
+interface PendingWrite {
+  id: string;
+  op: 'set' | 'create' | 'update' | 'remove';
+  path: string;
+  docId: string;
+  data?: Record<string, any>; // Dates encoded as { $date: ms }
+  merge?: boolean;
+  madeAt: number;
+  deviceId: string;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export interface QueuedBackend extends StorageBackend {
+  onSyncStatusChange: (callback: (status: SyncStatus) => void) => () => void;
+  retryNow: () => void;
+}
+
+// localStorage is shared by every tab of this browser, so the id is per device
+export const DEVICE_ID = (() => {
+  const existing = localStorage.getItem('device_id');
+  if (existing) return existing;
+  const id = 'd_' + Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+  localStorage.setItem('device_id', id);
+  return id;
+})();
+
+// Same shape as Firestore's auto ids, so `add` can hand back an id before anything is sent
+const ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const newDocId = () => Array.from({ length: 20 }, () => ID_CHARS.charAt(Math.floor(Math.random() * ID_CHARS.length))).join('');
+
+const encode = (data: Record<string, any>) => {
+  const out: Record<string, any> = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) return;
+    out[key] = value instanceof Date ? { $date: value.getTime() } : value;
+  });
+  return out;
+};
+
+const isEncodedDate = (value: any) => value && typeof value === 'object' && typeof value.$date === 'number';
+
+// For sending: back to Dates so each backend stores its native timestamp
+const decodeForWrite = (data: Record<string, any> = {}) =>
+  Object.fromEntries(Object.entries(data).map(([key, value]) => [key, isEncodedDate(value) ? new Date(value.$date) : value]));
+
+// For reading: epoch ms, the backend read convention
+const decodeForRead = (data: Record<string, any> = {}) =>
+  Object.fromEntries(Object.entries(data).map(([key, value]) => [key, isEncodedDate(value) ? value.$date : value]));
+
+const readQueue = (key: string): PendingWrite[] => JSON.parse(localStorage.getItem(key) || '[]');
+
+const writeQueue = (key: string, queue: PendingWrite[]) => {
+  if (queue.length) localStorage.setItem(key, JSON.stringify(queue));
+  else localStorage.removeItem(key);
+};
+
+// Moves writes from the shared pre-account queue into `uid`'s, except ones under another user's data
+const adoptLegacyQueue = (uid: string) => {
+  const legacy = readQueue(LEGACY_QUEUE_KEY);
+  if (!legacy.length) return;
+  const isOwn = (w: PendingWrite) => !w.path.startsWith('users/') || w.path.startsWith(`users/${uid}/`);
+  writeQueue(queueKey(uid), [...legacy.filter(isOwn), ...readQueue(queueKey(uid))]);
+  writeQueue(LEGACY_QUEUE_KEY, legacy.filter(w => !isOwn(w)));
+};
+
+const collectionName = (path: string) => path.split('/').pop() || '';
+
+// Zero-padded so stamps compare correctly as strings
+const stampOf = (write: PendingWrite) => `${String(write.madeAt).padStart(13, '0')}:${write.deviceId}`;
+
+// Applies this device's queued writes on top of what the backend returned
+const overlay = (queue: PendingWrite[], path: string, docs: StoredDoc[], options?: QueryOptions) => {
+  const pending = queue.filter(w => w.path === path);
+  if (!pending.length) return docs;
+
+  const byId = new Map(docs.map(d => [d.id, d]));
+  for (const w of pending) {
+    const current = byId.get(w.docId);
+    if (w.op === 'remove') byId.delete(w.docId);
+    else if (w.op === 'update') {
+      if (current) byId.set(w.docId, { ...current, ...decodeForRead(w.data) });
+    } else if (w.op === 'create') {
+      if (!current) byId.set(w.docId, { ...decodeForRead(w.data), id: w.docId });
+    } else {
+      byId.set(w.docId, { ...(w.merge ? current : {}), ...decodeForRead(w.data), id: w.docId });
+    }
+  }
+  return applyQuery([...byId.values()], options);
+};
+
+const withTimeout = <T,>(promise: Promise<T>) => new Promise<T>((resolve, reject) => {
+  const timer = setTimeout(() => reject(Object.assign(new Error('Write timed out'), { code: 'deadline-exceeded' })), WRITE_TIMEOUT_MS);
+  promise.then(resolve, reject).finally(() => clearTimeout(timer));
+});
+
+const isPermanent = (e: any) => PERMANENT_ERRORS.includes(e?.code);
+
+const backoffMs = (attempts: number) =>
+  Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempts) * (0.75 + Math.random() / 2);
+
+export const createQueuedBackend = (inner: StorageBackend): QueuedBackend => {
+  const queueListeners = new Set<() => void>();
+  const statusListeners = new Set<(status: SyncStatus) => void>();
+  let flushing = false;
+  let lastError: string | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Signed-in account whose queue is read, written and drained; null while signed out
+  let uid: string | null = null;
+
+  const currentQueue = () => (uid ? readQueue(queueKey(uid)) : []);
+
+  const updateQueue = (change: (queue: PendingWrite[]) => PendingWrite[]) => {
+    if (uid) writeQueue(queueKey(uid), change(readQueue(queueKey(uid))));
+  };
+
+  const status = (): SyncStatus => ({
+    pending: currentQueue().length,
+    online: navigator.onLine,
+    syncing: flushing,
+    lastError
+  });
+
+  const queueChanged = () => {
+    queueListeners.forEach(listener => listener());
+    const current = status();
+    statusListeners.forEach(listener => listener(current));
+  };
+
+  const dequeue = (id: string) => {
+    updateQueue(queue => queue.filter(w => w.id !== id));
+    queueChanged();
+  };
+
+  // Turns a queued write into what should actually be sent, or null when a newer edit already won
+  const resolveConflict = async (write: PendingWrite): Promise<PendingWrite | null> => {
+    if (!CONFLICT_CHECKED.includes(collectionName(write.path))) return write;
+
+    const remote = await inner.get(write.path, write.docId);
+    const stamp = stampOf(write);
+    const remoteStamps: Record<string, string> = remote?.fieldStamps || {};
+
+    if (write.op === 'remove') {
+      // An edit made after the delete keeps the document
+      return Object.values(remoteStamps).some(s => s > stamp) ? null : write;
+    }
+    if (write.op === 'update' && !remote) return null; // Deleted on another device
+    if (write.op === 'create' && remote) return null; // Created on another device first
+
+    const kept: Record<string, any> = {};
+    const stamps = { ...remoteStamps };
+    Object.entries(write.data || {}).forEach(([field, value]) => {
+      if (META_FIELDS.includes(field) || (remoteStamps[field] || '') > stamp) return;
+      kept[field] = value;
+      stamps[field] = stamp;
+    });
+    if (!Object.keys(kept).length) return null;
+
+    return {
+      ...write,
+      // A full replace would wipe the fields the other device won
+      merge: write.merge || (write.op === 'set' && !!remote),
+      data: { ...kept, fieldStamps: stamps, updatedAt: { $date: write.madeAt }, updatedBy: write.deviceId }
+    };
+  };
+
+  const send = async (write: PendingWrite) => {
+    const resolved = await resolveConflict(write);
+    if (!resolved) return;
+    const data = decodeForWrite(resolved.data);
+    if (resolved.op === 'set') await inner.set(resolved.path, resolved.docId, data, { merge: resolved.merge });
+    else if (resolved.op === 'create') await inner.create(resolved.path, resolved.docId, data);
+    else if (resolved.op === 'update') await inner.update(resolved.path, resolved.docId, data);
+    else await inner.remove(resolved.path, resolved.docId);
+  };
+
+  const scheduleRetry = (delay: number) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => { retryTimer = null; flush(); }, delay);
+  };
+
+  const drain = async () => {
+    const owner = uid;
+    flushing = true;
+    queueChanged();
+    try {
+      // Stops as soon as the account changes; the next account's queue gets its own flush
+      while (navigator.onLine && owner && uid === owner) {
+        const next = currentQueue()[0];
+        if (!next) break;
+        if (next.nextAttemptAt > Date.now()) {
+          scheduleRetry(next.nextAttemptAt - Date.now());
+          break;
+        }
+        try {
+          await withTimeout(send(next));
+          lastError = null;
+          dequeue(next.id);
+        } catch (e: any) {
+          if (isPermanent(e)) {
+            console.error(`Dropping write to ${next.path}/${next.docId}`, e);
+            lastError = e?.message || 'A change could not be saved';
+            dequeue(next.id);
+          } else {
+            // Later writes wait behind this one so they are never applied out of order
+            const attempts = next.attempts + 1;
+            const delay = backoffMs(attempts);
+            updateQueue(queue => queue.map(w => (w.id === next.id ? { ...w, attempts, nextAttemptAt: Date.now() + delay } : w)));
+            lastError = e?.message || 'Sync failed';
+            scheduleRetry(delay);
+            break;
+          }
+        }
+      }
+    } finally {
+      flushing = false;
+      queueChanged();
+      // A sign-in during the drain could not start its own flush while this one ran
+      if (uid && uid !== owner) flush();
+    }
+  };
+
+  // One tab drains an account's queue at a time
+  const flush = () => {
+    if (flushing || !navigator.onLine || !uid) return;
+    if (navigator.locks) {
+      navigator.locks.request(`preptracker-sync:${uid}`, { ifAvailable: true }, (lock) => (lock ? drain() : undefined));
+    } else {
+      drain();
+    }
+  };
+
+  const enqueue = async (write: Omit<PendingWrite, 'id' | 'madeAt' | 'deviceId' | 'attempts' | 'nextAttemptAt'>) => {
+    const madeAt = Date.now();
+    const pending: PendingWrite = {
+      ...write,
+      id: `${madeAt.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      madeAt,
+      deviceId: DEVICE_ID,
+      attempts: 0,
+      nextAttemptAt: 0
+    };
+    // Signed out there is no account to queue for, so the write goes straight through
+    if (!uid) return send(pending);
+    updateQueue(queue => [...queue, pending]);
+    queueChanged();
+    flush();
+  };
+
+  // Skips any backoff; coming back online is a fresh start, not another failed attempt
+  const retryNow = () => {
+    updateQueue(queue => queue.map(w => ({ ...w, nextAttemptAt: 0 })));
+    queueChanged();
+    flush();
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', retryNow);
+    window.addEventListener('offline', queueChanged);
+    window.addEventListener('storage', (e) => {
+      if (!uid || e.key !== queueKey(uid)) return;
+      queueChanged();
+      flush();
+    });
+  }
+
+  // Writes left over from an earlier visit are sent once their account signs in again
+  inner.onAuthStateChanged((user) => {
+    uid = user?.uid || null;
+    if (uid) adoptLegacyQueue(uid);
+    queueChanged();
+    flush();
+  });
+
+  return {
+    name: inner.name,
+
+    // AUTH
+    onAuthStateChanged: inner.onAuthStateChanged,
+    signIn: inner.signIn,
+    signUp: inner.signUp,
+    signOut: inner.signOut,
+
+    // DOCUMENTS
+    list: async (path, options) => overlay(currentQueue(), path, await inner.list(path, options), options),
+
+    get: async (path, id) => {
+      const doc = await inner.get(path, id);
+      return overlay(currentQueue(), path, doc ? [doc] : []).find(d => d.id === id) || null;
+    },
+
+    add: async (path, data) => {
+      const docId = newDocId();
+      await enqueue({ op: 'set', path, docId, data: encode(data) });
+      return docId;
+    },
+
+    set: async (path, id, data, options = {}) => {
+      await enqueue({ op: 'set', path, docId: id, data: encode(data), merge: !!options.merge });
+    },
+
+    create: async (path, id, data) => {
+      await enqueue({ op: 'create', path, docId: id, data: encode(data) });
+    },
+
+    update: async (path, id, updates) => {
+      await enqueue({ op: 'update', path, docId: id, data: encode(updates) });
+    },
+
+    remove: async (path, id) => {
+      await enqueue({ op: 'remove', path, docId: id });
+    },
+
+    // Not queued: a batch holds writes the server only accepts together, and the caller
+    // needs to know whether it did
+    batch: (writes) => inner.batch(writes),
+
+    subscribe: (path, options, callback) => {
+      let latest: StoredDoc[] | null = null;
+      const emit = () => {
+        if (latest) callback(overlay(currentQueue(), path, latest, options));
+      };
+      const unsubInner = inner.subscribe(path, options, (docs) => {
+        latest = docs;
+        emit();
+      });
+      queueListeners.add(emit);
+      return () => {
+        unsubInner();
+        queueListeners.delete(emit);
+      };
+    },
+
+    // SYNC
+    onSyncStatusChange: (callback) => {
+      statusListeners.add(callback);
+      callback(status());
+      return () => {
+        statusListeners.delete(callback);
+      };
+    },
+
+    retryNow
+  };
+};
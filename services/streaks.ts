@@ -0,0 +1,98 @@
+import { DailySummary, StreakSettings } from '../types.ts';
+import { addDays, weekdayOf } from './dates';
+
+// Streak engine. Replays the daily rollups from the first qualifying day up to
+// today: a qualifying day extends the streak, a planned rest day holds it, and a
+// missed day spends a freeze if one has been earned, otherwise it breaks the
+// streak. Today only counts once it qualifies; until then it never breaks anything.
+
+export const DEFAULT_STREAK_SETTINGS: StreakSettings = {
+  rule: 'minutes',
+  minMinutes: 15,
+  restDays: [],
+  freezes: true
+};
+
+export const FREEZE_EVERY_DAYS = 7; // Qualifying days in a row that earn one freeze
+export const MAX_FREEZES = 2;
+
+export type StreakDayStatus = 'qualified' | 'rest' | 'frozen' | 'missed' | 'pending';
+
+export interface StreakDay {
+  date: string;
+  status: StreakDayStatus;
+  streak: number; // Streak length at the end of this day
+}
+
+export interface StreakRun {
+  start: string;
+  end: string; // Last qualifying day
+  length: number;
+}
+
+export interface StreakState {
+  current: number;
+  longest: number;
+  freezesAvailable: number;
+  qualifiedToday: boolean;
+  runs: StreakRun[]; // Every streak so far, longest first
+  days: StreakDay[]; // Oldest first
+}
+
+export const qualifies = (summary: DailySummary | undefined, settings: StreakSettings) => {
+  if (!summary) return false;
+  if (settings.rule === 'goals') return summary.goalsSet > 0 && summary.goalsCompleted === summary.goalsSet;
+  return summary.totalMinutes >= settings.minMinutes && summary.sessionCount > 0;
+};
+
+export const computeStreak = (summaries: DailySummary[], settings: StreakSettings, today: string): StreakState => {
+  const byDate = new Map(summaries.map(s => [s.date, s]));
+  const qualifyingDates = summaries.filter(s => qualifies(s, settings)).map(s => s.date).sort();
+  const state: StreakState = { current: 0, longest: 0, freezesAvailable: 0, qualifiedToday: false, runs: [], days: [] };
+  if (qualifyingDates.length === 0) return state;
+
+  let streak = 0;
+  let inARow = 0; // Qualifying days since the last miss, for earning freezes
+  let freezes = 0;
+  let run: StreakRun | null = null;
+  const closeRun = () => {
+    if (run) state.runs.push(run);
+    run = null;
+  };
+
+  for (let date = qualifyingDates[0]; date <= today; date = addDays(date, 1)) {
+    let status: StreakDayStatus;
+    if (qualifies(byDate.get(date), settings)) {
+      status = 'qualified';
+      streak++;
+      inARow++;
+      if (settings.freezes && inARow % FREEZE_EVERY_DAYS === 0) freezes = Math.min(MAX_FREEZES, freezes + 1);
+      run = run ? { ...run, end: date, length: streak } : { start: date, end: date, length: streak };
+    } else if (date === today) {
+      status = 'pending';
+    } else if (settings.restDays.includes(weekdayOf(date))) {
+      status = 'rest';
+    } else if (streak > 0 && freezes > 0) {
+      status = 'frozen';
+      freezes--;
+      inARow = 0;
+    } else {
+      status = 'missed';
+      streak = 0;
+      inARow = 0;
+      closeRun();
+    }
+    state.days.push({ date, status, streak });
+  }
+  closeRun();
+
+  state.current = streak;
+  state.freezesAvailable = freezes;
+  state.qualifiedToday = state.days[state.days.length - 1]?.status === 'qualified';
+  state.runs.sort((a, b) => b.length - a.length || b.end.localeCompare(a.end));
+  state.longest = state.runs[0]?.length || 0;
+  return state;
+};
+
+export const describeRule = (settings: StreakSettings) =>
+  settings.rule === 'goals' ? 'finish all of the day\'s goals' : `study at least ${settings.minMinutes} minutes`;
@@ -0,0 +1,109 @@
+import { Exam, Priority, Subject } from '../types.ts';
+import { addDays, daysBetween, weekdayOf } from './dates';
+
+// Planner engine: spreads the student's available hours over the days before
+// their exams. Each day favours subjects whose paper is close, whose confidence
+// is low and that have had the fewest hours so far (logged plus already
+// planned, so subjects rotate). The day before a paper is a lighter slot given
+// over to revising that subject only.
+
+export const DEFAULT_HOURS_BY_WEEKDAY = [4, 2, 2, 2, 2, 2, 4]; // Sun..Sat
+export const DEFAULT_SUBJECT_CONFIDENCE = 5; // 1-10
+export const MAX_PLAN_DAYS = 120;
+
+const MAX_SUBJECTS_PER_DAY = 3;
+const MIN_BLOCK_HOURS = 0.5;
+const EVE_LOAD = 0.6; // Share of the day's hours used the day before a paper
+const URGENT_DAYS = 7;
+
+export interface PlanInput {
+  startDate: string; // First day to plan, YYYY-MM-DD
+  days: number; // How many days to plan
+  exams: Exam[];
+  hoursByWeekday: number[]; // Study hours available, Sun..Sat
+  confidence: Record<string, number>; // Subject -> 1-10
+  loggedHours: Record<string, number>; // Subject -> hours studied so far
+}
+
+export interface PlannedGoal {
+  key: string; // Stable within one preview, for editing
+  date: string;
+  subject: Subject;
+  title: string;
+  targetHours: number;
+  priority: Priority;
+  kind: 'study' | 'revision';
+}
+
+const roundToHalf = (hours: number) => Math.round(hours * 2) / 2;
+
+// The earliest upcoming paper for each subject
+export const examsBySubject = (exams: Exam[], from: string) => {
+  const bySubject = new Map<string, Exam>();
+  exams
+    .filter(e => e.date >= from)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(e => { if (!bySubject.has(e.subject)) bySubject.set(e.subject, e); });
+  return [...bySubject.values()];
+};
+
+export const generateStudyPlan = (input: PlanInput): PlannedGoal[] => {
+  const exams = examsBySubject(input.exams, addDays(input.startDate, 1));
+  if (exams.length === 0) return [];
+
+  const lastExam = exams[exams.length - 1].date;
+  const days = Math.min(input.days, MAX_PLAN_DAYS, daysBetween(input.startDate, lastExam));
+  const hoursSoFar: Record<string, number> = { ...input.loggedHours };
+  const confidenceOf = (subject: string) => input.confidence[subject] ?? DEFAULT_SUBJECT_CONFIDENCE;
+  const plan: PlannedGoal[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const date = addDays(input.startDate, i);
+    const available = input.hoursByWeekday[weekdayOf(date)] || 0;
+    if (available <= 0 || exams.some(e => e.date === date)) continue; // Exam days are for the exam
+
+    const add = (subject: string, hours: number, kind: PlannedGoal['kind'], daysLeft: number) => {
+      plan.push({
+        key: `${date}-${subject}`,
+        date,
+        subject: subject as Subject,
+        title: kind === 'revision' ? `Final revision: ${subject}` : `${subject} (exam in ${daysLeft} days)`,
+        targetHours: hours,
+        priority: kind === 'revision' || daysLeft <= URGENT_DAYS || confidenceOf(subject) <= 4 ? Priority.High : Priority.Medium,
+        kind
+      });
+      hoursSoFar[subject] = (hoursSoFar[subject] || 0) + hours;
+    };
+
+    // The day before a paper: a lighter, revision-only day for that subject
+    const tomorrow = exams.filter(e => e.date === addDays(date, 1));
+    if (tomorrow.length > 0) {
+      const each = Math.max(MIN_BLOCK_HOURS, roundToHalf((available * EVE_LOAD) / tomorrow.length));
+      tomorrow.forEach(e => add(e.subject, each, 'revision', 1));
+      continue;
+    }
+
+    const ranked = exams
+      .filter(e => e.date > date)
+      .map(e => {
+        const daysLeft = daysBetween(date, e.date);
+        const weakness = (11 - confidenceOf(e.subject)) / 10;
+        const coverage = 1 / (1 + (hoursSoFar[e.subject] || 0) / 20);
+        return { subject: e.subject, daysLeft, weight: (weakness * coverage) / daysLeft };
+      })
+      .sort((a, b) => b.weight - a.weight);
+
+    const picked = ranked.slice(0, Math.max(1, Math.min(MAX_SUBJECTS_PER_DAY, Math.floor(available))));
+    const totalWeight = picked.reduce((sum, p) => sum + p.weight, 0);
+    let remaining = available;
+    picked.forEach((p, idx) => {
+      const share = idx === picked.length - 1 ? remaining : roundToHalf((available * p.weight) / totalWeight);
+      const hours = Math.max(MIN_BLOCK_HOURS, Math.min(remaining, share));
+      if (remaining < MIN_BLOCK_HOURS) return;
+      remaining -= hours;
+      add(p.subject, hours, 'study', p.daysLeft);
+    });
+  }
+
+  return plan;
+};
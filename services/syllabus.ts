@@ -0,0 +1,26 @@
+import { Chapter, ChapterStatus } from '../types.ts';
+
+export interface SubjectCoverage {
+  subject: string;
+  total: number;
+  done: number;
+  learning: number;
+  revised: number; // Done chapters revised at least once
+  percent: number; // Share of chapters marked Done
+}
+
+// Stable id for seeded chapters so re-running the seed never duplicates them
+export const seedChapterId = (subject: string, order: number) =>
+  `${subject.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${order}`;
+
+export const getCoverage = (chapters: Chapter[]): SubjectCoverage[] => {
+  const bySubject: Record<string, SubjectCoverage> = {};
+  chapters.forEach(c => {
+    const entry = bySubject[c.subject] || (bySubject[c.subject] = { subject: c.subject, total: 0, done: 0, learning: 0, revised: 0, percent: 0 });
+    entry.total++;
+    if (c.status === ChapterStatus.Done) entry.done++;
+    if (c.status === ChapterStatus.Learning) entry.learning++;
+    if (c.status === ChapterStatus.Done && c.revisionCount > 0) entry.revised++;
+  });
+  return Object.values(bySubject).map(e => ({ ...e, percent: e.total > 0 ? Math.round((e.done / e.total) * 100) : 0 }));
+};
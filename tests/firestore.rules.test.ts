@@ -0,0 +1,255 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment
+} from '@firebase/rules-unit-testing';
+import { Timestamp, collection, deleteDoc, doc, getDoc, getDocs, setDoc, updateDoc, writeBatch } from 'firebase/firestore';
+
+// Security rules for observer sharing and study groups, run against the
+// Firestore emulator: `npm run test:rules` starts it and runs this file. The
+// emulator needs Java 21 or newer on the PATH; firebase-tools downloads the
+// emulator itself on first use. `npm test` leaves this file out, since it
+// cannot run without the emulator.
+
+// Keep in sync with OBSERVABLE_COLLECTIONS in services/sharing.ts
+const OBSERVABLE = ['dailyGoals', 'studySessions', 'confidence', 'mockTests', 'dailySummaries'];
+
+const DAY_MS = 86400000;
+
+let env: RulesTestEnvironment;
+
+// Writes test data as an admin, bypassing the rules
+const seed = (data: Record<string, Record<string, any>>) =>
+  env.withSecurityRulesDisabled(async (ctx) => {
+    for (const [path, value] of Object.entries(data)) {
+      await setDoc(doc(ctx.firestore(), path), value);
+    }
+  });
+
+const dbAs = (uid: string, email?: string) => env.authenticatedContext(uid, email ? { email } : {}).firestore();
+
+const invite = (overrides: Record<string, any> = {}) => ({
+  studentId: 'student',
+  studentName: 'Student',
+  email: null,
+  createdAt: Timestamp.now(),
+  expiresAt: Timestamp.fromMillis(Date.now() + 7 * DAY_MS),
+  acceptedBy: null,
+  ...overrides
+});
+
+const grant = (code: string) => ({ name: 'Parent', email: null, inviteCode: code, grantedAt: Timestamp.now() });
+
+// Redeems a code the way the app does: the grant and the claim on the code in one batch
+const redeem = (db: ReturnType<typeof dbAs>, observerId: string, code: string, claimedBy = observerId) => {
+  const batch = writeBatch(db);
+  batch.set(doc(db, `users/student/observers/${observerId}`), grant(code));
+  batch.update(doc(db, `invites/${code}`), { acceptedBy: claimedBy });
+  return batch.commit();
+};
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-preptracker',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+});
+
+describe('observers', () => {
+  beforeEach(async () => {
+    await seed({
+      ...Object.fromEntries(OBSERVABLE.map(name => [`users/student/${name}/doc1`, { date: '2026-10-19' }])),
+      'users/student/settings/config': { motivationNote: 'Private' },
+      'users/student/observers/parent': grant('GOODCODE')
+    });
+  });
+
+  it('can read the shared collections', async () => {
+    const db = dbAs('parent');
+    for (const name of OBSERVABLE) {
+      await assertSucceeds(getDoc(doc(db, `users/student/${name}/doc1`)));
+      await assertSucceeds(getDocs(collection(db, `users/student/${name}`)));
+    }
+  });
+
+  it('cannot write the shared collections', async () => {
+    const db = dbAs('parent');
+    for (const name of OBSERVABLE) {
+      await assertFails(setDoc(doc(db, `users/student/${name}/doc2`), { date: '2026-10-19' }));
+      await assertFails(updateDoc(doc(db, `users/student/${name}/doc1`), { date: '2026-10-20' }));
+      await assertFails(deleteDoc(doc(db, `users/student/${name}/doc1`)));
+    }
+  });
+
+  it('cannot read anything else of the student', async () => {
+    await assertFails(getDoc(doc(dbAs('parent'), 'users/student/settings/config')));
+  });
+
+  it('gives nothing to someone who was never invited', async () => {
+    await assertFails(getDoc(doc(dbAs('stranger'), 'users/student/dailyGoals/doc1')));
+  });
+
+  it('loses access once the student revokes it', async () => {
+    await assertSucceeds(deleteDoc(doc(dbAs('student'), 'users/student/observers/parent')));
+    const db = dbAs('parent');
+    for (const name of OBSERVABLE) {
+      await assertFails(getDoc(doc(db, `users/student/${name}/doc1`)));
+    }
+  });
+
+  it('can give up access themselves', async () => {
+    await assertSucceeds(deleteDoc(doc(dbAs('parent'), 'users/student/observers/parent')));
+    await assertFails(getDoc(doc(dbAs('parent'), 'users/student/dailyGoals/doc1')));
+  });
+});
+
+describe('invite redemption', () => {
+  beforeEach(async () => {
+    await seed({
+      'invites/GOODCODE': invite(),
+      'invites/EXPIRED1': invite({ expiresAt: Timestamp.fromMillis(Date.now() - DAY_MS) }),
+      'invites/USEDCODE': invite({ acceptedBy: 'someone' }),
+      'invites/OTHERSTU': invite({ studentId: 'other-student' }),
+      'invites/FORTUTOR': invite({ email: 'tutor@example.com' })
+    });
+  });
+
+  it('grants access with a valid code', async () => {
+    const db = dbAs('parent');
+    await assertSucceeds(redeem(db, 'parent', 'GOODCODE'));
+    await assertSucceeds(getDoc(doc(db, 'users/student/dailyGoals/doc1')));
+  });
+
+  it('rejects a code that does not exist', async () => {
+    await assertFails(redeem(dbAs('parent'), 'parent', 'NOSUCHCD'));
+  });
+
+  it('rejects an expired code', async () => {
+    await assertFails(redeem(dbAs('parent'), 'parent', 'EXPIRED1'));
+  });
+
+  it('rejects a code that was already used', async () => {
+    await assertFails(redeem(dbAs('parent'), 'parent', 'USEDCODE'));
+  });
+
+  it('rejects a code issued by another student', async () => {
+    await assertFails(redeem(dbAs('parent'), 'parent', 'OTHERSTU'));
+  });
+
+  it('only lets the invited email redeem an addressed invite', async () => {
+    await assertFails(redeem(dbAs('parent', 'parent@example.com'), 'parent', 'FORTUTOR'));
+    await assertSucceeds(redeem(dbAs('tutor', 'Tutor@Example.com'), 'tutor', 'FORTUTOR'));
+  });
+
+  it('cannot create a grant for someone else', async () => {
+    await assertFails(redeem(dbAs('parent'), 'friend', 'GOODCODE'));
+    await assertFails(redeem(dbAs('parent'), 'friend', 'GOODCODE', 'parent'));
+  });
+
+  it('accepts the grant and the claim only together', async () => {
+    const db = dbAs('parent');
+    await assertFails(setDoc(doc(db, 'users/student/observers/parent'), grant('GOODCODE')));
+    await assertFails(updateDoc(doc(db, 'invites/GOODCODE'), { acceptedBy: 'parent' }));
+    await assertFails(redeem(db, 'parent', 'GOODCODE', 'friend'));
+  });
+
+  it('claims a code only once, for the observer who redeemed it', async () => {
+    await assertSucceeds(redeem(dbAs('parent'), 'parent', 'GOODCODE'));
+    await assertFails(redeem(dbAs('friend'), 'friend', 'GOODCODE'));
+    await assertFails(updateDoc(doc(dbAs('parent'), 'invites/GOODCODE'), { acceptedBy: 'parent' }));
+  });
+
+  it('does not let a second observer redeem a code left unclaimed', async () => {
+    await assertFails(setDoc(doc(dbAs('parent'), 'users/student/observers/parent'), grant('GOODCODE')));
+    await assertSucceeds(redeem(dbAs('friend'), 'friend', 'GOODCODE'));
+    await assertFails(redeem(dbAs('parent'), 'parent', 'GOODCODE'));
+    await assertFails(getDoc(doc(dbAs('parent'), 'users/student/dailyGoals/doc1')));
+  });
+
+  it('does not let an existing observer claim another invite', async () => {
+    await seed({ 'users/student/observers/parent': grant('OLDCODE1') });
+    const db = dbAs('parent');
+    await assertFails(updateDoc(doc(db, 'invites/GOODCODE'), { acceptedBy: 'parent' }));
+    await assertFails(redeem(db, 'parent', 'GOODCODE'));
+  });
+});
+
+describe('study groups', () => {
+  const member = (name: string) => ({ name, shareStats: false, completedChallenges: [], joinCode: 'JOINCODE' });
+
+  beforeEach(async () => {
+    await seed({
+      'groups/g1': { name: 'Class 10B', code: 'JOINCODE', ownerId: 'owner' },
+      'groups/g1/members/owner': member('Owner'),
+      'groups/g1/members/alice': member('Alice'),
+      'groups/g1/members/bob': member('Bob'),
+      'groups/g1/challenges/c1': { title: 'Ch. 3 exercises', createdBy: 'owner', dueDate: '2026-10-25' },
+      'groupCodes/JOINCODE': { groupId: 'g1', name: 'Class 10B' }
+    });
+  });
+
+  it('lets members read members and challenges', async () => {
+    const db = dbAs('alice');
+    await assertSucceeds(getDocs(collection(db, 'groups/g1/members')));
+    await assertSucceeds(getDocs(collection(db, 'groups/g1/challenges')));
+    await assertSucceeds(getDoc(doc(db, 'groups/g1')));
+  });
+
+  it('keeps non-members out', async () => {
+    const db = dbAs('mallory');
+    await assertFails(getDoc(doc(db, 'groups/g1')));
+    await assertFails(getDocs(collection(db, 'groups/g1/members')));
+    await assertFails(getDoc(doc(db, 'groups/g1/members/alice')));
+    await assertFails(getDocs(collection(db, 'groups/g1/challenges')));
+    await assertFails(setDoc(doc(db, 'groups/g1/challenges/c2'), { title: 'Spam', createdBy: 'mallory', dueDate: '2026-10-25' }));
+    await assertFails(updateDoc(doc(db, 'groups/g1/members/alice'), { shareStats: true }));
+  });
+
+  it('lets members add challenges as themselves only', async () => {
+    const db = dbAs('alice');
+    await assertSucceeds(setDoc(doc(db, 'groups/g1/challenges/c2'), { title: 'Past paper', createdBy: 'alice', dueDate: '2026-10-30' }));
+    await assertFails(setDoc(doc(db, 'groups/g1/challenges/c3'), { title: 'Past paper', createdBy: 'bob', dueDate: '2026-10-30' }));
+  });
+
+  it('lets a challenge be deleted by its creator or the owner only', async () => {
+    await assertFails(deleteDoc(doc(dbAs('alice'), 'groups/g1/challenges/c1')));
+    await assertSucceeds(deleteDoc(doc(dbAs('owner'), 'groups/g1/challenges/c1')));
+  });
+
+  it('lets a member write only their own member entry', async () => {
+    const db = dbAs('alice');
+    await assertSucceeds(updateDoc(doc(db, 'groups/g1/members/alice'), { shareStats: true, completedChallenges: ['c1'] }));
+    await assertFails(updateDoc(doc(db, 'groups/g1/members/bob'), { completedChallenges: ['c1'] }));
+    await assertFails(setDoc(doc(db, 'groups/g1/members/carol'), member('Carol')));
+    await assertFails(deleteDoc(doc(db, 'groups/g1/members/bob')));
+  });
+
+  it('does not let a member change the code on their entry', async () => {
+    await assertFails(updateDoc(doc(dbAs('alice'), 'groups/g1/members/alice'), { joinCode: 'OTHERCOD' }));
+  });
+
+  it('lets a member leave and the owner remove anyone', async () => {
+    await assertSucceeds(deleteDoc(doc(dbAs('alice'), 'groups/g1/members/alice')));
+    await assertSucceeds(deleteDoc(doc(dbAs('owner'), 'groups/g1/members/bob')));
+  });
+
+  it('lets someone join only with the group code', async () => {
+    await assertSucceeds(getDoc(doc(dbAs('carol'), 'groupCodes/JOINCODE')));
+    await assertFails(setDoc(doc(dbAs('carol'), 'groups/g1/members/carol'), { ...member('Carol'), joinCode: 'WRONGCOD' }));
+    await assertSucceeds(setDoc(doc(dbAs('carol'), 'groups/g1/members/carol'), member('Carol')));
+    await assertSucceeds(getDocs(collection(dbAs('carol'), 'groups/g1/challenges')));
+  });
+
+  it('lets only the owner publish a join code', async () => {
+    await assertFails(setDoc(doc(dbAs('alice'), 'groupCodes/NEWCODE1'), { groupId: 'g1', name: 'Class 10B' }));
+    await assertSucceeds(setDoc(doc(dbAs('owner'), 'groupCodes/NEWCODE1'), { groupId: 'g1', name: 'Class 10B' }));
+  });
+});
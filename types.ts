@@ -23,8 +23,73 @@ export interface DailyGoal {
   targetHours: number;
   completed: boolean;
   priority: Priority;
-  createdAt: any; // Firebase Timestamp
+  createdAt: number; // Epoch ms (stored as a backend timestamp)
   completedAt?: string | null; // YYYY-MM-DD - Date when it was actually marked complete
+  seriesId?: string; // Set on occurrences materialized from a GoalSeries
+  chapterId?: string | null;
+  revisionOf?: string | null; // Id of the goal this revises
+  revisionStep?: number; // 1 for the first revision, 2 for the next...
+  recallRating?: RecallRating | null; // How well the student remembered it, set when a revision is completed
+  planId?: string | null; // Set on goals added from an auto-generated study plan
+  mistakeIds?: string[]; // Error-log entries this goal re-attempts
+  groupChallenge?: { groupId: string; challengeId: string } | null; // Completing the goal completes this group challenge
+  originalDate?: string | null; // YYYY-MM-DD - Date it was first set for, kept when it is rescheduled
+  abandonedAt?: string | null; // YYYY-MM-DD - Given up on; kept in history but left out of completion stats
+}
+
+export type RecallRating = 'easy' | 'ok' | 'hard';
+
+// What a day needs for the streak to count it, and which weekdays are planned rest
+export interface StreakSettings {
+  rule: 'minutes' | 'goals'; // Study at least `minMinutes`, or finish every goal set for the day
+  minMinutes: number;
+  restDays: number[]; // Weekdays (0 = Sunday) that neither extend nor break the streak
+  freezes: boolean; // Earn freezes that cover a missed day
+}
+
+// How long an unfinished goal keeps showing up on later days
+export interface RolloverSettings {
+  mode: 'always' | 'days' | 'never';
+  days: number; // With 'days': how many days past its date a goal still rolls over
+}
+
+// Inputs to the study plan generator, remembered between plans
+export interface StudyPlanPreferences {
+  hoursByWeekday: number[]; // Sun..Sat
+  subjectConfidence: Record<string, number>; // Subject -> 1-10
+}
+
+// Spaced-repetition schedule, in days after the previous completion
+export interface RevisionSettings {
+  enabled: boolean;
+  intervals: number[];
+  subjectIntervals?: Partial<Record<string, number[]>>; // Overrides by subject
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'interval';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startDate: string; // YYYY-MM-DD
+  daysOfWeek?: number[]; // 0 = Sunday. Used by 'weekly'
+  interval?: number; // Every N days. Used by 'interval'
+  endDate?: string | null; // YYYY-MM-DD, inclusive
+  count?: number | null; // Stop after N occurrences (skipped ones included)
+}
+
+// Template for a repeating goal; one DailyGoal is materialized per occurrence day
+export interface GoalSeries {
+  id?: string;
+  userId: string;
+  title: string;
+  subject: Subject;
+  targetHours: number;
+  priority: Priority;
+  chapterId?: string | null;
+  recurrence: RecurrenceRule;
+  skippedDates: string[]; // YYYY-MM-DD
+  materializedThrough?: string | null; // YYYY-MM-DD; occurrences up to here have been created
+  createdAt: number; // Epoch ms
 }
 
 export interface StudySession {
@@ -32,19 +97,258 @@ export interface StudySession {
   userId: string;
   subject: Subject;
   topic: string;
-  startTime: any; // Firebase Timestamp
-  endTime: any; // Firebase Timestamp
+  startTime: number; // Epoch ms (stored as a backend timestamp)
+  endTime: number; // Epoch ms (stored as a backend timestamp)
   durationMinutes: number;
   date: string; // YYYY-MM-DD
+  goalId?: string | null; // Goal the time counts towards; null for unlinked sessions
+  chapterId?: string | null;
+}
+
+export interface SessionQuery {
+  from?: string; // Inclusive YYYY-MM-DD
+  to?: string; // Inclusive YYYY-MM-DD
+  subject?: Subject;
+  goalId?: string;
+}
+
+// One confidence rating (0-100) for a subject, or a chapter of it, on a study day
+export interface ConfidenceEntry {
+  id?: string;
+  date: string; // YYYY-MM-DD
+  subject: string; // A Subject value, or 'overall' for scores logged before per-subject tracking
+  chapterId?: string | null;
+  score: number;
+}
+
+// Pre-aggregated totals for one study day, kept in step with its sessions, goals and confidence
+export interface DailySummary {
+  id?: string; // Same as `date`
+  userId: string;
+  date: string; // YYYY-MM-DD
+  totalMinutes: number;
+  sessionCount: number;
+  minutesBySubject: Record<string, number>;
+  minutesByChapter?: Record<string, number>; // Sessions linked to a syllabus chapter; missing on rollups built before version 4
+  topicsBySubject: Record<string, string[]>;
+  topicKeys: string[]; // Distinct topic identities, for lifetime topic counts
+  goalsSet: number;
+  goalsCompleted: number;
+  confidence: number | null; // Derived from the day's per-subject ratings
+  earlyStarts?: number; // Sessions started in the early-bird window
+  updatedAt: number; // Epoch ms
+}
+
+export interface DailySummaryPage {
+  summaries: DailySummary[];
+  nextCursor: string | null; // Oldest date on this page; null when there is nothing older
+}
+
+export enum ChapterStatus {
+  NotStarted = 'Not Started',
+  Learning = 'Learning',
+  Done = 'Done'
+}
+
+export interface Chapter {
+  id?: string;
+  userId: string;
+  subject: Subject;
+  name: string;
+  order: number;
+  status: ChapterStatus;
+  revisionCount: number;
+  pyqsSolved: boolean;
+  updatedAt?: number; // Epoch ms
+}
+
+export type MockTestSource = 'sample' | 'pyq' | 'mock' | 'other';
+
+export interface MockTestSection {
+  name: string; // e.g. "Section A - MCQ"
+  marksObtained: number;
+  maxMarks: number;
+}
+
+// A sample paper, previous year question paper or mock test attempted under exam conditions
+export interface MockTest {
+  id?: string;
+  userId: string;
+  subject: Subject;
+  sourceType: MockTestSource;
+  source: string; // e.g. "CBSE Sample Paper 2025-26"
+  date: string; // YYYY-MM-DD
+  marksObtained: number;
+  maxMarks: number;
+  timeTakenMinutes: number | null;
+  sections: MockTestSection[];
+  mistakes: string[];
+  createdAt: number; // Epoch ms
+}
+
+export type MistakeType = 'calculation' | 'concept' | 'reading' | 'time';
+
+// One entry in the error log: a silly mistake or concept gap to come back to
+export interface Mistake {
+  id?: string;
+  userId: string;
+  subject: Subject;
+  chapterId: string | null;
+  topic: string;
+  type: MistakeType;
+  description: string;
+  sourceType: 'session' | 'mockTest' | null; // Where it was spotted
+  sourceId: string | null;
+  resolved: boolean;
+  resolvedAt?: string | null; // YYYY-MM-DD
+  reattemptGoalId?: string | null; // Latest goal generated to re-attempt it
+  createdAt: number; // Epoch ms
+}
+
+// An unlocked achievement; the document id is the achievement id
+export interface UnlockedAchievement {
+  id: string;
+  unlockedOn: string; // YYYY-MM-DD - Study day the condition was first met
+  xp: number;
+}
+
+export interface Progress {
+  xp: number;
+  level: number;
+  updatedAt: number; // Epoch ms
+}
+
+// A one-time code a student hands to a parent or tutor; the document id is the code
+export interface Invite {
+  id?: string;
+  studentId: string;
+  studentName: string;
+  email: string | null; // Only this account may accept, when set (lowercase)
+  createdAt: number; // Epoch ms
+  expiresAt: number; // Epoch ms
+  acceptedBy: string | null; // Observer uid, once used
+}
+
+// Read-only access granted to an observer; stored under the student, keyed by observer uid
+export interface ObserverGrant {
+  id?: string;
+  name: string;
+  email: string | null;
+  inviteCode: string;
+  grantedAt: number; // Epoch ms
+}
+
+// A student the signed-in user observes; stored under the observer, keyed by student uid
+export interface ObservedStudent {
+  id?: string;
+  studentName: string;
+  since: number; // Epoch ms
+}
+
+export interface StudyGroup {
+  id?: string;
+  name: string;
+  code: string; // Join code
+  ownerId: string;
+  createdAt: number; // Epoch ms
+}
+
+// One member's entry in a group, keyed by uid. Only weekly totals are shared, and only when opted in.
+export interface GroupMember {
+  id?: string;
+  name: string;
+  joinedAt: number; // Epoch ms
+  shareStats: boolean;
+  weekStart: string | null; // Monday the totals below belong to
+  weekMinutes: number | null;
+  weekGoalsCompleted: number | null;
+  completedChallenges: string[];
+  simulated?: boolean; // Demo-mode stand-in
+}
+
+// "Everyone finishes Carbon Compounds by Friday"
+export interface GroupChallenge {
+  id?: string;
+  title: string;
+  subject: Subject;
+  dueDate: string; // YYYY-MM-DD
+  createdBy: string;
+  createdAt: number; // Epoch ms
+}
+
+// Entry in the signed-in user's own list of groups, keyed by group id
+export interface MyGroup {
+  id?: string;
+  name: string;
+  joinedAt: number; // Epoch ms
+}
+
+export interface PomodoroPreset {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number; // Focus blocks between long breaks
+}
+
+export interface TimerPause {
+  start: number; // Epoch ms
+  end: number | null; // null while still paused
+}
+
+// The running timer, persisted so it survives reloads and can be picked up on another device
+export interface ActiveSession {
+  mode: 'stopwatch' | 'pomodoro';
+  goalId: string;
+  subject: Subject;
+  topic: string;
+  chapterId: string | null;
+  startTime: number; // Epoch ms
+  pauses: TimerPause[];
+  tabId: string; // Browser tab currently running the timer
+  heartbeatAt: number; // Epoch ms, refreshed by the owning tab
+  pomodoro?: {
+    phase: 'focus' | 'shortBreak' | 'longBreak';
+    phaseStartedAt: number;
+    phaseEndsAt: number;
+    blocks: number;
+    preset: PomodoroPreset;
+  };
 }
 
 export interface UserSettings {
   motivationNote: string;
   theme: 'light' | 'dark';
+  pomodoro?: PomodoroPreset;
+  activeSession?: ActiveSession | null;
+  dayStartHour?: number; // Hour (0-23) at which a new study day begins
+  revision?: RevisionSettings;
+  studyPlan?: StudyPlanPreferences;
+  streak?: StreakSettings;
+  rollover?: RolloverSettings;
+}
+
+// State of the offline write queue, shown in the app header
+export interface SyncStatus {
+  pending: number; // Writes made on this device that the backend has not confirmed yet
+  online: boolean;
+  syncing: boolean;
+  lastError: string | null;
+}
+
+export interface Exam {
+  id?: string;
+  userId: string;
+  subject: string; // Subject value for Class 10, free text for other streams
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:mm (local)
+  paperCode: string;
+  maxMarks: number;
+  syllabusNotes: string;
 }
 
-export interface ExamDate {
-  date: string; // DD/MM/YYYY
-  subject: string;
-  daysLeft: number;
+export interface ExamPreset {
+  id: string;
+  name: string;
+  tentative: boolean; // Dates are placeholders to be checked against the official date sheet
+  exams: Omit<Exam, 'id' | 'userId'>[];
 }
\ No newline at end of file